@@ -0,0 +1,332 @@
+import type { HyperliquidClient } from "./client";
+import { TypedEmitter, ListenerGroup } from "./emitter";
+import {
+  AccountChangeReason,
+  AccountSnapshot,
+  AccountStateEvents,
+  AccountStateOptions,
+  AccountTotals,
+  ClientEvents,
+  OpenOrder,
+  Position,
+  PriceData,
+  UserFunding,
+  WalletDataEvent,
+} from "./types";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ACCOUNT STATE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * AccountState - Maintains positions, open orders, balance and the funding
+ * ledger from the client's user data events, marks positions to live
+ * prices and emits a single "accountChanged" event.
+ *
+ * Subscribe to prices (e.g., `client.subscribePrices()`) for live marks;
+ * without them positions keep the server's mark price.
+ *
+ * @example
+ * ```typescript
+ * const account = new AccountState(client);
+ * await client.authenticate('0x1234...');
+ *
+ * account.on('accountChanged', ({ reason, account }) => {
+ *   console.log(reason, account.totals.unrealizedPnl, account.totals.effectiveLeverage);
+ * });
+ *
+ * // One wallet of a client tracking several
+ * const vault = new AccountState(client, { wallet: '0xabcd...' });
+ * ```
+ */
+export class AccountState extends TypedEmitter<AccountStateEvents> {
+  private positions = new Map<string, Position>();
+  private openOrders = new Map<string, OpenOrder>();
+  private balance: number | null = null;
+  private fundings: UserFunding[] = [];
+  private listeners: ListenerGroup<ClientEvents> | null = null;
+
+  /**
+   * @param client - Optional client to follow user data and price events from
+   * @param options - Wallet to follow when the client tracks several
+   */
+  constructor(client?: HyperliquidClient, options?: AccountStateOptions) {
+    super();
+    if (client) this.attach(client, options?.wallet);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // GETTERS
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Open positions
+   */
+  getPositions(): Position[] {
+    return Array.from(this.positions.values());
+  }
+
+  /**
+   * Position for an asset, if open
+   */
+  getPosition(asset: string): Position | undefined {
+    return this.positions.get(asset);
+  }
+
+  /**
+   * Open orders
+   */
+  getOpenOrders(): OpenOrder[] {
+    return Array.from(this.openOrders.values());
+  }
+
+  /**
+   * Latest balance (null until received)
+   */
+  getBalance(): number | null {
+    return this.balance;
+  }
+
+  /**
+   * Funding payments received so far
+   */
+  getFundings(): UserFunding[] {
+    return [...this.fundings];
+  }
+
+  /**
+   * Account-wide totals
+   */
+  getTotals(): AccountTotals {
+    let unrealizedPnl = 0;
+    let notional = 0;
+    let netNotional = 0;
+
+    this.positions.forEach((position) => {
+      const value = Math.abs(position.size) * position.markPrice;
+      unrealizedPnl += position.pnl;
+      notional += value;
+      netNotional += position.side === "long" ? value : -value;
+    });
+
+    const totalFunding = this.fundings.reduce(
+      (sum, funding) => sum + Number(funding.usdc),
+      0
+    );
+
+    return {
+      unrealizedPnl,
+      notional,
+      netNotional,
+      effectiveLeverage:
+        this.balance !== null && this.balance > 0
+          ? notional / this.balance
+          : null,
+      totalFunding,
+    };
+  }
+
+  /**
+   * Full point-in-time view of the account
+   */
+  getSnapshot(): AccountSnapshot {
+    return {
+      positions: this.getPositions(),
+      openOrders: this.getOpenOrders(),
+      balance: this.balance,
+      fundings: this.getFundings(),
+      totals: this.getTotals(),
+    };
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // UPDATES
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Replace all positions with a snapshot
+   */
+  setPositions(positions: Position[]): void {
+    this.positions.clear();
+    positions.forEach((position) => this.positions.set(position.asset, position));
+    this.changed("positions");
+  }
+
+  /**
+   * Insert or update one position (size 0 removes it)
+   */
+  updatePosition(position: Position): void {
+    if (position.size === 0) {
+      this.positions.delete(position.asset);
+    } else {
+      this.positions.set(position.asset, position);
+    }
+    this.changed("positions");
+  }
+
+  /**
+   * Remove a closed position
+   */
+  removePosition(asset: string): void {
+    if (this.positions.delete(asset)) this.changed("positions");
+  }
+
+  /**
+   * Replace all open orders with a snapshot
+   */
+  setOpenOrders(orders: OpenOrder[]): void {
+    this.openOrders.clear();
+    orders.forEach((order) => this.openOrders.set(order.id, order));
+    this.changed("orders");
+  }
+
+  /**
+   * Insert or update one open order (fully filled orders are removed)
+   */
+  updateOpenOrder(order: OpenOrder): void {
+    if (order.remaining <= 0) {
+      this.openOrders.delete(order.id);
+    } else {
+      this.openOrders.set(order.id, order);
+    }
+    this.changed("orders");
+  }
+
+  /**
+   * Remove a canceled or filled order
+   */
+  removeOpenOrder(orderId: string): void {
+    if (this.openOrders.delete(orderId)) this.changed("orders");
+  }
+
+  /**
+   * Set the account balance
+   */
+  setBalance(balance: number): void {
+    this.balance = balance;
+    this.changed("balance");
+  }
+
+  /**
+   * Replace the funding ledger with a snapshot
+   */
+  setFundings(fundings: UserFunding[]): void {
+    this.fundings = [...fundings];
+    this.changed("funding");
+  }
+
+  /**
+   * Append a funding payment (duplicates by time and coin are ignored)
+   */
+  addFunding(funding: UserFunding): void {
+    const duplicate = this.fundings.some(
+      (entry) => entry.time === funding.time && entry.coin === funding.coin
+    );
+    if (duplicate) return;
+
+    this.fundings.push(funding);
+    this.changed("funding");
+  }
+
+  /**
+   * Re-mark positions to live prices, recomputing PnL
+   */
+  applyPrices(prices: PriceData[]): void {
+    let marked = false;
+
+    for (const price of prices) {
+      const position = this.positions.get(price.symbol);
+      if (!position || position.markPrice === price.price) continue;
+      this.positions.set(price.symbol, markPosition(position, price.price));
+      marked = true;
+    }
+
+    if (marked) this.changed("prices");
+  }
+
+  /**
+   * Forget all account data, emitting "accountChanged" with the "reset" reason
+   */
+  reset(): void {
+    this.positions.clear();
+    this.openOrders.clear();
+    this.balance = null;
+    this.fundings = [];
+    this.changed("reset");
+  }
+
+  /**
+   * Stop following the client
+   */
+  destroy(): void {
+    this.listeners?.removeAll();
+    this.listeners = null;
+    this.removeAllListeners();
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // PRIVATE METHODS
+  // ═══════════════════════════════════════════════════════════════════════
+
+  private attach(client: HyperliquidClient, wallet?: string): void {
+    const listeners = new ListenerGroup<ClientEvents>(client);
+    this.listeners = listeners;
+
+    listeners.on("walletData", (event) => {
+      if (!wallet || event.wallet?.toLowerCase() === wallet.toLowerCase()) {
+        this.apply(event);
+      }
+    });
+    listeners.on("prices", (prices) => this.applyPrices(prices));
+    listeners.on("price", (price) => this.applyPrices([price]));
+  }
+
+  private apply(event: WalletDataEvent): void {
+    switch (event.event) {
+      case "positions":
+        return this.setPositions(event.data);
+      case "position":
+        return this.updatePosition(event.data);
+      case "positionClosed":
+        return this.removePosition(event.data.asset);
+      case "openOrders":
+        return this.setOpenOrders(event.data);
+      case "openOrder":
+        return this.updateOpenOrder(event.data);
+      case "orderRemoved":
+        return this.removeOpenOrder(event.data.orderId);
+      case "balance":
+        return this.setBalance(event.data);
+      case "fundings":
+        return this.setFundings(event.data);
+      case "funding":
+        return this.addFunding(event.data);
+    }
+  }
+
+  private changed(reason: AccountChangeReason): void {
+    this.emit("accountChanged", { reason, account: this.getSnapshot() });
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Position re-marked at a new price. pnlPercent is return on margin
+ * (entry notional / leverage).
+ */
+function markPosition(position: Position, markPrice: number): Position {
+  const size = Math.abs(position.size);
+  const direction = position.side === "long" ? 1 : -1;
+  const pnl = (markPrice - position.entryPrice) * size * direction;
+  const margin = (position.entryPrice * size) / Math.max(position.leverage, 1);
+
+  return {
+    ...position,
+    markPrice,
+    pnl,
+    pnlPercent: margin > 0 ? (pnl / margin) * 100 : 0,
+  };
+}
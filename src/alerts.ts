@@ -0,0 +1,368 @@
+import type { HyperliquidClient } from "./client";
+import { TypedEmitter, ListenerGroup } from "./emitter";
+import {
+  AlertEngineEvents,
+  AlertEngineOptions,
+  AlertMetric,
+  AlertOperator,
+  AlertRule,
+  AlertRuleInput,
+  ClientEvents,
+  OrderBook,
+  Position,
+  PriceData,
+  WalletDataEvent,
+} from "./types";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSTANTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+const DEFAULT_COOLDOWN = 60000;
+
+const METRICS: AlertMetric[] = [
+  "price",
+  "changePercent24h",
+  "fundingRate",
+  "spreadBps",
+  "liquidationDistance",
+];
+
+const OPERATORS: AlertOperator[] = ["above", "below", "crossesAbove", "crossesBelow"];
+
+/**
+ * Evaluation state of a rule for one asset (or position)
+ */
+interface RuleState {
+  value?: number;
+  armed: boolean;
+  firedAt?: number;
+}
+
+interface TrackedPosition {
+  wallet: string | null;
+  position: Position;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ALERT ENGINE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * AlertEngine - Evaluates rules against the client's price, order book and
+ * position streams and emits "alert" when one fires.
+ *
+ * Rules are plain objects and can be stored as JSON. Each rule is tracked
+ * per asset (and per wallet for positions): once fired it stays quiet
+ * until the value moves back past the threshold by `hysteresis`, and
+ * repeating rules also wait `cooldown` ms between alerts.
+ *
+ * @example
+ * ```typescript
+ * const alerts = new AlertEngine(client);
+ *
+ * alerts.addRule({ metric: 'price', asset: 'BTC', operator: 'crossesAbove', threshold: 100_000 });
+ * alerts.addRule({ metric: 'fundingRate', operator: 'above', threshold: 0.0005, mode: 'repeat' });
+ * alerts.addRule({ metric: 'spreadBps', asset: 'ETH', operator: 'above', threshold: 10, hysteresis: 2 });
+ * alerts.addRule({ metric: 'liquidationDistance', operator: 'below', threshold: 5 });
+ *
+ * alerts.on('alert', ({ rule, asset, value }) => {
+ *   console.log(`${rule.name ?? rule.id}: ${asset} ${rule.metric} = ${value}`);
+ * });
+ *
+ * localStorage.setItem('alerts', JSON.stringify(alerts.getRules()));
+ * ```
+ */
+export class AlertEngine extends TypedEmitter<AlertEngineEvents> {
+  private rules = new Map<string, AlertRule>();
+  private states = new Map<string, Map<string, RuleState>>();
+  private positions = new Map<string, TrackedPosition>();
+  private listeners: ListenerGroup<ClientEvents>;
+  private nextId = 1;
+
+  constructor(
+    private client: HyperliquidClient,
+    options?: AlertEngineOptions
+  ) {
+    super();
+
+    options?.rules?.forEach((rule) => this.addRule(rule));
+
+    this.listeners = new ListenerGroup<ClientEvents>(client);
+    this.listeners.on("prices", (prices) =>
+      prices.forEach((price) => this.handlePrice(price))
+    );
+    this.listeners.on("price", (price) => this.handlePrice(price));
+    this.listeners.on("orderbook", (book) => this.handleOrderBook(book));
+    this.listeners.on("walletData", (event) => this.handleWalletData(event));
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // RULES
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Add a rule, replacing any rule with the same id
+   * @returns The stored rule
+   */
+  addRule(input: AlertRuleInput): AlertRule {
+    validateRule(input);
+
+    // Stored as a copy: a one-shot rule that fires disables the stored rule,
+    // never the caller's object
+    const rule: AlertRule = { ...input, id: input.id ?? this.generateId() };
+    if (rule.asset !== undefined) {
+      rule.asset = this.client.getAssetRegistry().get(rule.asset)?.symbol ?? rule.asset;
+    }
+
+    this.rules.set(rule.id, rule);
+    this.states.delete(rule.id);
+    return { ...rule };
+  }
+
+  /**
+   * Remove a rule
+   */
+  removeRule(id: string): void {
+    this.rules.delete(id);
+    this.states.delete(id);
+  }
+
+  /**
+   * Enable or disable a rule. Enabling re-arms it, so a fired one-shot
+   * rule can fire again.
+   */
+  setEnabled(id: string, enabled: boolean): void {
+    const rule = this.rules.get(id);
+    if (!rule) {
+      throw new Error(`Unknown alert rule: ${id}`);
+    }
+    rule.enabled = enabled;
+    if (enabled) this.states.delete(id);
+  }
+
+  /**
+   * Get a rule by id
+   */
+  getRule(id: string): AlertRule | undefined {
+    const rule = this.rules.get(id);
+    return rule && { ...rule };
+  }
+
+  /**
+   * Every rule, ready to be serialized
+   */
+  getRules(): AlertRule[] {
+    return Array.from(this.rules.values(), (rule) => ({ ...rule }));
+  }
+
+  /**
+   * Stop following the client
+   */
+  destroy(): void {
+    this.listeners.removeAll();
+    this.positions.clear();
+    this.states.clear();
+    this.removeAllListeners();
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // DATA HANDLERS
+  // ═══════════════════════════════════════════════════════════════════════
+
+  private handlePrice(price: PriceData): void {
+    const { symbol } = price;
+    this.evaluate("price", symbol, symbol, price.price, price);
+    this.evaluate("changePercent24h", symbol, symbol, price.changePercent24h, price);
+    this.evaluate("fundingRate", symbol, symbol, price.fundingRate, price);
+
+    // Marks move faster than position updates
+    this.positions.forEach((tracked) => {
+      if (tracked.position.asset !== price.symbol) return;
+      tracked.position = { ...tracked.position, markPrice: price.price };
+      this.evaluatePosition(tracked);
+    });
+  }
+
+  private handleOrderBook(book: OrderBook): void {
+    if (!(book.midPrice > 0)) return;
+    const spreadBps = (book.spread / book.midPrice) * 10_000;
+    this.evaluate("spreadBps", book.asset, book.asset, spreadBps, book);
+  }
+
+  private handleWalletData({ wallet, event, data }: WalletDataEvent): void {
+    switch (event) {
+      case "positions": {
+        const prefix = positionKey(wallet, "");
+        Array.from(this.positions.keys())
+          .filter((key) => key.startsWith(prefix))
+          .forEach((key) => this.forgetPosition(key));
+        data.forEach((position) => this.trackPosition(wallet, position));
+        break;
+      }
+      case "position":
+        this.trackPosition(wallet, data);
+        break;
+      case "positionClosed":
+        this.forgetPosition(positionKey(wallet, data.asset));
+        break;
+    }
+  }
+
+  private trackPosition(wallet: string | null, position: Position): void {
+    const tracked = { wallet, position };
+    this.positions.set(positionKey(wallet, position.asset), tracked);
+    this.evaluatePosition(tracked);
+  }
+
+  private forgetPosition(key: string): void {
+    this.positions.delete(key);
+    this.states.forEach((states) => states.delete(key));
+  }
+
+  private evaluatePosition({ wallet, position }: TrackedPosition): void {
+    const { liqPrice, markPrice } = position;
+    if (liqPrice === undefined || !(markPrice > 0)) return;
+
+    const distance = (Math.abs(markPrice - liqPrice) / markPrice) * 100;
+    this.evaluate(
+      "liquidationDistance",
+      position.asset,
+      positionKey(wallet, position.asset),
+      distance,
+      position,
+      wallet
+    );
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // EVALUATION
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Run every matching rule against a new value
+   * @param key - State key: the asset, or wallet and asset for positions
+   */
+  private evaluate(
+    metric: AlertMetric,
+    asset: string,
+    key: string,
+    value: number,
+    data: PriceData | OrderBook | Position,
+    wallet?: string | null
+  ): void {
+    if (!Number.isFinite(value)) return;
+
+    this.rules.forEach((rule) => {
+      if (rule.metric !== metric || rule.enabled === false) return;
+      if (rule.asset !== undefined && rule.asset !== asset) return;
+      if (
+        rule.wallet !== undefined &&
+        rule.wallet.toLowerCase() !== wallet?.toLowerCase()
+      ) {
+        return;
+      }
+
+      const state = this.stateOf(rule.id, key);
+      const previous = state.value;
+      state.value = value;
+
+      if (!state.armed) {
+        if (!isRearmed(rule, value)) return;
+        state.armed = true;
+      }
+
+      if (!isTriggered(rule, value, previous)) return;
+
+      const now = Date.now();
+      const cooldown = rule.cooldown ?? DEFAULT_COOLDOWN;
+      if (state.firedAt !== undefined && now - state.firedAt < cooldown) return;
+
+      state.armed = false;
+      state.firedAt = now;
+      if (rule.mode !== "repeat") rule.enabled = false;
+
+      this.emit("alert", {
+        rule: { ...rule },
+        asset,
+        ...(metric === "liquidationDistance" && { wallet }),
+        value,
+        previousValue: previous,
+        timestamp: now,
+        data,
+      });
+    });
+  }
+
+  private stateOf(ruleId: string, key: string): RuleState {
+    let states = this.states.get(ruleId);
+    if (!states) {
+      states = new Map();
+      this.states.set(ruleId, states);
+    }
+
+    let state = states.get(key);
+    if (!state) {
+      state = { armed: true };
+      states.set(key, state);
+    }
+    return state;
+  }
+
+  private generateId(): string {
+    let id: string;
+    do {
+      id = `alert-${this.nextId++}`;
+    } while (this.rules.has(id));
+    return id;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+function validateRule(rule: AlertRuleInput): void {
+  if (!METRICS.includes(rule.metric)) {
+    throw new Error(`Unknown alert metric: ${rule.metric}`);
+  }
+  if (!OPERATORS.includes(rule.operator)) {
+    throw new Error(`Unknown alert operator: ${rule.operator}`);
+  }
+  if (!Number.isFinite(rule.threshold)) {
+    throw new Error("Alert threshold must be a finite number");
+  }
+  if ((rule.hysteresis ?? 0) < 0 || (rule.cooldown ?? 0) < 0) {
+    throw new Error("Alert hysteresis and cooldown must not be negative");
+  }
+}
+
+function isTriggered(
+  { operator, threshold }: AlertRule,
+  value: number,
+  previous: number | undefined
+): boolean {
+  switch (operator) {
+    case "above":
+      return value > threshold;
+    case "below":
+      return value < threshold;
+    case "crossesAbove":
+      return previous !== undefined && previous < threshold && value >= threshold;
+    case "crossesBelow":
+      return previous !== undefined && previous > threshold && value <= threshold;
+  }
+}
+
+/**
+ * Whether a fired rule's value moved back past the threshold by the hysteresis
+ */
+function isRearmed({ operator, threshold, hysteresis = 0 }: AlertRule, value: number): boolean {
+  return operator === "above" || operator === "crossesAbove"
+    ? value < threshold - hysteresis
+    : value > threshold + hysteresis;
+}
+
+function positionKey(wallet: string | null, asset: string): string {
+  return `${wallet?.toLowerCase() ?? ""}:${asset}`;
+}
@@ -0,0 +1,181 @@
+import mainnetMetadata from "../metadata/mainnet.json";
+import testnetMetadata from "../metadata/testnet.json";
+import { AssetInfo, Network } from "./types";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// BUNDLED METADATA
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Asset entry as generated into metadata/<network>.json
+ */
+interface MetadataAsset {
+  symbol: string;
+  displayName: string;
+  type: string;
+  index: number | string;
+  szDecimals: number;
+  maxLeverage?: number | null;
+}
+
+const METADATA: Record<Network, { assets: MetadataAsset[] }> = {
+  mainnet: mainnetMetadata,
+  testnet: testnetMetadata,
+};
+
+/** Spot asset ids are offset from perp indices on the exchange */
+const SPOT_ASSET_OFFSET = 10000;
+
+/** Maximum price decimals before subtracting szDecimals */
+const MAX_PRICE_DECIMALS = { perp: 6, spot: 8 };
+
+/** Maximum significant figures in an order price */
+const MAX_PRICE_SIG_FIGS = 5;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ASSET REGISTRY
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * AssetRegistry - Resolves asset names and rounds sizes/prices using the
+ * metadata bundled for a network.
+ *
+ * Assets resolve by symbol ("BTC"), spot index ("@107") or display name
+ * ("HYPE/USDC"), case-insensitively.
+ *
+ * @example
+ * ```typescript
+ * const assets = client.getAssetRegistry();
+ *
+ * assets.resolve('HYPE/USDC').symbol;  // "@107"
+ * assets.roundSize('BTC', 0.123456789); // 0.12346
+ * assets.roundPrice('ETH', 3456.789);   // 3456.8
+ * ```
+ */
+export class AssetRegistry {
+  private bySymbol = new Map<string, AssetInfo>();
+  private byName = new Map<string, AssetInfo>();
+
+  constructor(private network: Network) {
+    for (const entry of METADATA[network].assets) {
+      const asset = toAssetInfo(entry);
+      this.bySymbol.set(asset.symbol, asset);
+      this.byName.set(asset.symbol.toUpperCase(), asset);
+    }
+    // Display names never shadow a symbol
+    this.bySymbol.forEach((asset) => {
+      const name = asset.displayName.toUpperCase();
+      if (!this.byName.has(name)) this.byName.set(name, asset);
+    });
+  }
+
+  /**
+   * Network this registry describes
+   */
+  getNetwork(): Network {
+    return this.network;
+  }
+
+  /**
+   * Look up an asset by symbol, spot index or display name
+   */
+  get(asset: string): AssetInfo | undefined {
+    return (
+      this.bySymbol.get(asset) ?? this.byName.get(asset.trim().toUpperCase())
+    );
+  }
+
+  /**
+   * Check whether an asset exists on this network
+   */
+  has(asset: string): boolean {
+    return this.get(asset) !== undefined;
+  }
+
+  /**
+   * Look up an asset, throwing if it does not exist on this network
+   */
+  resolve(asset: string): AssetInfo {
+    const info = this.get(asset);
+    if (!info) {
+      throw new Error(`Unknown asset on ${this.network}: ${asset}`);
+    }
+    return info;
+  }
+
+  /**
+   * Get all assets
+   */
+  getAll(): AssetInfo[] {
+    return Array.from(this.bySymbol.values());
+  }
+
+  /**
+   * Get all perpetual contracts
+   */
+  getPerps(): AssetInfo[] {
+    return this.getAll().filter((asset) => asset.type === "perp");
+  }
+
+  /**
+   * Get all spot pairs
+   */
+  getSpots(): AssetInfo[] {
+    return this.getAll().filter((asset) => asset.type === "spot");
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // ROUNDING
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Round an order size to the asset's szDecimals
+   */
+  roundSize(asset: string, size: number): number {
+    const { szDecimals } = this.resolve(asset);
+    return Number(size.toFixed(szDecimals));
+  }
+
+  /**
+   * Round an order price to at most 5 significant figures and
+   * (6 for perps, 8 for spot) - szDecimals decimals.
+   * Integer prices are always allowed.
+   */
+  roundPrice(asset: string, price: number): number {
+    const { type, szDecimals } = this.resolve(asset);
+
+    if (Number.isInteger(price)) return price;
+
+    const maxDecimals = Math.max(MAX_PRICE_DECIMALS[type] - szDecimals, 0);
+    const significant = Number(price.toPrecision(MAX_PRICE_SIG_FIGS));
+    return Number(significant.toFixed(maxDecimals));
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+function toAssetInfo(entry: MetadataAsset): AssetInfo {
+  const type = entry.type === "spot" ? "spot" : "perp";
+  const asset: AssetInfo = {
+    symbol: entry.symbol,
+    displayName: entry.displayName,
+    type,
+    assetId: toAssetId(entry.index, type),
+    szDecimals: entry.szDecimals,
+  };
+  if (entry.maxLeverage != null) {
+    asset.maxLeverage = entry.maxLeverage;
+  }
+  return asset;
+}
+
+function toAssetId(index: number | string, type: "perp" | "spot"): number {
+  if (typeof index === "number") {
+    return type === "spot" ? SPOT_ASSET_OFFSET + index : index;
+  }
+  // Spot pairs are "@<n>", except the first pair which keeps its name
+  const spotIndex = index.startsWith("@") ? Number(index.slice(1)) : 0;
+  return SPOT_ASSET_OFFSET + spotIndex;
+}
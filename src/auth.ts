@@ -0,0 +1,345 @@
+import { secp256k1 } from "@noble/curves/secp256k1";
+import { keccak_256 } from "@noble/hashes/sha3";
+import { bytesToHex, hexToBytes, utf8ToBytes } from "@noble/hashes/utils";
+import {
+  AuthToken,
+  AuthTokenStore,
+  Eip1193Provider,
+  Signer,
+  TypedData,
+  TypedDataField,
+} from "./types";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SIGNERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * PrivateKeySigner - Signs with a raw secp256k1 private key.
+ * Intended for servers, bots and scripts; never ship a key to a browser.
+ *
+ * @example
+ * ```typescript
+ * const signer = new PrivateKeySigner(process.env.PRIVATE_KEY!);
+ * await client.authenticate(signer);
+ * ```
+ */
+export class PrivateKeySigner implements Signer {
+  private readonly privateKey: Uint8Array;
+  private readonly address: string;
+
+  /**
+   * @param privateKey - 32-byte hex private key (with or without 0x)
+   */
+  constructor(privateKey: string) {
+    const key = parseHex(privateKey);
+    if (key.length !== 32 || !secp256k1.utils.isValidPrivateKey(key)) {
+      throw new Error("Invalid private key");
+    }
+    this.privateKey = key;
+    this.address = publicKeyToAddress(secp256k1.getPublicKey(key, false));
+  }
+
+  async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  async signMessage(message: string): Promise<string> {
+    return this.signDigest(hashMessage(message));
+  }
+
+  async signTypedData(typedData: TypedData): Promise<string> {
+    return this.signDigest(hashTypedData(typedData));
+  }
+
+  /**
+   * Sign a 32-byte digest, returning a 65-byte r || s || v signature
+   */
+  signDigest(digest: Uint8Array): string {
+    const signature = secp256k1.sign(digest, this.privateKey);
+    const v = (signature.recovery + 27).toString(16);
+    return `0x${signature.toCompactHex()}${v}`;
+  }
+}
+
+/**
+ * InjectedSigner - Adapter for browser wallets exposing an EIP-1193
+ * provider (MetaMask, Rabby, WalletConnect, ...). Signing prompts the user.
+ *
+ * @example
+ * ```typescript
+ * const signer = new InjectedSigner(window.ethereum);
+ * await client.authenticate(signer);
+ * ```
+ */
+export class InjectedSigner implements Signer {
+  /**
+   * @param provider - EIP-1193 provider
+   * @param address - Account to sign with (default: first account the wallet exposes)
+   */
+  constructor(
+    private provider: Eip1193Provider,
+    private address?: string
+  ) {}
+
+  async getAddress(): Promise<string> {
+    if (!this.address) {
+      const accounts = (await this.provider.request({
+        method: "eth_requestAccounts",
+      })) as string[];
+      if (!accounts?.length) {
+        throw new Error("Wallet provider returned no accounts");
+      }
+      this.address = accounts[0];
+    }
+    return this.address;
+  }
+
+  async signMessage(message: string): Promise<string> {
+    const address = await this.getAddress();
+    return (await this.provider.request({
+      method: "personal_sign",
+      params: [`0x${bytesToHex(utf8ToBytes(message))}`, address],
+    })) as string;
+  }
+
+  /**
+   * Note: wallets reject typed data whose chainId differs from the active
+   * chain, which includes Hyperliquid exchange actions (chainId 1337).
+   * Trade with an approved agent key (PrivateKeySigner) instead.
+   */
+  async signTypedData(typedData: TypedData): Promise<string> {
+    const address = await this.getAddress();
+    const payload = {
+      ...typedData,
+      types: { EIP712Domain: domainFields(typedData.domain), ...typedData.types },
+    };
+    return (await this.provider.request({
+      method: "eth_signTypedData_v4",
+      params: [address, JSON.stringify(payload)],
+    })) as string;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TOKEN STORE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Default token store: tokens live as long as the client
+ */
+export class MemoryTokenStore implements AuthTokenStore {
+  private tokens = new Map<string, AuthToken>();
+
+  get(wallet: string): AuthToken | undefined {
+    return this.tokens.get(wallet.toLowerCase());
+  }
+
+  set(wallet: string, token: AuthToken): void {
+    this.tokens.set(wallet.toLowerCase(), token);
+  }
+
+  delete(wallet: string): void {
+    this.tokens.delete(wallet.toLowerCase());
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SIGNATURE HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * EIP-191 personal message hash
+ */
+export function hashMessage(message: string): Uint8Array {
+  const bytes = utf8ToBytes(message);
+  const prefix = utf8ToBytes(`\x19Ethereum Signed Message:\n${bytes.length}`);
+  return keccak_256(concatBytes(prefix, bytes));
+}
+
+/**
+ * EIP-712 digest of typed data
+ */
+export function hashTypedData(typedData: TypedData): Uint8Array {
+  const types = {
+    EIP712Domain: domainFields(typedData.domain),
+    ...typedData.types,
+  };
+
+  return keccak_256(
+    concatBytes(
+      new Uint8Array([0x19, 0x01]),
+      hashStruct("EIP712Domain", typedData.domain, types),
+      hashStruct(typedData.primaryType, typedData.message, types)
+    )
+  );
+}
+
+/**
+ * Address that produced a personal_sign signature
+ */
+export function recoverMessageAddress(message: string, signature: string): string {
+  return recoverAddress(hashMessage(message), signature);
+}
+
+/**
+ * Address that produced an EIP-712 signature
+ */
+export function recoverTypedDataAddress(
+  typedData: TypedData,
+  signature: string
+): string {
+  return recoverAddress(hashTypedData(typedData), signature);
+}
+
+/**
+ * Split a 65-byte signature into the { r, s, v } form used by the exchange API
+ */
+export function splitSignature(signature: string): { r: string; s: string; v: number } {
+  const bytes = parseSignature(signature);
+  return {
+    r: `0x${bytesToHex(bytes.slice(0, 32))}`,
+    s: `0x${bytesToHex(bytes.slice(32, 64))}`,
+    v: bytes[64] < 27 ? bytes[64] + 27 : bytes[64],
+  };
+}
+
+function recoverAddress(digest: Uint8Array, signature: string): string {
+  const bytes = parseSignature(signature);
+  const v = bytes[64];
+  const recovery = v >= 27 ? v - 27 : v;
+  const publicKey = secp256k1.Signature.fromCompact(bytes.slice(0, 64))
+    .addRecoveryBit(recovery)
+    .recoverPublicKey(digest)
+    .toRawBytes(false);
+
+  return publicKeyToAddress(publicKey);
+}
+
+function parseSignature(signature: string): Uint8Array {
+  const bytes = parseHex(signature);
+  if (bytes.length !== 65) {
+    throw new Error("Signature must be 65 bytes");
+  }
+  return bytes;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// EIP-712 ENCODING
+// ═══════════════════════════════════════════════════════════════════════════
+
+type TypeMap = Record<string, TypedDataField[]>;
+
+/**
+ * EIP712Domain fields for the keys present in a domain, in canonical order
+ */
+function domainFields(domain: TypedData["domain"]): TypedDataField[] {
+  const fields: TypedDataField[] = [
+    { name: "name", type: "string" },
+    { name: "version", type: "string" },
+    { name: "chainId", type: "uint256" },
+    { name: "verifyingContract", type: "address" },
+  ];
+  return fields.filter(({ name }) => domain[name as keyof typeof domain] !== undefined);
+}
+
+function hashStruct(type: string, data: object, types: TypeMap): Uint8Array {
+  const record = data as Record<string, unknown>;
+  return keccak_256(
+    concatBytes(
+      keccak_256(utf8ToBytes(encodeType(type, types))),
+      ...types[type].map((field) => encodeValue(field.type, record[field.name], types))
+    )
+  );
+}
+
+/**
+ * "Primary(fields)" followed by referenced struct types sorted by name
+ */
+function encodeType(primary: string, types: TypeMap): string {
+  const dependencies = new Set<string>();
+  const collect = (type: string) => {
+    const base = type.replace(/\[\d*\]$/, "");
+    if (!types[base] || dependencies.has(base)) return;
+    dependencies.add(base);
+    types[base].forEach((field) => collect(field.type));
+  };
+  collect(primary);
+  dependencies.delete(primary);
+
+  return [primary, ...Array.from(dependencies).sort()]
+    .map((name) => `${name}(${types[name].map((f) => `${f.type} ${f.name}`).join(",")})`)
+    .join("");
+}
+
+function encodeValue(type: string, value: unknown, types: TypeMap): Uint8Array {
+  if (types[type]) {
+    return hashStruct(type, value as object, types);
+  }
+
+  const array = type.match(/^(.*)\[\d*\]$/);
+  if (array) {
+    const items = (value as unknown[]).map((item) => encodeValue(array[1], item, types));
+    return keccak_256(concatBytes(...items));
+  }
+
+  if (type === "string") return keccak_256(utf8ToBytes(String(value)));
+  if (type === "bytes") return keccak_256(parseHex(String(value)));
+  if (type === "bool") return encodeInteger(value ? 1n : 0n);
+  if (type === "address") return leftPad(parseHex(String(value)));
+  if (/^u?int\d*$/.test(type)) return encodeInteger(BigInt(value as number | string));
+
+  if (/^bytes\d+$/.test(type)) {
+    const bytes = parseHex(String(value));
+    const padded = new Uint8Array(32);
+    padded.set(bytes);
+    return padded;
+  }
+
+  throw new Error(`Unsupported EIP-712 type: ${type}`);
+}
+
+function encodeInteger(value: bigint): Uint8Array {
+  // Two's complement for negative intN values
+  const word = BigInt.asUintN(256, value);
+  return hexToBytes(word.toString(16).padStart(64, "0"));
+}
+
+function leftPad(bytes: Uint8Array): Uint8Array {
+  const padded = new Uint8Array(32);
+  padded.set(bytes, 32 - bytes.length);
+  return padded;
+}
+
+function concatBytes(...arrays: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(arrays.reduce((sum, array) => sum + array.length, 0));
+  let offset = 0;
+  for (const array of arrays) {
+    result.set(array, offset);
+    offset += array.length;
+  }
+  return result;
+}
+
+/**
+ * EIP-55 checksummed address of an uncompressed public key
+ */
+function publicKeyToAddress(publicKey: Uint8Array): string {
+  const address = bytesToHex(keccak_256(publicKey.slice(1)).slice(-20));
+  const hash = bytesToHex(keccak_256(utf8ToBytes(address)));
+
+  let checksummed = "0x";
+  for (let i = 0; i < address.length; i++) {
+    checksummed +=
+      parseInt(hash[i], 16) >= 8 ? address[i].toUpperCase() : address[i];
+  }
+  return checksummed;
+}
+
+function parseHex(hex: string): Uint8Array {
+  try {
+    return hexToBytes(hex.startsWith("0x") ? hex.slice(2) : hex);
+  } catch {
+    throw new Error("Invalid hex string");
+  }
+}
@@ -0,0 +1,244 @@
+import type { HyperliquidClient } from "./client";
+import { TypedEmitter, ListenerGroup } from "./emitter";
+import {
+  Candle,
+  CandleGap,
+  CandleSeriesEvents,
+  CandleSeriesOptions,
+  ClientEvents,
+} from "./types";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// INTERVALS
+// ═══════════════════════════════════════════════════════════════════════════
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/** Candle length per interval; "1M" follows the calendar */
+const INTERVAL_MS: Record<string, number> = {
+  "1m": MINUTE,
+  "3m": 3 * MINUTE,
+  "5m": 5 * MINUTE,
+  "15m": 15 * MINUTE,
+  "30m": 30 * MINUTE,
+  "1h": HOUR,
+  "2h": 2 * HOUR,
+  "4h": 4 * HOUR,
+  "8h": 8 * HOUR,
+  "12h": 12 * HOUR,
+  "1d": DAY,
+  "3d": 3 * DAY,
+  "1w": 7 * DAY,
+};
+
+const DEFAULT_BACKFILL_CANDLES = 500;
+
+/**
+ * Open time of the candle following the one opened at `time`
+ */
+function nextCandleTime(time: number, interval: string): number {
+  if (interval === "1M") {
+    const date = new Date(time);
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+  }
+  return time + INTERVAL_MS[interval];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CANDLE SERIES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * CandleSeries - Continuous candle history for one asset and interval.
+ * Backfills a range with getCandleHistory(), merges live "candle" updates
+ * on top, and fetches missing candles again after a reconnect or when a
+ * live candle skips ahead of the last one held.
+ *
+ * Each open time holds one candle. Versions of the same candle are told
+ * apart by volume, which only grows while a candle is open, so history
+ * and live data can arrive in any order without stale overwrites.
+ *
+ * @example
+ * ```typescript
+ * client.subscribeCandles('BTC', '1m');
+ * const series = new CandleSeries(client, { asset: 'BTC', interval: '1m' });
+ *
+ * await client.connect();
+ * await series.load(); // Last 500 candles, then kept up to date
+ *
+ * series.on('candle', () => chart.setData(series.getCandles()));
+ * series.on('gap', ({ from, to, reason }) => console.log('Refetching', reason, from, to));
+ * ```
+ */
+export class CandleSeries extends TypedEmitter<CandleSeriesEvents> {
+  private candles = new Map<number, Candle>();
+  private listeners: ListenerGroup<ClientEvents>;
+  private asset: string;
+  private interval: string;
+  private start: number;
+  private maxCandles: number;
+  private loaded = false;
+  private connectedOnce = false;
+
+  // History requests run one at a time
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private client: HyperliquidClient,
+    options: CandleSeriesOptions
+  ) {
+    super();
+
+    const { interval } = options;
+    if (interval !== "1M" && !INTERVAL_MS[interval]) {
+      throw new Error(`Unknown candle interval: ${interval}`);
+    }
+
+    this.asset = client.getAssetRegistry().get(options.asset)?.symbol ?? options.asset;
+    this.interval = interval;
+    this.maxCandles = options.maxCandles ?? 5000;
+    this.start =
+      options.start ??
+      Date.now() - DEFAULT_BACKFILL_CANDLES * (INTERVAL_MS[interval] ?? 30 * DAY);
+    this.connectedOnce = client.isConnected();
+
+    this.listeners = new ListenerGroup<ClientEvents>(client);
+    this.listeners.on("candle", (candle) => this.handleCandle(candle));
+    this.listeners.on("connected", () => this.handleConnected());
+  }
+
+  /**
+   * Backfill from the start time to now. Live candles received meanwhile
+   * are kept.
+   * @returns Every candle held, oldest first
+   */
+  async load(): Promise<Candle[]> {
+    const from = this.start;
+    await this.enqueue(() => this.fetch(from, Date.now()));
+    this.loaded = true;
+    return this.getCandles();
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // GETTERS
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Every candle held, oldest first
+   */
+  getCandles(): Candle[] {
+    return Array.from(this.candles.values()).sort((a, b) => a.time - b.time);
+  }
+
+  /**
+   * Most recent candle
+   */
+  getLast(): Candle | undefined {
+    const time = this.lastTime();
+    return time === undefined ? undefined : this.candles.get(time);
+  }
+
+  /**
+   * Stop following the client and drop all candles
+   */
+  destroy(): void {
+    this.listeners.removeAll();
+    this.candles.clear();
+    this.removeAllListeners();
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // PRIVATE METHODS
+  // ═══════════════════════════════════════════════════════════════════════
+
+  private handleCandle(candle: Candle): void {
+    // Candles without coin/interval are taken as belonging to this series
+    if (candle.coin !== undefined && candle.coin !== this.asset) return;
+    if (candle.interval !== undefined && candle.interval !== this.interval) return;
+
+    const last = this.lastTime();
+    if (this.loaded && last !== undefined) {
+      const expected = nextCandleTime(last, this.interval);
+      if (candle.time > expected) {
+        this.fillGap({ from: expected, to: candle.time, reason: "skipped" });
+      }
+    }
+
+    if (this.merge(candle)) {
+      this.trim();
+      this.emit("candle", candle);
+    }
+  }
+
+  private handleConnected(): void {
+    const reconnect = this.connectedOnce;
+    this.connectedOnce = true;
+
+    const last = this.lastTime();
+    if (!reconnect || !this.loaded || last === undefined) return;
+
+    // The last candle held may have changed while disconnected
+    const to = Math.max(Date.now(), nextCandleTime(last, this.interval));
+    this.fillGap({ from: last, to, reason: "reconnect" });
+  }
+
+  private fillGap(gap: CandleGap): void {
+    this.emit("gap", gap);
+    this.enqueue(() => this.fetch(gap.from, gap.to)).catch(() => {
+      // Reported through the "error" event
+    });
+  }
+
+  private async fetch(from: number, to: number): Promise<void> {
+    try {
+      const history = await this.client.getCandleHistory(this.asset, this.interval, from, to);
+      const merged = history.filter((candle) => this.merge(candle));
+      this.trim();
+      this.emit("backfill", { from, to, candles: merged });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.emit("error", { code: "BACKFILL_ERROR", message });
+      throw error;
+    }
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => {});
+    return run;
+  }
+
+  /**
+   * Store a candle unless the one held for its open time is further along
+   * @returns Whether the candle was stored
+   */
+  private merge(candle: Candle): boolean {
+    const existing = this.candles.get(candle.time);
+    if (existing && existing.volume > candle.volume) return false;
+
+    this.candles.set(candle.time, {
+      ...candle,
+      coin: this.asset,
+      interval: this.interval,
+    });
+    return true;
+  }
+
+  private trim(): void {
+    if (this.candles.size <= this.maxCandles) return;
+    const times = Array.from(this.candles.keys()).sort((a, b) => a - b);
+    times
+      .slice(0, times.length - this.maxCandles)
+      .forEach((time) => this.candles.delete(time));
+  }
+
+  private lastTime(): number | undefined {
+    let last: number | undefined;
+    this.candles.forEach((_, time) => {
+      if (last === undefined || time > last) last = time;
+    });
+    return last;
+  }
+}
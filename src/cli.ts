@@ -0,0 +1,465 @@
+#!/usr/bin/env node
+// ═══════════════════════════════════════════════════════════════════════════
+// @nylium/hyperliquid-sdk CLI
+// Live terminal views and NDJSON / CSV dumps of market and account feeds
+// ═══════════════════════════════════════════════════════════════════════════
+
+import { AccountState } from "./account";
+import { HyperliquidClient } from "./client";
+import {
+  checkCommand,
+  clientOptions,
+  createWriter,
+  numberFlag,
+  parseArgs,
+  ParsedArgs,
+  stringFlag,
+  USAGE,
+} from "./command";
+import {
+  AccountSnapshot,
+  Candle,
+  OrderBook,
+  OrderBookLevel,
+  PriceData,
+  Trade,
+} from "./types";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// OUTPUT
+// ═══════════════════════════════════════════════════════════════════════════
+
+const color = process.stdout.isTTY
+  ? (code: number, text: string) => `\x1b[${code}m${text}\x1b[0m`
+  : (_code: number, text: string) => text;
+const green = (text: string) => color(32, text);
+const red = (text: string) => color(31, text);
+const dim = (text: string) => color(2, text);
+
+/**
+ * Redraw a full-screen view, at most every 200ms
+ */
+function createScreen(render: () => string): () => void {
+  let scheduled = false;
+
+  return () => {
+    if (scheduled) return;
+    scheduled = true;
+    setTimeout(() => {
+      scheduled = false;
+      // Clear and home the cursor only on a terminal; piped output gets frames
+      const clear = process.stdout.isTTY ? "\x1b[2J\x1b[H" : "";
+      process.stdout.write(`${clear}${render()}\n`);
+    }, 200);
+  };
+}
+
+function table(headers: string[], rows: string[][]): string {
+  const widths = headers.map((header, i) =>
+    Math.max(header.length, ...rows.map((row) => visibleLength(row[i])))
+  );
+  const line = (cells: string[]) =>
+    cells
+      .map((cell, i) => {
+        const padding = " ".repeat(widths[i] - visibleLength(cell));
+        return i === 0 ? cell + padding : padding + cell;
+      })
+      .join("  ");
+  return [dim(line(headers)), ...rows.map(line)].join("\n");
+}
+
+/**
+ * Length of a cell without its color codes
+ */
+function visibleLength(text: string): number {
+  return text.replace(/\x1b\[\d+m/g, "").length;
+}
+
+function formatNumber(value: number | undefined, digits: number = 2): string {
+  if (value === undefined || !Number.isFinite(value)) return "-";
+  return value.toLocaleString("en-US", {
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  });
+}
+
+function formatPrice(value: number | undefined): string {
+  if (value === undefined || !Number.isFinite(value)) return "-";
+  const digits = value >= 1000 ? 1 : value >= 1 ? 3 : 6;
+  return formatNumber(value, digits);
+}
+
+function formatCompact(value: number): string {
+  return Intl.NumberFormat("en-US", { notation: "compact", maximumFractionDigits: 2 }).format(value);
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toISOString().replace("T", " ").slice(0, 19);
+}
+
+function signed(value: number, text: string): string {
+  return value >= 0 ? green(text) : red(text);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FEEDS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Follow latest prices of all or some assets
+ * @param onChange - Called with the prices received in each update
+ */
+function followPrices(
+  client: HyperliquidClient,
+  assets: string[],
+  onChange: (updated: PriceData[], all: Map<string, PriceData>) => void
+): void {
+  const symbols = new Set(assets.map((asset) => client.getAssetRegistry().resolve(asset).symbol));
+  const prices = new Map<string, PriceData>();
+
+  const handle = (updated: PriceData[]) => {
+    const relevant = symbols.size ? updated.filter((p) => symbols.has(p.symbol)) : updated;
+    if (relevant.length === 0) return;
+    relevant.forEach((price) => prices.set(price.symbol, price));
+    onChange(relevant, prices);
+  };
+
+  client.on("prices", handle);
+  client.on("price", (price) => handle([price]));
+
+  if (symbols.size) {
+    symbols.forEach((symbol) => client.subscribePrices(symbol));
+  } else {
+    client.subscribePrices();
+  }
+}
+
+function followBook(
+  client: HyperliquidClient,
+  asset: string,
+  onChange: (book: OrderBook) => void
+): void {
+  const symbol = client.getAssetRegistry().resolve(asset).symbol;
+  client.on("orderbook", (book) => {
+    if (book.asset === symbol) onChange(book);
+  });
+  client.subscribeOrderBook(symbol);
+}
+
+function followTrades(
+  client: HyperliquidClient,
+  asset: string,
+  onChange: (trades: Trade[]) => void
+): void {
+  const symbol = client.getAssetRegistry().resolve(asset).symbol;
+  const seen = new Set<string>();
+
+  client.on("trades", ({ asset: tradeAsset, trades }) => {
+    if (tradeAsset !== symbol) return;
+    // Snapshots resent after a reconnect repeat known trades
+    const fresh = trades
+      .filter((trade) => !seen.has(trade.id))
+      .sort((a, b) => a.timestamp - b.timestamp);
+    fresh.forEach((trade) => seen.add(trade.id));
+    if (seen.size > 10_000) seen.clear();
+    if (fresh.length) onChange(fresh);
+  });
+  client.subscribeTrades(symbol);
+}
+
+function followCandles(
+  client: HyperliquidClient,
+  asset: string,
+  interval: string,
+  onChange: (updated: Candle[], all: Map<number, Candle>) => void
+): void {
+  const symbol = client.getAssetRegistry().resolve(asset).symbol;
+  const candles = new Map<number, Candle>();
+
+  const handle = (updated: Candle[]) => {
+    updated.forEach((candle) => candles.set(candle.time, candle));
+    onChange(updated, candles);
+  };
+
+  client.on("candles", (data) => {
+    if (data.coin === symbol && data.interval === interval) {
+      handle(data.candles.map((candle) => ({ ...candle, coin: symbol, interval })));
+    }
+  });
+  client.on("candle", (candle) => {
+    if (candle.coin !== undefined && candle.coin !== symbol) return;
+    if (candle.interval !== undefined && candle.interval !== interval) return;
+    handle([{ ...candle, coin: symbol, interval }]);
+  });
+  client.subscribeCandles(symbol, interval);
+}
+
+async function followAccount(
+  client: HyperliquidClient,
+  wallet: string,
+  onChange: (reason: string, account: AccountSnapshot) => void
+): Promise<void> {
+  const account = new AccountState(client, { wallet });
+  account.on("accountChanged", ({ reason, account: snapshot }) => onChange(reason, snapshot));
+
+  // Live marks for the positions
+  client.subscribePrices();
+  await client.authenticate(wallet);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// VIEWS
+// ═══════════════════════════════════════════════════════════════════════════
+
+function renderPrices(prices: Map<string, PriceData>, limit: number): string {
+  const rows = Array.from(prices.values())
+    .sort((a, b) => b.volume24h - a.volume24h)
+    .slice(0, limit)
+    .map((p) => [
+      p.displayName,
+      formatPrice(p.price),
+      signed(p.changePercent24h, `${formatNumber(p.changePercent24h)}%`),
+      formatCompact(p.volume24h),
+      p.type === "perp" ? `${formatNumber(p.fundingRate * 100, 4)}%` : "-",
+      p.type === "perp" ? formatCompact(p.openInterest) : "-",
+    ]);
+
+  return table(["Asset", "Price", "24h", "Volume", "Funding", "OI"], rows);
+}
+
+function renderBook(book: OrderBook, depth: number): string {
+  const ladder = (levels: OrderBookLevel[]) => {
+    let cumulative = 0;
+    return levels.slice(0, depth).map((level) => {
+      cumulative += level.size;
+      return [formatPrice(level.price), formatNumber(level.size, 4), formatNumber(cumulative, 4)];
+    });
+  };
+
+  const asks = ladder(book.asks).reverse().map(([price, ...rest]) => [red(price), ...rest]);
+  const bids = ladder(book.bids).map(([price, ...rest]) => [green(price), ...rest]);
+  const spread = `Spread ${formatPrice(book.spread)} (${formatNumber(book.spreadPercent, 3)}%)  Mid ${formatPrice(book.midPrice)}`;
+
+  return [
+    `${book.displayName} order book  ${dim(formatTime(book.lastUpdate))}`,
+    "",
+    table(["Price", "Size", "Total"], asks),
+    dim(spread),
+    table(["Price", "Size", "Total"], bids).split("\n").slice(1).join("\n"),
+  ].join("\n");
+}
+
+function formatTrade(trade: Trade): string {
+  const side = trade.side === "buy" ? green("BUY ") : red("SELL");
+  return [
+    dim(formatTime(trade.timestamp)),
+    side,
+    formatNumber(trade.size, 4).padStart(12),
+    "@",
+    formatPrice(trade.price).padStart(12),
+    `$${formatNumber(trade.value)}`.padStart(16),
+  ].join("  ");
+}
+
+function renderCandles(candles: Map<number, Candle>, label: string, limit: number): string {
+  const rows = Array.from(candles.values())
+    .sort((a, b) => a.time - b.time)
+    .slice(-limit)
+    .map((c) => [
+      formatTime(c.time),
+      formatPrice(c.open),
+      formatPrice(c.high),
+      formatPrice(c.low),
+      signed(c.close - c.open, formatPrice(c.close)),
+      formatNumber(c.volume, 2),
+    ]);
+
+  return `${label}\n\n${table(["Time", "Open", "High", "Low", "Close", "Volume"], rows)}`;
+}
+
+function renderAccount(wallet: string, account: AccountSnapshot): string {
+  const { totals } = account;
+  const positions = account.positions.map((p) => [
+    p.displayName,
+    p.side === "long" ? green("LONG") : red("SHORT"),
+    formatNumber(p.size, 4),
+    formatPrice(p.entryPrice),
+    formatPrice(p.markPrice),
+    formatPrice(p.liqPrice),
+    signed(p.pnl, formatNumber(p.pnl)),
+  ]);
+  const orders = account.openOrders.map((o) => [
+    o.displayName,
+    o.side === "buy" ? green("BUY") : red("SELL"),
+    o.type,
+    formatPrice(o.price),
+    formatNumber(o.remaining, 4),
+    formatNumber(o.amount, 4),
+  ]);
+
+  return [
+    `Account ${wallet}`,
+    `Balance ${formatNumber(account.balance ?? undefined)}  ` +
+      `uPnL ${signed(totals.unrealizedPnl, formatNumber(totals.unrealizedPnl))}  ` +
+      `Notional ${formatNumber(totals.notional)}  ` +
+      `Leverage ${totals.effectiveLeverage === null ? "-" : `${formatNumber(totals.effectiveLeverage)}x`}`,
+    "",
+    table(["Position", "Side", "Size", "Entry", "Mark", "Liq", "PnL"], positions),
+    "",
+    table(["Order", "Side", "Type", "Price", "Remaining", "Amount"], orders),
+  ].join("\n");
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// COMMANDS
+// ═══════════════════════════════════════════════════════════════════════════
+
+async function watch(client: HyperliquidClient, command: string, params: string[], args: ParsedArgs) {
+  const depth = numberFlag(args, "depth", 10);
+  const limit = numberFlag(args, "limit", 30);
+
+  switch (command) {
+    case "watch": {
+      const [, ...assets] = params;
+      let latest = new Map<string, PriceData>();
+      const refresh = createScreen(() => renderPrices(latest, limit));
+      followPrices(client, assets, (_, all) => {
+        latest = all;
+        refresh();
+      });
+      break;
+    }
+    case "book": {
+      let latest: OrderBook | null = null;
+      const refresh = createScreen(() => renderBook(latest!, depth));
+      followBook(client, params[0], (book) => {
+        latest = book;
+        refresh();
+      });
+      break;
+    }
+    case "tape":
+      followTrades(client, params[0], (trades) =>
+        trades.forEach((trade) => console.log(formatTrade(trade)))
+      );
+      break;
+    case "candles": {
+      const asset = params[0];
+      const interval = params[1];
+      let latest = new Map<number, Candle>();
+      const refresh = createScreen(() => renderCandles(latest, `${asset} ${interval}`, limit));
+      followCandles(client, asset, interval, (_, all) => {
+        latest = all;
+        refresh();
+      });
+      break;
+    }
+    case "account": {
+      const wallet = params[0];
+      let latest: AccountSnapshot | null = null;
+      const refresh = createScreen(() => renderAccount(wallet, latest!));
+      await followAccount(client, wallet, (_, account) => {
+        latest = account;
+        refresh();
+      });
+      break;
+    }
+    default:
+      throw new Error(`Unknown command: ${command}\n\n${USAGE}`);
+  }
+}
+
+async function dump(client: HyperliquidClient, params: string[], args: ParsedArgs) {
+  const write = createWriter(stringFlag(args, "format") ?? "ndjson");
+  const csv = stringFlag(args, "format") === "csv";
+  const depth = numberFlag(args, "depth", 10);
+  const [feed, ...rest] = params;
+
+  switch (feed) {
+    case "prices":
+      followPrices(client, rest, (updated) => write(updated));
+      break;
+    case "book":
+      followBook(client, rest[0], (book) => {
+        if (!csv) {
+          write([book]);
+          return;
+        }
+        // One row per level
+        const levels = (side: "bid" | "ask", list: OrderBookLevel[]) =>
+          list.slice(0, depth).map((level) => ({
+            timestamp: book.lastUpdate,
+            asset: book.asset,
+            side,
+            price: level.price,
+            size: level.size,
+            orders: level.orders,
+          }));
+        write([...levels("bid", book.bids), ...levels("ask", book.asks)]);
+      });
+      break;
+    case "trades":
+      followTrades(client, rest[0], write);
+      break;
+    case "candles":
+      followCandles(client, rest[0], rest[1], write);
+      break;
+    case "account": {
+      const wallet = rest[0];
+      await followAccount(client, wallet, (reason, account) => {
+        if (!csv) {
+          write([{ reason, wallet, timestamp: Date.now(), ...account }]);
+          return;
+        }
+        // One row per position
+        write(account.positions.map((position) => ({ reason, wallet, ...position })));
+      });
+      break;
+    }
+    default:
+      throw new Error(`Unknown dump feed: ${feed ?? ""}\n\n${USAGE}`);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MAIN
+// ═══════════════════════════════════════════════════════════════════════════
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  const [command, ...params] = args.positional;
+
+  if (args.flags.help || !command) {
+    process.stdout.write(USAGE);
+    return;
+  }
+  checkCommand(command, params);
+
+  const client = new HyperliquidClient(clientOptions(args));
+  client.on("error", ({ code, message }) => console.error(`Error [${code}]: ${message}`));
+  client.on("reconnecting", ({ attempt, maxAttempts }) =>
+    console.error(`Reconnecting (${attempt}/${maxAttempts})...`)
+  );
+
+  const stop = () => {
+    client.disconnect();
+    process.exit(0);
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+  // Consumer closed the pipe (e.g., `| head`)
+  process.stdout.on("error", stop);
+
+  await client.connect();
+
+  if (command === "dump") {
+    await dump(client, params, args);
+  } else {
+    await watch(client, command, params, args);
+  }
+}
+
+main().catch((error: Error) => {
+  console.error(error.message);
+  process.exit(1);
+});
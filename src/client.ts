@@ -1,6 +1,15 @@
-import { io, Socket } from "socket.io-client";
+import { io } from "socket.io-client";
+import { EventHandler, TypedEmitter } from "./emitter";
+import { AssetRegistry } from "./assets";
+import { RequestManager } from "./request";
+import { createStream } from "./stream";
+import { MemoryTokenStore } from "./auth";
+import { validateServerEvent } from "./validation";
+import { HyperliquidTransport, HYPERLIQUID_WS_URLS } from "./transport";
+import { ConsoleLogger } from "./logger";
 import {
   ClientOptions,
+  ClientEvents,
   ConnectionState,
   Network,
   PriceData,
@@ -11,6 +20,29 @@ import {
   OrderHistory,
   UserFunding,
   Candle,
+  Subscription,
+  SubscriptionParams,
+  SubscriptionType,
+  RequestOptions,
+  BalanceRequestOptions,
+  TradeHistoryOptions,
+  InboundMessage,
+  AuthChallenge,
+  AuthToken,
+  AuthTokenStore,
+  Signer,
+  UserDataEventName,
+  WalletDataEvent,
+  ValidationMode,
+  StreamKind,
+  StreamArgs,
+  StreamItems,
+  StreamParams,
+  Transport,
+  TransportFactory,
+  TransportKind,
+  Logger,
+  MetricsRecorder,
 } from "./types";
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -18,12 +50,24 @@ import {
 // ═══════════════════════════════════════════════════════════════════════════
 
 /**
- * Default server URLs for each network
+ * Default server URLs for each backend and network
  * Users can override with custom URL in options
  */
-const NETWORK_URLS: Record<Network, string> = {
-  mainnet: "wss://api.nylium.xyz",
-  testnet: "wss://testnet.api.nylium.xyz",
+const NETWORK_URLS: Record<TransportKind, Record<Network, string>> = {
+  nylium: {
+    mainnet: "wss://api.nylium.xyz",
+    testnet: "wss://testnet.api.nylium.xyz",
+  },
+  hyperliquid: HYPERLIQUID_WS_URLS,
+};
+
+const TRANSPORTS: Record<TransportKind, TransportFactory> = {
+  nylium: (url) =>
+    io(url, {
+      transports: ["websocket"],
+      reconnection: false, // We handle reconnection ourselves
+    }),
+  hyperliquid: (url, network) => new HyperliquidTransport(url, { network }),
 };
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -33,14 +77,38 @@ const NETWORK_URLS: Record<Network, string> = {
 interface InternalOptions {
   network: Network;
   url: string;
+  transport: TransportFactory;
   autoReconnect: boolean;
   reconnectDelay: number;
   maxReconnectAttempts: number;
-  debug: boolean;
+  requestTimeout: number;
+  historyPageSize: number;
+  validateAssets: boolean;
+  validation: ValidationMode;
 }
 
 const DEFAULT_NETWORK: Network = "mainnet";
 
+interface PendingAuthentication {
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+interface WalletEntry {
+  wallet: string;
+  /** Present for signed authentication */
+  signer?: Signer;
+}
+
+/**
+ * Server answer to "authenticate"
+ */
+interface AuthResponse {
+  wallet: string;
+  token?: string;
+  expiresAt?: number;
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // HYPERLIQUID CLIENT
 // ═══════════════════════════════════════════════════════════════════════════
@@ -58,10 +126,9 @@ const DEFAULT_NETWORK: Network = "mainnet";
  * // Testnet
  * const testnetClient = new HyperliquidClient({ network: 'testnet' });
  *
- * client.on('connected', () => {
- *   console.log('Connected!');
- *   client.subscribePrices();
- * });
+ * // Subscriptions can be declared before connecting and
+ * // are restored automatically after every reconnect
+ * client.subscribePrices();
  *
  * client.on('prices', (prices) => {
  *   console.log('Prices:', prices);
@@ -70,31 +137,66 @@ const DEFAULT_NETWORK: Network = "mainnet";
  * await client.connect();
  * ```
  */
-export class HyperliquidClient {
-  private socket: Socket | null = null;
+export class HyperliquidClient extends TypedEmitter<ClientEvents> {
+  private socket: Transport | null = null;
   private options: InternalOptions;
   private state: ConnectionState = "disconnected";
   private reconnectAttempts = 0;
-  private reconnectTimer: NodeJS.Timeout | null = null;
-  private authenticatedWallet: string | null = null;
-
-  // Event handlers
-  private eventHandlers = new Map<string, Set<(...args: any[]) => void>>();
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private requests: RequestManager;
+  private assets: AssetRegistry;
+  private tokens: AuthTokenStore;
+  protected logger: Logger;
+  private metrics?: MetricsRecorder;
+  /** Depth of emit() calls being timed */
+  private emitting = 0;
+
+  // Wallets keyed by lowercase address
+  private authenticatedWallets = new Map<string, string>();
+
+  // Subscription and wallet registries (replayed on every connect)
+  private subscriptions = new Map<string, Subscription>();
+  private wallets = new Map<string, WalletEntry>();
+  private pendingAuthentications = new Map<string, PendingAuthentication>();
+
+  // Rooms subscribed through subscribe*() and holders per retained room;
+  // a room stays subscribed while either keeps it
+  private directRooms = new Set<string>();
+  private holds = new Map<string, number>();
 
   constructor(options?: ClientOptions) {
+    super();
     const network = options?.network || DEFAULT_NETWORK;
-    const url = options?.url || NETWORK_URLS[network];
+    const transport = options?.transport ?? "nylium";
+    const kind = typeof transport === "string" ? transport : "nylium";
+    const url = options?.url || NETWORK_URLS[kind][network];
     
     this.options = {
       network,
       url,
+      transport: typeof transport === "string" ? TRANSPORTS[transport] : transport,
       autoReconnect: options?.autoReconnect ?? true,
       reconnectDelay: options?.reconnectDelay ?? 1000,
       maxReconnectAttempts: options?.maxReconnectAttempts ?? 10,
-      debug: options?.debug ?? false,
+      requestTimeout: options?.requestTimeout ?? 10000,
+      historyPageSize: options?.historyPageSize ?? 500,
+      validateAssets: options?.validateAssets ?? true,
+      validation: options?.validation ?? "off",
     };
-    
-    this.log(`Initialized for ${network} at ${url}`);
+    this.requests = new RequestManager(this.options.requestTimeout);
+    this.assets = new AssetRegistry(network);
+    this.tokens = options?.tokenStore ?? new MemoryTokenStore();
+    this.logger =
+      options?.logger ??
+      new ConsoleLogger({
+        level: options?.debug ? "debug" : "warn",
+        prefix: "[HyperliquidClient]",
+      });
+    this.metrics = options?.metrics;
+    this.metrics?.stateChanged(this.state, Date.now());
+    this.metrics?.subscriptionsChanged([]);
+
+    this.logger.debug("Initialized", { network, url });
   }
 
   /**
@@ -104,12 +206,19 @@ export class HyperliquidClient {
     return this.options.network;
   }
 
+  /**
+   * Get the asset registry for the current network
+   */
+  getAssetRegistry(): AssetRegistry {
+    return this.assets;
+  }
+
   // ═══════════════════════════════════════════════════════════════════════
   // CONNECTION METHODS
   // ═════════════════════════════════════════════════════════════════════════
 
   /**
-   * Connect to the Nylium data server
+   * Connect to the data server
    */
   async connect(): Promise<void> {
     if (this.state === "connected" || this.state === "connecting") {
@@ -117,24 +226,22 @@ export class HyperliquidClient {
     }
 
     this.setState("connecting");
-    this.log("Connecting to", this.options.url);
+    this.logger.debug("Connecting", { url: this.options.url });
 
     return new Promise((resolve, reject) => {
-      this.socket = io(this.options.url, {
-        transports: ["websocket"],
-        reconnection: false, // We handle reconnection ourselves
-      });
+      this.socket = this.options.transport(this.options.url, this.options.network);
 
-      this.socket.on("connected", (data: { clientId: string }) => {
+      this.socket.on("connected", (data: ClientEvents["connected"]) => {
         this.setState("connected");
         this.reconnectAttempts = 0;
-        this.log("Connected with client ID:", data.clientId);
+        this.logger.info("Connected", { clientId: data.clientId });
+        this.restoreSession();
         this.emit("connected", data);
         resolve();
       });
 
       this.socket.on("connect_error", (error: Error) => {
-        this.log("Connection error:", error.message);
+        this.logger.info("Connection error", { error: error.message });
         this.handleConnectionError(error);
         if (this.state === "connecting") {
           reject(error);
@@ -142,12 +249,12 @@ export class HyperliquidClient {
       });
 
       this.socket.on("disconnect", (reason: string) => {
-        this.log("Disconnected:", reason);
+        this.logger.info("Disconnected", { reason });
         this.handleDisconnect(reason);
       });
 
       this.socket.on("error", (error: { code: string; message: string }) => {
-        this.log("Server error:", error);
+        this.logger.info("Server error", { code: error.code, error: error.message });
         this.emit("error", error);
       });
 
@@ -160,19 +267,47 @@ export class HyperliquidClient {
    * Disconnect from the server
    */
   disconnect(): void {
+    this.close();
+
+    // Wallets are forgotten: followers such as PortfolioState drop their state
+    const wallets = Array.from(this.wallets.values(), (entry) => entry.wallet);
+    this.wallets.clear();
+    wallets.forEach((wallet) => this.emit("unauthenticated", { wallet }));
+  }
+
+  /**
+   * Close the connection, keeping the wallets to authenticate again
+   */
+  private close(): void {
     if (this.reconnectTimer) {
       clearTimeout(this.reconnectTimer);
       this.reconnectTimer = null;
     }
 
+    // Before closing: the transport reports "io client disconnect" synchronously
+    this.requests.rejectAll("Disconnected");
+
     if (this.socket) {
       this.socket.disconnect();
       this.socket = null;
     }
 
     this.setState("disconnected");
-    this.authenticatedWallet = null;
-    this.log("Disconnected");
+    this.authenticatedWallets.clear();
+    this.pendingAuthentications.forEach((pending) =>
+      pending.reject(new Error("Disconnected"))
+    );
+    this.pendingAuthentications.clear();
+    this.logger.debug("Disconnected");
+  }
+
+  /**
+   * Drop the connection and connect again. Unlike disconnect(), this keeps
+   * the authenticated wallets so they are restored with the subscriptions.
+   */
+  async reconnect(): Promise<void> {
+    this.close();
+    return this.connect();
   }
 
   /**
@@ -198,18 +333,40 @@ export class HyperliquidClient {
    * @param asset - Optional asset symbol (e.g., "BTC"). If omitted, subscribes to all.
    */
   subscribePrices(asset?: string): void {
-    this.ensureConnected();
-    this.socket!.emit("subscribe:price", asset ? { asset } : {});
-    this.log("Subscribed to prices:", asset || "all");
+    const subscription = this.toSubscription("prices", { asset });
+    this.addDirectSubscription(subscription);
+    this.logger.debug("Subscribed to prices", { asset: subscription.asset || "all" });
   }
 
   /**
-   * Get prices for specific assets (one-time request)
-   * @param assets - Array of asset symbols
+   * Get prices for specific assets (one-time request).
+   *
+   * The server answers through the socket.io ack. Servers that reply with a
+   * "prices:snapshot" event instead are still supported: the first snapshot
+   * after the request that holds only requested assets answers it. Either
+   * way only the requested assets are returned.
+   *
+   * @param assets - Array of asset symbols or display names
+   * @param options - Request options (e.g., timeout)
    */
-  getPrices(assets: string[]): void {
+  async getPrices(
+    assets: string[],
+    options?: RequestOptions
+  ): Promise<PriceData[]> {
     this.ensureConnected();
-    this.socket!.emit("get:prices", { assets });
+    const symbols = assets.map((asset) => this.resolveAsset(asset));
+    const requested = (price: PriceData) => symbols.includes(price?.symbol);
+
+    const prices = await this.requests.send<PriceData[]>(this.socket!, "get:prices", {
+      ...options,
+      payload: { assets: symbols },
+      // Broadcast snapshots of other assets are not the answer
+      fallback: {
+        success: "prices:snapshot",
+        match: (data) => Array.isArray(data) && data.every(requested),
+      },
+    });
+    return prices.filter(requested);
   }
 
   // ═══════════════════════════════════════════════════════════════════════
@@ -221,9 +378,9 @@ export class HyperliquidClient {
    * @param asset - Asset symbol (e.g., "BTC")
    */
   subscribeOrderBook(asset: string): void {
-    this.ensureConnected();
-    this.socket!.emit("subscribe:orderbook", { asset });
-    this.log("Subscribed to order book:", asset);
+    const subscription = this.toSubscription("orderbook", { asset });
+    this.addDirectSubscription(subscription);
+    this.logger.debug("Subscribed to order book", { asset: subscription.asset });
   }
 
   // ═══════════════════════════════════════════════════════════════════════
@@ -235,9 +392,9 @@ export class HyperliquidClient {
    * @param asset - Asset symbol (e.g., "BTC")
    */
   subscribeTrades(asset: string): void {
-    this.ensureConnected();
-    this.socket!.emit("subscribe:trades", { asset });
-    this.log("Subscribed to trades:", asset);
+    const subscription = this.toSubscription("trades", { asset });
+    this.addDirectSubscription(subscription);
+    this.logger.debug("Subscribed to trades", { asset: subscription.asset });
   }
 
   // ═══════════════════════════════════════════════════════════════════════
@@ -250,9 +407,9 @@ export class HyperliquidClient {
    * @param interval - Candle interval (e.g., "1m", "5m", "1h", "1d")
    */
   subscribeCandles(asset: string, interval: string): void {
-    this.ensureConnected();
-    this.socket!.emit("subscribe:candle", { coin: asset, interval });
-    this.log("Subscribed to candles:", asset, interval);
+    const subscription = this.toSubscription("candles", { asset, interval });
+    this.addDirectSubscription(subscription);
+    this.logger.debug("Subscribed to candles", { asset: subscription.asset, interval });
   }
 
   // ═══════════════════════════════════════════════════════════════════════
@@ -284,9 +441,8 @@ export class HyperliquidClient {
    * ```
    */
   subscribeAsset(asset: string, candleInterval: string = "1h"): void {
-    this.ensureConnected();
-    
-    this.log(`Subscribing to all data for ${asset}...`);
+    asset = this.resolveAsset(asset);
+    this.logger.debug("Subscribing to all data", { asset });
     
     // Subscribe to price for this asset
     this.subscribePrices(asset);
@@ -300,7 +456,7 @@ export class HyperliquidClient {
     // Subscribe to candles
     this.subscribeCandles(asset, candleInterval);
     
-    this.log(`Subscribed to all data for ${asset}`);
+    this.logger.debug("Subscribed to all data", { asset });
     this.emit("asset:subscribed", { asset, candleInterval });
   }
 
@@ -309,70 +465,207 @@ export class HyperliquidClient {
    * @param asset - Asset symbol to unsubscribe from
    */
   unsubscribeAsset(asset: string): void {
-    this.ensureConnected();
-    
-    // Unsubscribe from all rooms for this asset
-    this.socket!.emit("unsubscribe", { room: `price:${asset}` });
-    this.socket!.emit("unsubscribe", { room: `orderbook:${asset}` });
-    this.socket!.emit("unsubscribe", { room: `trades:${asset}` });
-    this.socket!.emit("unsubscribe", { room: `candle:${asset}:1h` });
+    if (this.options.validateAssets) {
+      asset = this.assets.get(asset)?.symbol ?? asset;
+    }
+
+    // Unsubscribe from all rooms for this asset, whatever the candle interval
+    this.subscriptions.forEach((subscription) => {
+      if (subscription.asset === asset) {
+        this.unsubscribe(subscription.room);
+      }
+    });
     
-    this.log(`Unsubscribed from all data for ${asset}`);
+    this.logger.debug("Unsubscribed from all data", { asset });
     this.emit("asset:unsubscribed", { asset });
   }
 
   // ═══════════════════════════════════════════════════════════════════════
-  // USER DATA (AUTHENTICATED)
+  // HISTORY
   // ═══════════════════════════════════════════════════════════════════════
 
   /**
-   * Authenticate with a wallet address to receive user-specific data
-   * @param wallet - Ethereum wallet address
+   * Get the candles of a time range, paging through the history endpoint.
+   * Candles are returned oldest first, one per open time.
+   * @param asset - Asset symbol (e.g., "BTC")
+   * @param interval - Candle interval (e.g., "1m", "1h", "1d")
+   * @param start - Range start in ms (candles opening at or after it)
+   * @param end - Range end in ms (default: now)
+   * @param options - Request options, applied to each page
+   * @example
+   * ```typescript
+   * const week = 7 * 24 * 60 * 60 * 1000;
+   * const candles = await client.getCandleHistory('BTC', '1h', Date.now() - week);
+   * ```
    */
-  async authenticate(wallet: string): Promise<void> {
+  async getCandleHistory(
+    asset: string,
+    interval: string,
+    start: number,
+    end: number = Date.now(),
+    options?: RequestOptions
+  ): Promise<Candle[]> {
     this.ensureConnected();
+    const coin = this.resolveAsset(asset);
+
+    const candles = await this.pageHistory(
+      (from) =>
+        this.requests.send<Candle[]>(this.socket!, "get:candles", {
+          ...options,
+          payload: { coin, interval, startTime: from, endTime: end },
+        }),
+      start,
+      (candle) => candle.time,
+      (candle) => String(candle.time)
+    );
 
-    return new Promise((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        reject(new Error("Authentication timeout"));
-      }, 10000);
-
-      this.socket!.once("authenticated", (data: { wallet: string }) => {
-        clearTimeout(timeout);
-        this.authenticatedWallet = data.wallet;
-        this.log("Authenticated as:", data.wallet);
-        this.emit("authenticated", data);
-        resolve();
-      });
+    return candles
+      .filter((candle) => candle.time <= end)
+      .map((candle) => ({ coin, interval, ...candle }));
+  }
+
+  /**
+   * Get the trades of an asset since a point in time, paging through the
+   * history endpoint. Trades are returned oldest first, without duplicates.
+   * @param asset - Asset symbol (e.g., "BTC")
+   * @param since - Range start in ms
+   * @param options - Range end and request options, applied to each page
+   * @example
+   * ```typescript
+   * const trades = await client.getTradeHistory('ETH', Date.now() - 60_000);
+   * ```
+   */
+  async getTradeHistory(
+    asset: string,
+    since: number,
+    options?: TradeHistoryOptions
+  ): Promise<Trade[]> {
+    this.ensureConnected();
+    asset = this.resolveAsset(asset);
+    const until = options?.until ?? Date.now();
+
+    const trades = await this.pageHistory(
+      (from) =>
+        this.requests.send<Trade[]>(this.socket!, "get:trades", {
+          timeout: options?.timeout,
+          payload: { asset, since: from, until },
+        }),
+      since,
+      (trade) => trade.timestamp,
+      (trade) => trade.id
+    );
+
+    return trades.filter((trade) => trade.timestamp <= until);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // USER DATA (AUTHENTICATED)
+  // ═══════════════════════════════════════════════════════════════════════
 
-      this.socket!.once("auth:error", (error: { message: string }) => {
-        clearTimeout(timeout);
-        reject(new Error(error.message));
+  /**
+   * Authenticate to receive user-specific data.
+   *
+   * - With a wallet address: read-only mode, no proof of ownership.
+   * - With a Signer: signs a server challenge to prove ownership. The
+   *   session token the server returns is cached and reused on reconnect,
+   *   falling back to a new signature if the token is rejected.
+   *
+   * Each call adds a wallet: main accounts, vaults and sub-accounts can be
+   * tracked together on one connection, with user data tagged by wallet
+   * through the "walletData" event.
+   * If called before connecting, authentication is sent once connected.
+   * Wallets are re-authenticated automatically after every reconnect.
+   * @param walletOrSigner - Ethereum wallet address, or a Signer for signed authentication
+   * @example
+   * ```typescript
+   * await client.authenticate('0x1234...');                        // Read-only
+   * await client.authenticate(new PrivateKeySigner(privateKey));   // Signed
+   * await client.authenticate(new InjectedSigner(window.ethereum)); // Browser wallet
+   * ```
+   */
+  async authenticate(walletOrSigner: string | Signer): Promise<void> {
+    const entry: WalletEntry =
+      typeof walletOrSigner === "string"
+        ? { wallet: walletOrSigner }
+        : { wallet: await walletOrSigner.getAddress(), signer: walletOrSigner };
+    const { wallet } = entry;
+    const key = walletKey(wallet);
+    this.wallets.set(key, entry);
+
+    if (!this.isConnected()) {
+      this.logger.debug("Authentication queued until connected", { wallet });
+      this.rejectPendingAuthentication(key, new Error("Authentication superseded"));
+      return new Promise((resolve, reject) => {
+        this.pendingAuthentications.set(key, { resolve, reject });
       });
+    }
 
-      this.socket!.emit("authenticate", { wallet });
+    return this.sendAuthentication(entry).catch((error: Error) => {
+      this.forgetWallet(key, entry);
+      throw error;
     });
   }
 
+  /**
+   * Stop receiving user data for one wallet. Other wallets stay authenticated.
+   * @param wallet - Wallet address passed to authenticate()
+   */
+  unauthenticate(wallet: string): void {
+    const key = walletKey(wallet);
+    if (!this.wallets.has(key)) return;
+
+    this.wallets.delete(key);
+    this.authenticatedWallets.delete(key);
+    this.tokens.delete(wallet);
+    this.rejectPendingAuthentication(key, new Error("Authentication canceled"));
+
+    if (this.isConnected()) {
+      this.send("unauthenticate", { wallet });
+    }
+    this.logger.debug("Unauthenticated", { wallet });
+    this.emit("unauthenticated", { wallet });
+  }
+
   /**
    * Get user balance (requires authentication)
+   * @param options - Request options (e.g., timeout) and the wallet to query
    */
-  async getBalance(): Promise<number> {
+  async getBalance(options?: BalanceRequestOptions): Promise<number> {
     this.ensureConnected();
-    this.ensureAuthenticated();
+    this.ensureAuthenticated(options?.wallet);
 
-    return new Promise((resolve) => {
-      this.socket!.emit("get:userBalance", (balance: number) => {
-        resolve(balance);
-      });
+    // The wallet is only sent when chosen explicitly; the server otherwise
+    // answers for the first wallet the connection authenticated
+    return this.requests.send<number>(this.socket!, "get:userBalance", {
+      timeout: options?.timeout,
+      payload: options?.wallet ? { wallet: options.wallet } : undefined,
     });
   }
 
   /**
-   * Get authenticated wallet address
+   * Get the first authenticated wallet address
    */
   getAuthenticatedWallet(): string | null {
-    return this.authenticatedWallet;
+    return this.getAuthenticatedWallets()[0] ?? null;
+  }
+
+  /**
+   * Get every authenticated wallet address
+   */
+  getAuthenticatedWallets(): string[] {
+    return Array.from(this.authenticatedWallets.values());
+  }
+
+  /**
+   * Feed a server event produced outside the socket (e.g., the result of
+   * an order placed through ExchangeClient) through the regular handlers.
+   * Unlike server traffic it is not emitted as a raw "message".
+   * @param event - Server event name (e.g., "openOrder:update")
+   * @param data - Event payload
+   * @param wallet - Wallet the event belongs to
+   */
+  ingest(event: string, data: unknown, wallet?: string): void {
+    this.serverEvents[event]?.(data, wallet ?? this.soleWallet());
   }
 
   // ═══════════════════════════════════════════════════════════════════════
@@ -380,164 +673,497 @@ export class HyperliquidClient {
   // ═══════════════════════════════════════════════════════════════════════
 
   /**
-   * Unsubscribe from a room
+   * Unsubscribe from a room. A room still retained by a stream, hook or
+   * relay stays subscribed until the last of them releases it.
    * @param room - Room name (e.g., "prices:all", "orderbook:BTC")
    */
   unsubscribe(room: string): void {
-    this.ensureConnected();
-    this.socket!.emit("unsubscribe", { room });
-    this.log("Unsubscribed from:", room);
+    this.directRooms.delete(room);
+    if (this.holds.has(room)) {
+      this.logger.debug("Room still retained", { room, holders: this.holds.get(room) });
+      return;
+    }
+    this.removeSubscription(room);
   }
 
-  // ═══════════════════════════════════════════════════════════════════════
-  // EVENT HANDLING
-  // ═══════════════════════════════════════════════════════════════════════
+  /**
+   * Keep a room subscribed on behalf of one consumer sharing the client.
+   * The room is subscribed by the first holder and unsubscribed when the
+   * last one releases it, unless it was also subscribed with subscribe*()
+   * and not unsubscribed since.
+   * @param type - Subscription kind
+   * @param params - Asset (omit with "prices" for all prices) and candle interval
+   * @returns Function releasing the hold; later calls do nothing
+   * @example
+   * ```typescript
+   * const release = client.retain('orderbook', { asset: 'BTC' });
+   * const releaseToo = client.retain('orderbook', { asset: 'BTC' }); // Same room, one upstream subscription
+   *
+   * release();    // Still subscribed
+   * releaseToo(); // Unsubscribes
+   * ```
+   */
+  retain(type: SubscriptionType, params: SubscriptionParams = {}): () => void {
+    const subscription = this.toSubscription(type, params);
+    const { room } = subscription;
+
+    this.holds.set(room, (this.holds.get(room) ?? 0) + 1);
+    if (!this.subscriptions.has(room)) {
+      this.addSubscription(subscription);
+    }
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+
+      const holders = (this.holds.get(room) ?? 1) - 1;
+      if (holders > 0) {
+        this.holds.set(room, holders);
+        return;
+      }
+      this.holds.delete(room);
+      if (!this.directRooms.has(room)) this.removeSubscription(room);
+    };
+  }
 
   /**
-   * Register an event handler
+   * Unsubscribe and subscribe again to a room, e.g. to refresh a quiet feed
+   * @param room - Room name of an active subscription
    */
-  on<T = any>(event: string, handler: (data: T) => void): void {
-    if (!this.eventHandlers.has(event)) {
-      this.eventHandlers.set(event, new Set());
+  resubscribe(room: string): void {
+    const subscription = this.subscriptions.get(room);
+    if (!subscription) {
+      throw new Error(`Not subscribed to ${room}`);
     }
-    this.eventHandlers.get(event)!.add(handler);
+
+    if (this.isConnected()) {
+      this.send("unsubscribe", { room });
+      this.sendSubscription(subscription);
+    }
+    this.logger.debug("Resubscribed", { room });
   }
 
   /**
-   * Remove an event handler
+   * Get all active subscriptions. These are sent again after every reconnect.
    */
-  off(event: string, handler: (...args: any[]) => void): void {
-    this.eventHandlers.get(event)?.delete(handler);
+  getSubscriptions(): Subscription[] {
+    return Array.from(this.subscriptions.values(), (subscription) => ({
+      ...subscription,
+    }));
   }
 
+  // ═══════════════════════════════════════════════════════════════════════
+  // STREAMS
+  // ═══════════════════════════════════════════════════════════════════════
+
   /**
-   * Remove all handlers for an event
+   * Stream a feed as an async iterable. Subscribes when iteration starts
+   * and unsubscribes when the loop exits (break, return or throw).
+   *
+   * @param kind - Feed name ("prices", "price", "orderbook", "trades", "candles", "positions", "fills")
+   * @param params - Feed parameters (e.g., { asset: "BTC" })
+   * @param options - Buffer size and overflow policy
+   * @example
+   * ```typescript
+   * for await (const trade of client.stream('trades', { asset: 'BTC' })) {
+   *   console.log(trade.side, trade.size, trade.price);
+   *   if (trade.value > 1_000_000) break; // Unsubscribes
+   * }
+   * ```
    */
-  removeAllListeners(event?: string): void {
-    if (event) {
-      this.eventHandlers.delete(event);
-    } else {
-      this.eventHandlers.clear();
-    }
+  stream<K extends StreamKind>(
+    kind: K,
+    ...[params, options]: StreamArgs<K>
+  ): AsyncIterable<StreamItems[K]> {
+    return createStream(
+      this,
+      kind,
+      (params ?? {}) as StreamParams[K],
+      options
+    );
   }
 
   // ═══════════════════════════════════════════════════════════════════════
   // PRIVATE METHODS
   // ═══════════════════════════════════════════════════════════════════════
 
-  private setupDataListeners(): void {
-    if (!this.socket) return;
+  /**
+   * Map an asset name to its server symbol, rejecting unknown assets
+   * unless validation is disabled
+   */
+  private resolveAsset(asset: string): string {
+    if (!this.options.validateAssets) {
+      return asset;
+    }
+    return this.assets.resolve(asset).symbol;
+  }
 
-    // Price events
-    this.socket.on("prices:snapshot", (prices: PriceData[]) => {
-      this.emit("prices", prices);
-    });
-    this.socket.on("prices:update", (prices: PriceData[]) => {
-      this.emit("prices", prices);
-    });
-    this.socket.on("price:snapshot", (price: PriceData) => {
-      this.emit("price", price);
-    });
-    this.socket.on("price:update", (price: PriceData) => {
-      this.emit("price", price);
-    });
+  /**
+   * Request pages forward from `start` until a page comes back short of
+   * the server limit. Each page starts at the newest time of the previous
+   * one, so items sharing the boundary timestamp are not lost; repeats are
+   * dropped by key.
+   */
+  private async pageHistory<T>(
+    fetchPage: (from: number) => Promise<T[]>,
+    start: number,
+    timeOf: (item: T) => number,
+    keyOf: (item: T) => string
+  ): Promise<T[]> {
+    const items = new Map<string, T>();
+    let from = start;
+
+    for (;;) {
+      const page = await fetchPage(from);
+      page
+        .filter((item) => timeOf(item) >= from && !items.has(keyOf(item)))
+        .forEach((item) => items.set(keyOf(item), item));
+      if (page.length < this.options.historyPageSize) break;
+
+      // A full page within one timestamp would come back unchanged: step
+      // past it (items beyond the limit at that time cannot be reached)
+      const newest = Math.max(...page.map(timeOf));
+      from = newest > from ? newest : from + 1;
+    }
 
-    // Order book events
-    this.socket.on("orderbook:snapshot", (orderBook: OrderBook) => {
-      this.emit("orderbook", orderBook);
-    });
-    this.socket.on("orderbook:update", (orderBook: OrderBook) => {
-      this.emit("orderbook", orderBook);
+    return Array.from(items.values()).sort((a, b) => timeOf(a) - timeOf(b));
+  }
+
+  /**
+   * Send a fire-and-forget event to the server
+   */
+  protected send(event: string, payload: unknown): void {
+    this.socket?.emit(event, payload);
+  }
+
+  /**
+   * Subscription for a kind and its parameters, with the asset resolved
+   */
+  private toSubscription(
+    type: SubscriptionType,
+    { asset, interval }: SubscriptionParams
+  ): Subscription {
+    if (!asset) {
+      if (type === "prices") return { room: "prices:all", type };
+      throw new Error(`Asset required for ${type} subscriptions`);
+    }
+
+    asset = this.resolveAsset(asset);
+    switch (type) {
+      case "prices":
+        return { room: `price:${asset}`, type, asset };
+      case "orderbook":
+        return { room: `orderbook:${asset}`, type, asset };
+      case "trades":
+        return { room: `trades:${asset}`, type, asset };
+      case "candles":
+        if (!interval) throw new Error("Interval required for candle subscriptions");
+        return { room: `candle:${asset}:${interval}`, type, asset, interval };
+    }
+  }
+
+  private addDirectSubscription(subscription: Subscription): void {
+    this.directRooms.add(subscription.room);
+    this.addSubscription(subscription);
+  }
+
+  private addSubscription(subscription: Subscription): void {
+    this.subscriptions.set(subscription.room, subscription);
+    this.metrics?.subscriptionsChanged(this.getSubscriptions());
+    if (this.isConnected()) {
+      this.sendSubscription(subscription);
+    }
+  }
+
+  private removeSubscription(room: string): void {
+    this.subscriptions.delete(room);
+    this.metrics?.subscriptionsChanged(this.getSubscriptions());
+    if (this.isConnected()) {
+      this.send("unsubscribe", { room });
+    }
+    this.logger.debug("Unsubscribed", { room });
+  }
+
+  private sendSubscription(subscription: Subscription): void {
+    const { type, asset, interval } = subscription;
+
+    switch (type) {
+      case "prices":
+        this.send("subscribe:price", asset ? { asset } : {});
+        break;
+      case "orderbook":
+        this.send("subscribe:orderbook", { asset });
+        break;
+      case "trades":
+        this.send("subscribe:trades", { asset });
+        break;
+      case "candles":
+        this.send("subscribe:candle", { coin: asset, interval });
+        break;
+    }
+  }
+
+  /**
+   * Replay the wallets and every registered subscription on a fresh connection
+   */
+  private restoreSession(): void {
+    this.wallets.forEach((entry, key) => {
+      const pending = this.pendingAuthentications.get(key);
+      this.pendingAuthentications.delete(key);
+
+      this.sendAuthentication(entry).then(
+        () => pending?.resolve(),
+        (error: Error) => {
+          if (pending) {
+            // The caller sees the error; don't retry on every reconnect
+            this.forgetWallet(key, entry);
+            pending.reject(error);
+          } else {
+            this.emit("error", { code: "AUTH_ERROR", message: error.message });
+          }
+        }
+      );
     });
 
-    // Trade events
-    this.socket.on(
-      "trades:snapshot",
-      (data: { asset: string; trades: Trade[] }) => {
-        this.emit("trades", data);
-      }
-    );
-    this.socket.on(
-      "trades:update",
-      (data: { asset: string; trades: Trade[] }) => {
-        this.emit("trades", data);
-      }
-    );
+    if (this.subscriptions.size > 0) {
+      this.logger.debug("Restoring subscriptions", { count: this.subscriptions.size });
+      this.subscriptions.forEach((subscription) => {
+        this.sendSubscription(subscription);
+      });
+    }
+  }
 
-    // Candle events
-    this.socket.on(
-      "candle:snapshot",
-      (data: { coin: string; interval: string; candles: Candle[] }) => {
-        this.emit("candles", data);
+  /**
+   * Drop a wallet whose authentication failed, unless it was re-registered
+   */
+  private forgetWallet(key: string, entry: WalletEntry): void {
+    if (this.wallets.get(key) === entry) this.wallets.delete(key);
+  }
+
+  private rejectPendingAuthentication(key: string, error: Error): void {
+    const pending = this.pendingAuthentications.get(key);
+    if (pending) {
+      pending.reject(error);
+      this.pendingAuthentications.delete(key);
+    }
+  }
+
+  private async sendAuthentication({ wallet, signer }: WalletEntry): Promise<void> {
+    const key = walletKey(wallet);
+    const data = signer
+      ? await this.signIn(wallet, signer)
+      : await this.requestAuthentication(wallet, { wallet });
+
+    // unauthenticate() was called while the request was in flight
+    if (!this.wallets.has(key)) return;
+
+    this.authenticatedWallets.set(key, data.wallet);
+    this.logger.info("Authenticated", { wallet: data.wallet });
+    this.emit("authenticated", { wallet: data.wallet });
+  }
+
+  /**
+   * Signed authentication: reuse a cached token, or sign a fresh challenge
+   */
+  private async signIn(wallet: string, signer: Signer): Promise<AuthResponse> {
+    const cached = this.tokens.get(wallet);
+    if (cached && (cached.expiresAt === undefined || cached.expiresAt > Date.now())) {
+      try {
+        return await this.requestAuthentication(wallet, {
+          wallet,
+          token: cached.token,
+        });
+      } catch {
+        this.logger.debug("Cached token rejected, signing a new challenge", { wallet });
+        this.tokens.delete(wallet);
       }
+    }
+
+    this.ensureConnected();
+    const challenge = await this.requests.send<AuthChallenge>(
+      this.socket!,
+      "auth:challenge",
+      { payload: { wallet } }
     );
-    this.socket.on("candle:update", (candle: Candle) => {
-      this.emit("candle", candle);
-    });
 
-    // User data events
-    this.socket.on("position:snapshot", (positions: Position[]) => {
-      this.emit("positions", positions);
-    });
-    this.socket.on("position:update", (position: Position) => {
-      this.emit("position", position);
-    });
-    this.socket.on("position:closed", (data: { asset: string }) => {
-      this.emit("positionClosed", data);
-    });
+    // Browser wallets may take a while to sign; the socket can drop meanwhile
+    const signature = await signer.signMessage(challenge.message);
+    this.ensureConnected();
 
-    this.socket.on("openOrder:snapshot", (orders: OpenOrder[]) => {
-      this.emit("openOrders", orders);
-    });
-    this.socket.on("openOrder:update", (order: OpenOrder) => {
-      this.emit("openOrder", order);
-    });
-    this.socket.on("openOrder:removed", (data: { orderId: string }) => {
-      this.emit("orderRemoved", data);
+    const data = await this.requestAuthentication(wallet, {
+      wallet,
+      nonce: challenge.nonce,
+      signature,
     });
 
-    this.socket.on("orderHistory:snapshot", (history: OrderHistory[]) => {
-      this.emit("orderHistory", history);
-    });
-    this.socket.on("orderHistory:update", (fill: OrderHistory) => {
-      this.emit("orderFill", fill);
-    });
+    if (data.token) {
+      const token: AuthToken = { token: data.token, expiresAt: data.expiresAt };
+      this.tokens.set(wallet, token);
+    }
+    return data;
+  }
 
-    this.socket.on("funding:snapshot", (fundings: UserFunding[]) => {
-      this.emit("fundings", fundings);
-    });
-    this.socket.on("funding:update", (funding: UserFunding) => {
-      this.emit("funding", funding);
+  private requestAuthentication(
+    wallet: string,
+    payload: Record<string, string>
+  ): Promise<AuthResponse> {
+    const key = walletKey(wallet);
+    return this.requests.send<AuthResponse>(this.socket!, "authenticate", {
+      payload,
+      response: {
+        success: "authenticated",
+        failure: "auth:error",
+        // Untagged answers are taken in order
+        match: (response: { wallet?: string }) =>
+          !response?.wallet || walletKey(response.wallet) === key,
+      },
     });
+  }
 
-    this.socket.on("balance:update", (data: { balance: number }) => {
-      this.emit("balance", data.balance);
-    });
+  private setupDataListeners(): void {
+    if (!this.socket) return;
+
+    // Every inbound event goes through dispatch(), which also feeds "message".
+    // User data events may carry a second `{ wallet }` argument.
+    this.socket.onAny(
+      (event: string, data?: unknown, meta?: { wallet?: string }) => {
+        const message: InboundMessage = { event, data, receivedAt: Date.now() };
+        if (typeof meta?.wallet === "string") message.wallet = meta.wallet;
+        this.dispatch(message);
+      }
+    );
+  }
+
+  /**
+   * Handlers re-emitting server data events as client events
+   */
+  private readonly serverEvents: Record<
+    string,
+    (data: any, wallet: string | null) => void
+  > = {
+    // Price events
+    "prices:snapshot": (prices: PriceData[]) => this.emit("prices", prices),
+    "prices:update": (prices: PriceData[]) => this.emit("prices", prices),
+    "price:snapshot": (price: PriceData) => this.emit("price", price),
+    "price:update": (price: PriceData) => this.emit("price", price),
+
+    // Order book events
+    "orderbook:snapshot": (orderBook: OrderBook) =>
+      this.emit("orderbook", orderBook),
+    "orderbook:update": (orderBook: OrderBook) =>
+      this.emit("orderbook", orderBook),
+
+    // Trade events
+    "trades:snapshot": (data: { asset: string; trades: Trade[] }) =>
+      this.emit("trades", data),
+    "trades:update": (data: { asset: string; trades: Trade[] }) =>
+      this.emit("trades", data),
+
+    // Candle events
+    "candle:snapshot": (data: {
+      coin: string;
+      interval: string;
+      candles: Candle[];
+    }) => this.emit("candles", data),
+    "candle:update": (candle: Candle) => this.emit("candle", candle),
+
+    // User data events
+    "position:snapshot": (positions: Position[], wallet) =>
+      this.emitUserData("positions", positions, wallet),
+    "position:update": (position: Position, wallet) =>
+      this.emitUserData("position", position, wallet),
+    "position:closed": (data: { asset: string }, wallet) =>
+      this.emitUserData("positionClosed", data, wallet),
+
+    "openOrder:snapshot": (orders: OpenOrder[], wallet) =>
+      this.emitUserData("openOrders", orders, wallet),
+    "openOrder:update": (order: OpenOrder, wallet) =>
+      this.emitUserData("openOrder", order, wallet),
+    "openOrder:removed": (data: { orderId: string }, wallet) =>
+      this.emitUserData("orderRemoved", data, wallet),
+
+    "orderHistory:snapshot": (history: OrderHistory[], wallet) =>
+      this.emitUserData("orderHistory", history, wallet),
+    "orderHistory:update": (fill: OrderHistory, wallet) =>
+      this.emitUserData("orderFill", fill, wallet),
+
+    "funding:snapshot": (fundings: UserFunding[], wallet) =>
+      this.emitUserData("fundings", fundings, wallet),
+    "funding:update": (funding: UserFunding, wallet) =>
+      this.emitUserData("funding", funding, wallet),
+
+    "balance:update": (data: { balance: number }, wallet) =>
+      this.emitUserData("balance", data.balance, wallet),
 
     // Subscription confirmations
-    this.socket.on("subscribed", (data: { type: string; asset: string }) => {
-      this.emit("subscribed", data);
-    });
-    this.socket.on("unsubscribed", (data: { room: string }) => {
-      this.emit("unsubscribed", data);
-    });
+    subscribed: (data: { type: string; asset: string }) =>
+      this.emit("subscribed", data),
+    unsubscribed: (data: { room: string }) => this.emit("unsubscribed", data),
+  };
+
+  /**
+   * Handle one inbound server event: validate it, emit it as a raw
+   * "message", then re-emit data events under their client event name
+   */
+  protected dispatch(message: InboundMessage): void {
+    const { event, data } = message;
+    // Arguments are only evaluated when metrics are recorded
+    this.metrics?.messageReceived(event, serializedLength(data));
+    // Strict mode drops invalid payloads before any consumer, the raw tap included
+    if (!this.validate(event, data)) return;
+    this.emit("message", message);
+    this.serverEvents[event]?.(data, message.wallet ?? this.soleWallet());
   }
 
-  private emit(event: string, data?: any): void {
-    const handlers = this.eventHandlers.get(event);
-    if (handlers) {
-      handlers.forEach((handler) => {
-        try {
-          handler(data);
-        } catch (error) {
-          console.error(`Error in ${event} handler:`, error);
-        }
-      });
+  /**
+   * Emit a user data event under its own name and tagged as "walletData"
+   */
+  private emitUserData<K extends UserDataEventName>(
+    event: K,
+    data: ClientEvents[K],
+    wallet: string | null
+  ): void {
+    this.emit(event, data);
+    this.emit("walletData", { wallet, event, data } as WalletDataEvent);
+  }
+
+  /**
+   * Wallet untagged user data belongs to: the only one tracked, if any
+   */
+  protected soleWallet(): string | null {
+    return this.authenticatedWallets.size === 1
+      ? this.getAuthenticatedWallet()
+      : null;
+  }
+
+  /**
+   * Check a payload against its schema
+   * @returns false if the payload must be dropped (strict mode)
+   */
+  private validate(event: string, data: unknown): boolean {
+    const mode = this.options.validation;
+    if (mode === "off") return true;
+
+    const issue = validateServerEvent(event, data);
+    if (!issue) return true;
+
+    this.emit("validationError", { event, ...issue, data });
+
+    const fields = { event, path: issue.path, issue: issue.message };
+    if (mode === "strict") {
+      this.logger.debug("Dropped invalid payload", fields);
+      return false;
     }
+
+    this.logger.warn("Invalid payload", fields);
+    return true;
   }
 
-  private setState(state: ConnectionState): void {
+  protected setState(state: ConnectionState): void {
+    if (state === this.state) return;
     this.state = state;
+    this.metrics?.stateChanged(state, Date.now());
     this.emit("stateChange", state);
   }
 
@@ -552,6 +1178,9 @@ export class HyperliquidClient {
   }
 
   private handleDisconnect(reason: string): void {
+    // The server forgets the session; restoreSession() re-authenticates
+    this.authenticatedWallets.clear();
+    this.requests.rejectAll("Connection lost");
     this.setState("disconnected");
     this.emit("disconnected", { reason });
 
@@ -565,7 +1194,9 @@ export class HyperliquidClient {
 
   private scheduleReconnect(): void {
     if (this.reconnectAttempts >= this.options.maxReconnectAttempts) {
-      this.log("Max reconnection attempts reached");
+      this.logger.info("Max reconnection attempts reached", {
+        attempts: this.reconnectAttempts,
+      });
       this.setState("error");
       this.emit("error", {
         code: "MAX_RECONNECT_ATTEMPTS",
@@ -579,9 +1210,12 @@ export class HyperliquidClient {
 
     const delay =
       this.options.reconnectDelay * Math.pow(1.5, this.reconnectAttempts - 1);
-    this.log(
-      `Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts}/${this.options.maxReconnectAttempts})`
-    );
+    this.logger.info("Reconnecting", {
+      delay,
+      attempt: this.reconnectAttempts,
+      maxAttempts: this.options.maxReconnectAttempts,
+    });
+    this.metrics?.reconnecting(this.reconnectAttempts);
 
     this.emit("reconnecting", {
       attempt: this.reconnectAttempts,
@@ -601,15 +1235,78 @@ export class HyperliquidClient {
     }
   }
 
-  private ensureAuthenticated(): void {
-    if (!this.authenticatedWallet) {
-      throw new Error("Not authenticated. Call authenticate(wallet) first.");
+  private ensureAuthenticated(wallet?: string): void {
+    const authenticated = wallet
+      ? this.authenticatedWallets.has(walletKey(wallet))
+      : this.authenticatedWallets.size > 0;
+
+    if (!authenticated) {
+      throw new Error(
+        `Not authenticated${wallet ? ` as ${wallet}` : ""}. Call authenticate(wallet) first.`
+      );
     }
   }
 
-  private log(...args: any[]): void {
-    if (this.options.debug) {
-      console.log("[HyperliquidClient]", ...args);
+  /**
+   * Emit, timing the handlers when metrics are recorded. Scheduled handlers
+   * delivered later from a timer are timed by invoke() instead.
+   */
+  protected emit<K extends keyof ClientEvents>(event: K, data: ClientEvents[K]): void {
+    if (!this.metrics) {
+      super.emit(event, data);
+      return;
+    }
+
+    const start = performance.now();
+    this.emitting++;
+    try {
+      super.emit(event, data);
+    } finally {
+      this.emitting--;
+    }
+    this.metrics.handlerCompleted(event, performance.now() - start);
+  }
+
+  /**
+   * Deliver to a scheduled handler, timing it when metrics are recorded
+   */
+  protected invoke<T>(event: keyof ClientEvents, handler: EventHandler<T>, data: T): void {
+    // A delivery made within emit() counts towards that emit's time
+    if (!this.metrics || this.emitting > 0) {
+      super.invoke(event, handler, data);
+      return;
     }
+
+    const start = performance.now();
+    super.invoke(event, handler, data);
+    this.metrics.handlerCompleted(event, performance.now() - start);
+  }
+
+  protected handleError(event: keyof ClientEvents, error: unknown): void {
+    this.metrics?.handlerFailed(event, error);
+    this.logger.error("Event handler threw", { event, error });
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Wallet addresses are case-insensitive
+ */
+function walletKey(wallet: string): string {
+  return wallet.toLowerCase();
+}
+
+/**
+ * Length of a payload's JSON serialization in characters. This is not the
+ * size on the wire: transports frame and encode payloads their own way.
+ */
+function serializedLength(data: unknown): number {
+  try {
+    return JSON.stringify(data)?.length ?? 0;
+  } catch {
+    return 0;
   }
 }
@@ -0,0 +1,191 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// @nylium/hyperliquid-sdk CLI arguments and dump output
+// Kept apart from cli.ts, which runs on import
+// ═══════════════════════════════════════════════════════════════════════════
+
+import { ClientOptions, Network, TransportKind } from "./types";
+
+export const USAGE = `Usage: hyperliquid-sdk <command> [options]
+
+Live views:
+  watch prices [ASSET...]       Price table (all assets by default)
+  book ASSET                    Order book ladder
+  tape ASSET                    Trade tape
+  candles ASSET INTERVAL        Candles (e.g., candles SOL 5m)
+  account WALLET                Balance, positions and open orders
+
+Dumps (one record per line on stdout):
+  dump prices [ASSET...]
+  dump book ASSET
+  dump trades ASSET
+  dump candles ASSET INTERVAL
+  dump account WALLET
+
+Options:
+  --network NETWORK             mainnet or testnet (default: mainnet)
+  --url URL                     Server URL (overrides the network default)
+  --transport KIND              nylium or hyperliquid (default: nylium)
+  --depth N                     Book levels per side (default: 10)
+  --limit N                     Rows shown for prices and candles (default: 30)
+  --format FORMAT               Dump format: ndjson or csv (default: ndjson)
+  --debug                       Log client activity to stderr
+  -h, --help                    Show this help
+`;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ARGUMENTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface ParsedArgs {
+  positional: string[];
+  flags: Record<string, string | true>;
+}
+
+/** Positional arguments each command needs */
+const COMMAND_ARGUMENTS: Record<string, string[]> = {
+  "watch prices": [],
+  book: ["ASSET"],
+  tape: ["ASSET"],
+  candles: ["ASSET", "INTERVAL"],
+  account: ["WALLET"],
+  "dump prices": [],
+  "dump book": ["ASSET"],
+  "dump trades": ["ASSET"],
+  "dump candles": ["ASSET", "INTERVAL"],
+  "dump account": ["WALLET"],
+};
+const BOOLEAN_FLAGS = new Set(["debug", "help"]);
+const VALUE_FLAGS = new Set(["network", "url", "transport", "depth", "limit", "format"]);
+
+export function parseArgs(argv: string[]): ParsedArgs {
+  const parsed: ParsedArgs = { positional: [], flags: {} };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "-h") {
+      parsed.flags.help = true;
+    } else if (arg.startsWith("--")) {
+      const [name, inline] = arg.slice(2).split(/=(.*)/s, 2);
+      if (!BOOLEAN_FLAGS.has(name) && !VALUE_FLAGS.has(name)) {
+        throw new Error(`Unknown option: --${name}\n\n${USAGE}`);
+      }
+      if (inline !== undefined) {
+        parsed.flags[name] = inline;
+      } else if (BOOLEAN_FLAGS.has(name)) {
+        parsed.flags[name] = true;
+      } else {
+        const value = argv[++i];
+        if (value === undefined) throw new Error(`Missing value for --${name}`);
+        parsed.flags[name] = value;
+      }
+    } else {
+      parsed.positional.push(arg);
+    }
+  }
+
+  return parsed;
+}
+
+export function stringFlag(args: ParsedArgs, name: string): string | undefined {
+  const value = args.flags[name];
+  return typeof value === "string" ? value : undefined;
+}
+
+export function numberFlag(args: ParsedArgs, name: string, fallback: number): number {
+  const value = stringFlag(args, name);
+  if (value === undefined) return fallback;
+
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new Error(`--${name} must be a positive integer`);
+  }
+  return number;
+}
+
+export function clientOptions(args: ParsedArgs): ClientOptions {
+  const network = stringFlag(args, "network");
+  if (network !== undefined && network !== "mainnet" && network !== "testnet") {
+    throw new Error(`Unknown network: ${network}`);
+  }
+
+  const transport = stringFlag(args, "transport");
+  if (transport !== undefined && transport !== "nylium" && transport !== "hyperliquid") {
+    throw new Error(`Unknown transport: ${transport}`);
+  }
+
+  return {
+    network: network as Network | undefined,
+    url: stringFlag(args, "url"),
+    transport: transport as TransportKind | undefined,
+    debug: args.flags.debug === true,
+  };
+}
+
+/**
+ * Check a command and its arguments before connecting
+ */
+export function checkCommand(command: string, params: string[]): void {
+  const twoWords = `${command} ${params[0] ?? ""}`;
+  const name = COMMAND_ARGUMENTS[twoWords] ? twoWords : command;
+  const names = COMMAND_ARGUMENTS[name];
+  if (!names) {
+    const feed = (command === "watch" || command === "dump") && params[0] ? ` ${params[0]}` : "";
+    throw new Error(`Unknown command: ${command}${feed}\n\n${USAGE}`);
+  }
+
+  const given = name === command ? params : params.slice(1);
+  const missing = names.slice(given.length);
+  if (missing.length) {
+    throw new Error(`Missing ${missing.join(" and ")} for ${name}\n\n${USAGE}`);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DUMP OUTPUT
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Where dump records are written (process.stdout by default)
+ */
+export interface DumpOutput {
+  write(chunk: string): unknown;
+}
+
+/**
+ * Record writer for dumps. CSV columns are the keys of every record
+ * written so far, in order of appearance; when a record brings new keys,
+ * a header row with the extended columns is written before it.
+ */
+export function createWriter(
+  format: string,
+  output: DumpOutput = process.stdout
+): (records: object[]) => void {
+  if (format === "ndjson") {
+    return (records) =>
+      records.forEach((record) => output.write(`${JSON.stringify(record)}\n`));
+  }
+  if (format !== "csv") {
+    throw new Error(`Unknown format: ${format}`);
+  }
+
+  const columns: string[] = [];
+  return (records) => {
+    const rows = records as Array<Record<string, unknown>>;
+    const added = new Set(
+      rows.flatMap((row) => Object.keys(row)).filter((key) => !columns.includes(key))
+    );
+    if (added.size > 0) {
+      columns.push(...added);
+      output.write(`${columns.map(csvField).join(",")}\n`);
+    }
+    rows.forEach((row) => {
+      output.write(`${columns.map((column) => csvField(row[column])).join(",")}\n`);
+    });
+  };
+}
+
+function csvField(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,302 @@
+import { BatchOptions, DeliveryOptions, DeliverySchedule } from "./types";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPED EVENT EMITTER
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Handler for a single event payload
+ */
+export type EventHandler<T> = (data: T) => void;
+
+/**
+ * How emit() reaches one registered handler
+ */
+interface Registration {
+  deliver: (data: any) => void;
+  /** Drops held events of a scheduled handler */
+  cancel?: () => void;
+}
+
+/**
+ * Minimal event emitter keyed by an event map interface.
+ * Event names and payload types are checked at compile time.
+ *
+ * Handlers run synchronously on every event unless registered with a
+ * delivery policy, which holds events and hands a slow handler the newest
+ * state (or a batch) at a bounded rate. Other handlers of the same event
+ * are unaffected.
+ */
+export class TypedEmitter<Events extends object> {
+  private eventHandlers = new Map<keyof Events, Map<EventHandler<any>, Registration>>();
+
+  /**
+   * Register an event handler
+   * @param options - Delivery policy; omit to be called on every event
+   * @example
+   * ```typescript
+   * // Redraw at most 10 times a second with the newest book of each asset
+   * client.on('orderbook', drawBook, { throttleMs: 100, key: (book) => book.asset });
+   *
+   * // Newest price list once per animation frame
+   * client.on('prices', drawPrices, { animationFrame: true });
+   * ```
+   */
+  on<K extends keyof Events>(
+    event: K,
+    handler: EventHandler<Events[K]>,
+    options?: DeliveryOptions<Events[K]>
+  ): void {
+    if (!options) {
+      this.register(event, handler, { deliver: handler });
+      return;
+    }
+
+    const key = options.key;
+    const pending = new Map<string, Events[K]>();
+    const delivery = new ScheduledDelivery(
+      options,
+      (data: Events[K]) => pending.set(key ? key(data) : "", data),
+      () => {
+        const values = Array.from(pending.values());
+        pending.clear();
+        values.forEach((value) => this.invoke(event, handler, value));
+      }
+    );
+    this.register(event, handler, {
+      deliver: (data) => delivery.push(data),
+      cancel: () => {
+        delivery.cancel();
+        pending.clear();
+      },
+    });
+  }
+
+  /**
+   * Register a handler receiving the events held between deliveries as
+   * one array, oldest first
+   * @example
+   * ```typescript
+   * client.onBatch('trades', (batches) => appendToTape(batches.flatMap((b) => b.trades)), {
+   *   throttleMs: 250,
+   * });
+   * ```
+   */
+  onBatch<K extends keyof Events>(
+    event: K,
+    handler: EventHandler<Events[K][]>,
+    options?: BatchOptions
+  ): void {
+    const maxSize = options?.maxSize ?? 1000;
+    if (!(maxSize > 0)) {
+      throw new Error("Batch maxSize must be positive");
+    }
+
+    let batch: Events[K][] = [];
+    const delivery = new ScheduledDelivery(
+      options ?? {},
+      (data: Events[K]) => {
+        batch.push(data);
+        if (batch.length > maxSize) batch.shift();
+      },
+      () => {
+        const items = batch;
+        batch = [];
+        if (items.length > 0) this.invoke(event, handler, items);
+      }
+    );
+    this.register(event, handler, {
+      deliver: (data) => delivery.push(data),
+      cancel: () => {
+        delivery.cancel();
+        batch = [];
+      },
+    });
+  }
+
+  /**
+   * Remove an event handler registered with on() or onBatch()
+   */
+  off<K extends keyof Events>(
+    event: K,
+    handler: EventHandler<Events[K]> | EventHandler<Events[K][]>
+  ): void {
+    const handlers = this.eventHandlers.get(event);
+    handlers?.get(handler)?.cancel?.();
+    handlers?.delete(handler);
+  }
+
+  /**
+   * Remove all handlers for an event, or every handler if no event is given
+   */
+  removeAllListeners<K extends keyof Events>(event?: K): void {
+    if (event !== undefined) {
+      this.eventHandlers.get(event)?.forEach((registration) => registration.cancel?.());
+      this.eventHandlers.delete(event);
+    } else {
+      this.eventHandlers.forEach((handlers) =>
+        handlers.forEach((registration) => registration.cancel?.())
+      );
+      this.eventHandlers.clear();
+    }
+  }
+
+  protected emit<K extends keyof Events>(event: K, data: Events[K]): void {
+    const handlers = this.eventHandlers.get(event);
+    if (handlers) {
+      handlers.forEach((registration) => {
+        try {
+          registration.deliver(data);
+        } catch (error) {
+          this.handleError(event, error);
+        }
+      });
+    }
+  }
+
+  /**
+   * Called when a handler throws; the remaining handlers still run
+   */
+  protected handleError(event: keyof Events, error: unknown): void {
+    console.error(`Error in ${String(event)} handler:`, error);
+  }
+
+  /**
+   * Add a handler unless it is already registered for the event
+   */
+  private register(
+    event: keyof Events,
+    handler: EventHandler<any>,
+    registration: Registration
+  ): void {
+    if (!this.eventHandlers.has(event)) {
+      this.eventHandlers.set(event, new Map());
+    }
+    const handlers = this.eventHandlers.get(event)!;
+    if (!handlers.has(handler)) handlers.set(handler, registration);
+  }
+
+  /**
+   * Call a handler outside emit(), e.g. from a delivery timer
+   */
+  protected invoke<T>(event: keyof Events, handler: EventHandler<T>, data: T): void {
+    try {
+      handler(data);
+    } catch (error) {
+      this.handleError(event, error);
+    }
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SCHEDULED DELIVERY
+// ═══════════════════════════════════════════════════════════════════════════
+
+const FRAME_MS = 16;
+
+/**
+ * Holds events for one handler and flushes them on a schedule. Only one
+ * flush is ever pending, so a handler slower than the event rate sees
+ * fewer, fresher deliveries instead of a growing queue.
+ */
+class ScheduledDelivery<T> {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private frame: number | null = null;
+  private lastFlush = -Infinity;
+
+  constructor(
+    private schedule: DeliverySchedule,
+    private hold: (data: T) => void,
+    private flush: () => void
+  ) {
+    if (schedule.throttleMs !== undefined && !(schedule.throttleMs >= 0)) {
+      throw new Error("throttleMs must be a non-negative number");
+    }
+  }
+
+  push(data: T): void {
+    this.hold(data);
+    if (this.timer !== null || this.frame !== null) return;
+
+    const { throttleMs, animationFrame } = this.schedule;
+    if (animationFrame && typeof requestAnimationFrame === "function") {
+      this.frame = requestAnimationFrame(() => {
+        this.frame = null;
+        this.run();
+      });
+      return;
+    }
+
+    const interval = throttleMs ?? (animationFrame ? FRAME_MS : 0);
+    const wait = this.lastFlush + interval - Date.now();
+    if (interval > 0 && wait <= 0) {
+      // Idle long enough: deliver the first event of a burst at once
+      this.run();
+      return;
+    }
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.run();
+    }, Math.max(0, wait));
+    // A held event must not keep a Node process alive on its own
+    this.timer.unref?.();
+  }
+
+  cancel(): void {
+    if (this.timer !== null) clearTimeout(this.timer);
+    if (this.frame !== null) cancelAnimationFrame(this.frame);
+    this.timer = null;
+    this.frame = null;
+  }
+
+  private run(): void {
+    this.lastFlush = Date.now();
+    this.flush();
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// LISTENER GROUP
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Tracks handlers attached to an emitter so they can be removed together
+ */
+export class ListenerGroup<Events extends object> {
+  private detachers: Array<() => void> = [];
+
+  constructor(private emitter: TypedEmitter<Events>) {}
+
+  /**
+   * Attach a handler to the emitter
+   */
+  on<K extends keyof Events>(
+    event: K,
+    handler: EventHandler<Events[K]>,
+    options?: DeliveryOptions<Events[K]>
+  ): void {
+    this.emitter.on(event, handler, options);
+    this.detachers.push(() => this.emitter.off(event, handler));
+  }
+
+  /**
+   * Attach a batch handler to the emitter
+   */
+  onBatch<K extends keyof Events>(
+    event: K,
+    handler: EventHandler<Events[K][]>,
+    options?: BatchOptions
+  ): void {
+    this.emitter.onBatch(event, handler, options);
+    this.detachers.push(() => this.emitter.off(event, handler));
+  }
+
+  /**
+   * Detach every handler attached through this group
+   */
+  removeAll(): void {
+    this.detachers.forEach((detach) => detach());
+    this.detachers = [];
+  }
+}
@@ -0,0 +1,759 @@
+import { keccak_256 } from "@noble/hashes/sha3";
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
+import type { HyperliquidClient } from "./client";
+import { AssetRegistry } from "./assets";
+import { splitSignature } from "./auth";
+import { encodeMsgpack } from "./msgpack";
+import {
+  AssetInfo,
+  CancelRequest,
+  CancelResult,
+  MarginMode,
+  Network,
+  OpenOrder,
+  OrderHistory,
+  OrderRequest,
+  OrderResult,
+  OrderType,
+  Signer,
+  TypedData,
+  TypedDataField,
+} from "./types";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// NETWORK CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Hyperliquid API base URLs for each network
+ */
+const EXCHANGE_URLS: Record<Network, string> = {
+  mainnet: "https://api.hyperliquid.xyz",
+  testnet: "https://api.hyperliquid-testnet.xyz",
+};
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+/** Chain id of the EIP-712 domain for L1 actions */
+const L1_CHAIN_ID = 1337;
+
+/** Chain id user-signed actions declare (Arbitrum Sepolia, as the Python SDK sends) */
+const SIGNATURE_CHAIN_ID = "0x66eee";
+
+/**
+ * EIP-712 type of each user-signed action. These are signed field by field
+ * instead of as a phantom agent, so the wallet shows what it signs.
+ */
+const USER_SIGNED_ACTIONS: Record<string, { primaryType: string; fields: TypedDataField[] }> = {
+  usdClassTransfer: {
+    primaryType: "HyperliquidTransaction:UsdClassTransfer",
+    fields: [
+      { name: "hyperliquidChain", type: "string" },
+      { name: "amount", type: "string" },
+      { name: "toPerp", type: "bool" },
+      { name: "nonce", type: "uint64" },
+    ],
+  },
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Exchange client options
+ */
+export interface ExchangeClientOptions {
+  /** Network (default: the data client's network, else mainnet) */
+  network?: Network;
+  /** Override the API base URL (e.g., a local stand-in endpoint) */
+  url?: string;
+  /** Data client that receives order results as openOrder/orderFill/orderRemoved events */
+  client?: HyperliquidClient;
+  /** Account the orders belong to (default: vaultAddress or the signer's address). Set when signing with an agent key. */
+  account?: string;
+  /** Trade on behalf of a vault or sub-account */
+  vaultAddress?: string;
+  /** Max slippage for market and stop orders, as a fraction (default: 0.05) */
+  slippage?: number;
+  /** Timeout for API requests in ms (default: 10000) */
+  requestTimeout?: number;
+  /** fetch implementation (default: global fetch) */
+  fetch?: typeof fetch;
+}
+
+interface InternalOptions {
+  network: Network;
+  url: string;
+  vaultAddress: string | null;
+  slippage: number;
+  requestTimeout: number;
+}
+
+type OrderTypeWire =
+  | { limit: { tif: string } }
+  | { trigger: { isMarket: boolean; triggerPx: string; tpsl: string } };
+
+/**
+ * Order as sent to the exchange. Key order matters: actions are hashed
+ * from their msgpack encoding.
+ */
+interface OrderWire {
+  a: number;
+  b: boolean;
+  p: string;
+  s: string;
+  r: boolean;
+  t: OrderTypeWire;
+  c?: string;
+}
+
+interface PreparedOrder {
+  request: OrderRequest;
+  info: AssetInfo;
+  type: OrderType;
+  price: number;
+  size: number;
+  wire: OrderWire;
+}
+
+type OrderStatus =
+  | { resting: { oid: number } }
+  | { filled: { totalSz: string; avgPx: string; oid: number } }
+  | { error: string };
+
+type CancelStatus = "success" | { error: string };
+
+interface ExchangeResponse {
+  status: "ok" | "err";
+  response: string | { type: string; data?: { statuses: unknown[] } };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// EXCHANGE CLIENT
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * ExchangeClient - Places, modifies and cancels orders, sets leverage and
+ * moves USDC between spot and perp through the Hyperliquid exchange API.
+ * Actions are signed with EIP-712, trading actions as L1 actions; asset
+ * ids, sizes and prices come from the bundled metadata.
+ *
+ * Pass the data client to see results immediately as "openOrder",
+ * "orderFill" and "orderRemoved" events.
+ *
+ * @example
+ * ```typescript
+ * const exchange = new ExchangeClient(new PrivateKeySigner(agentKey), {
+ *   client,
+ *   account: '0xmain...', // The agent trades for this account
+ * });
+ *
+ * const result = await exchange.placeOrder({
+ *   asset: 'BTC',
+ *   side: 'buy',
+ *   size: 0.01,
+ *   price: 95000,
+ * });
+ *
+ * if (result.status === 'resting') {
+ *   await exchange.cancelOrder('BTC', result.orderId!);
+ * }
+ *
+ * await exchange.placeOrder({ asset: 'ETH', side: 'sell', size: 0.5, type: 'market' });
+ * await exchange.setLeverage('BTC', 10, 'isolated');
+ * ```
+ */
+export class ExchangeClient {
+  private options: InternalOptions;
+  private assets: AssetRegistry;
+  private client: HyperliquidClient | null;
+  private fetch: typeof fetch;
+  private account: string | null;
+  private lastNonce = 0;
+
+  /**
+   * @param signer - Signer supporting signTypedData (account or approved agent key)
+   * @param options - Network, endpoint and account options
+   */
+  constructor(private signer: Signer, options?: ExchangeClientOptions) {
+    if (!signer.signTypedData) {
+      throw new Error("Signer must implement signTypedData to sign exchange actions");
+    }
+
+    const network = options?.network ?? options?.client?.getNetwork() ?? "mainnet";
+
+    this.options = {
+      network,
+      url: (options?.url ?? EXCHANGE_URLS[network]).replace(/\/$/, ""),
+      vaultAddress: options?.vaultAddress ?? null,
+      slippage: options?.slippage ?? 0.05,
+      requestTimeout: options?.requestTimeout ?? 10000,
+    };
+    this.client = options?.client ?? null;
+    this.assets =
+      this.client?.getNetwork() === network
+        ? this.client.getAssetRegistry()
+        : new AssetRegistry(network);
+    this.fetch = options?.fetch ?? globalThis.fetch;
+    this.account = options?.account ?? options?.vaultAddress ?? null;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // ORDERS
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Place one order. Exchange rejections resolve with status "error".
+   */
+  async placeOrder(order: OrderRequest): Promise<OrderResult> {
+    const [result] = await this.placeOrders([order]);
+    return result;
+  }
+
+  /**
+   * Place several orders in one signed action
+   */
+  async placeOrders(orders: OrderRequest[]): Promise<OrderResult[]> {
+    const prepared = await this.prepareOrders(orders);
+    const statuses = await this.post<OrderStatus>({
+      type: "order",
+      orders: prepared.map((order) => order.wire),
+      grouping: "na",
+    });
+
+    const results = prepared.map((order, i) => toOrderResult(order, statuses[i]));
+    await this.reportOrders(prepared, results);
+    return results;
+  }
+
+  /**
+   * Replace an open order
+   * @param orderId - Exchange order id, or a 0x-prefixed client order id
+   * @param order - New order parameters
+   */
+  async modifyOrder(orderId: string | number, order: OrderRequest): Promise<OrderResult> {
+    const [result] = await this.modifyOrders([{ orderId, order }]);
+    return result;
+  }
+
+  /**
+   * Replace several open orders in one signed action
+   */
+  async modifyOrders(
+    modifies: Array<{ orderId: string | number; order: OrderRequest }>
+  ): Promise<OrderResult[]> {
+    const prepared = await this.prepareOrders(modifies.map(({ order }) => order));
+    const statuses = await this.post<OrderStatus>({
+      type: "batchModify",
+      modifies: prepared.map((order, i) => ({
+        oid: toOrderIdWire(modifies[i].orderId),
+        order: order.wire,
+      })),
+    });
+
+    const results = prepared.map((order, i) => toOrderResult(order, statuses[i]));
+    await this.reportOrders(
+      prepared,
+      results,
+      modifies.map(({ orderId }) => String(orderId))
+    );
+    return results;
+  }
+
+  /**
+   * Cancel one order
+   * @param asset - Asset symbol
+   * @param orderId - Exchange order id, or a 0x-prefixed client order id
+   */
+  async cancelOrder(asset: string, orderId: string | number): Promise<CancelResult> {
+    const [result] = await this.cancelOrders([{ asset, orderId }]);
+    return result;
+  }
+
+  /**
+   * Cancel several orders. Exchange order ids and client order ids are
+   * sent as separate actions.
+   */
+  async cancelOrders(cancels: CancelRequest[]): Promise<CancelResult[]> {
+    const results: CancelResult[] = new Array(cancels.length);
+    const byOrderId: number[] = [];
+    const byClientId: number[] = [];
+
+    cancels.forEach(({ orderId }, i) => {
+      (isClientOrderId(orderId) ? byClientId : byOrderId).push(i);
+    });
+
+    const apply = (indices: number[], statuses: CancelStatus[]) => {
+      indices.forEach((index, i) => {
+        const orderId = String(cancels[index].orderId);
+        const status = statuses[i];
+        results[index] =
+          status === "success"
+            ? { orderId, success: true }
+            : { orderId, success: false, error: status?.error ?? "Missing cancel status" };
+      });
+    };
+
+    if (byOrderId.length > 0) {
+      const statuses = await this.post<CancelStatus>({
+        type: "cancel",
+        cancels: byOrderId.map((index) => ({
+          a: this.assets.resolve(cancels[index].asset).assetId,
+          o: Number(cancels[index].orderId),
+        })),
+      });
+      apply(byOrderId, statuses);
+    }
+
+    if (byClientId.length > 0) {
+      const statuses = await this.post<CancelStatus>({
+        type: "cancelByCloid",
+        cancels: byClientId.map((index) => ({
+          asset: this.assets.resolve(cancels[index].asset).assetId,
+          cloid: String(cancels[index].orderId),
+        })),
+      });
+      apply(byClientId, statuses);
+    }
+
+    // Open orders are keyed by exchange id, so only those can be removed
+    if (this.client) {
+      const account = await this.getAccount();
+      byOrderId.forEach((index) => {
+        const result = results[index];
+        if (result.success) {
+          this.client!.ingest("openOrder:removed", { orderId: result.orderId }, account);
+        }
+      });
+    }
+
+    return results;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // ACCOUNT SETTINGS
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Set leverage for a perp
+   * @param asset - Asset symbol
+   * @param leverage - Whole-number leverage, up to the asset's maximum
+   * @param mode - Cross or isolated margin (default: "cross")
+   */
+  async setLeverage(asset: string, leverage: number, mode: MarginMode = "cross"): Promise<void> {
+    const info = this.assets.resolve(asset);
+
+    if (info.type !== "perp") {
+      throw new Error(`Leverage only applies to perps: ${info.symbol}`);
+    }
+    if (!Number.isInteger(leverage) || leverage < 1) {
+      throw new Error("Leverage must be a whole number of at least 1");
+    }
+    if (info.maxLeverage !== undefined && leverage > info.maxLeverage) {
+      throw new Error(`Max leverage for ${info.symbol} is ${info.maxLeverage}x`);
+    }
+
+    await this.post({
+      type: "updateLeverage",
+      asset: info.assetId,
+      isCross: mode === "cross",
+      leverage,
+    });
+  }
+
+  /**
+   * Move USDC between the spot and perp balances (a vault's or
+   * sub-account's when vaultAddress is set)
+   * @param amount - USDC amount
+   * @param to - Balance receiving the USDC
+   */
+  async transferUsd(amount: number, to: "spot" | "perp"): Promise<void> {
+    if (!(amount > 0)) {
+      throw new Error("Transfer amount must be positive");
+    }
+
+    const { vaultAddress, network } = this.options;
+    const nonce = this.nextNonce();
+    const action = {
+      type: "usdClassTransfer",
+      signatureChainId: SIGNATURE_CHAIN_ID,
+      hyperliquidChain: network === "mainnet" ? "Mainnet" : "Testnet",
+      amount: vaultAddress
+        ? `${floatToWire(amount)} subaccount:${vaultAddress}`
+        : floatToWire(amount),
+      toPerp: to === "perp",
+      nonce,
+    };
+
+    // The vault travels in the amount; the request itself carries none
+    await this.submit(action, nonce, userSignedActionTypedData(action), null);
+  }
+
+  /**
+   * Mid price of every asset, keyed by symbol
+   */
+  async getMids(): Promise<Record<string, number>> {
+    const mids = await this.request<Record<string, string>>("/info", {
+      type: "allMids",
+    });
+
+    const result: Record<string, number> = {};
+    for (const [symbol, price] of Object.entries(mids)) {
+      result[symbol] = Number(price);
+    }
+    return result;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // PRIVATE METHODS
+  // ═══════════════════════════════════════════════════════════════════════
+
+  private async prepareOrders(orders: OrderRequest[]): Promise<PreparedOrder[]> {
+    // Fetched once, only if a market order has no reference price
+    let mids: Record<string, number> | null = null;
+    const prepared: PreparedOrder[] = [];
+
+    for (const request of orders) {
+      const info = this.assets.resolve(request.asset);
+      const type = request.type ?? "limit";
+      const isBuy = request.side === "buy";
+      const slippage = request.slippage ?? this.options.slippage;
+
+      const size = this.assets.roundSize(info.symbol, request.size);
+      if (!(size > 0)) {
+        throw new Error(`Order size rounds to zero for ${info.symbol}`);
+      }
+
+      let price: number;
+      let orderType: OrderTypeWire;
+
+      switch (type) {
+        case "limit":
+          price = required(request.price, "price", type);
+          orderType = { limit: { tif: request.timeInForce ?? "Gtc" } };
+          break;
+
+        case "market": {
+          let reference = request.price;
+          if (reference === undefined) {
+            mids ??= await this.getMids();
+            reference = mids[info.symbol];
+            if (reference === undefined) {
+              throw new Error(`No mid price for ${info.symbol}`);
+            }
+          }
+          price = withSlippage(reference, isBuy, slippage);
+          orderType = { limit: { tif: "Ioc" } };
+          break;
+        }
+
+        case "stop":
+        case "stop_limit": {
+          const trigger = required(request.triggerPrice, "triggerPrice", type);
+          price =
+            type === "stop"
+              ? withSlippage(trigger, isBuy, slippage)
+              : required(request.price, "price", type);
+          orderType = {
+            trigger: {
+              isMarket: type === "stop",
+              triggerPx: floatToWire(this.assets.roundPrice(info.symbol, trigger)),
+              tpsl: request.tpsl ?? "sl",
+            },
+          };
+          break;
+        }
+      }
+
+      price = this.assets.roundPrice(info.symbol, price);
+
+      prepared.push({
+        request,
+        info,
+        type,
+        price,
+        size,
+        wire: {
+          a: info.assetId,
+          b: isBuy,
+          p: floatToWire(price),
+          s: floatToWire(size),
+          r: request.reduceOnly ?? false,
+          t: orderType,
+          c: request.clientOrderId,
+        },
+      });
+    }
+
+    return prepared;
+  }
+
+  /**
+   * Feed order results into the data client's order events
+   * @param replaced - Ids of the orders being modified, if any
+   */
+  private async reportOrders(
+    prepared: PreparedOrder[],
+    results: OrderResult[],
+    replaced?: string[]
+  ): Promise<void> {
+    if (!this.client) return;
+
+    const client = this.client;
+    const account = await this.getAccount();
+    const timestamp = Date.now();
+
+    results.forEach((result, i) => {
+      if (result.status === "error") return;
+
+      const { info, request, type, price, size } = prepared[i];
+      const previous = replaced?.[i];
+
+      if (previous && previous !== result.orderId && !isClientOrderId(previous)) {
+        client.ingest("openOrder:removed", { orderId: previous }, account);
+      }
+
+      if (result.status === "resting") {
+        const order: OpenOrder = {
+          id: result.orderId!,
+          asset: info.symbol,
+          displayName: info.displayName,
+          side: request.side,
+          type,
+          price,
+          amount: size,
+          filled: 0,
+          remaining: size,
+          timestamp,
+        };
+        client.ingest("openOrder:update", order, account);
+      } else {
+        const filled = result.filledSize ?? size;
+        const fill: OrderHistory = {
+          id: result.orderId!,
+          asset: info.symbol,
+          displayName: info.displayName,
+          side: request.side,
+          type,
+          price: result.avgPrice ?? price,
+          amount: size,
+          filled,
+          status: filled >= size ? "filled" : "partially_filled",
+          timestamp,
+          fee: 0, // Not reported by the order response; the server fill carries it
+        };
+        client.ingest("orderHistory:update", fill, account);
+      }
+    });
+  }
+
+  /**
+   * Sign and send an L1 action
+   * @returns Per-item statuses from the response
+   */
+  private async post<T>(action: Record<string, unknown>): Promise<T[]> {
+    const nonce = this.nextNonce();
+    const { vaultAddress, network } = this.options;
+    const typedData = l1ActionTypedData(action, nonce, vaultAddress, network);
+    return this.submit<T>(action, nonce, typedData, vaultAddress);
+  }
+
+  /**
+   * Sign an action as the given typed data and send it
+   * @returns Per-item statuses from the response
+   */
+  private async submit<T>(
+    action: Record<string, unknown>,
+    nonce: number,
+    typedData: TypedData,
+    vaultAddress: string | null
+  ): Promise<T[]> {
+    const signature = splitSignature(await this.signer.signTypedData!(typedData));
+
+    const json = await this.request<ExchangeResponse>("/exchange", {
+      action,
+      nonce,
+      signature,
+      vaultAddress,
+    });
+
+    if (json.status !== "ok") {
+      const message =
+        typeof json.response === "string" ? json.response : JSON.stringify(json.response);
+      throw new Error(`Exchange error: ${message}`);
+    }
+
+    return typeof json.response === "object"
+      ? ((json.response.data?.statuses ?? []) as T[])
+      : [];
+  }
+
+  private async request<T>(path: string, body: unknown): Promise<T> {
+    const controller = new AbortController();
+    const timeout = this.options.requestTimeout;
+    const timer = setTimeout(() => controller.abort(), timeout);
+
+    try {
+      const response = await this.fetch(`${this.options.url}${path}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Exchange request failed: ${path} (HTTP ${response.status})`);
+      }
+      return (await response.json()) as T;
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new Error(`Request timeout: ${path} (${timeout}ms)`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Millisecond timestamps, strictly increasing per client
+   */
+  private nextNonce(): number {
+    const now = Date.now();
+    this.lastNonce = now > this.lastNonce ? now : this.lastNonce + 1;
+    return this.lastNonce;
+  }
+
+  private async getAccount(): Promise<string> {
+    this.account ??= await this.signer.getAddress();
+    return this.account;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SIGNING
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * EIP-712 payload an L1 action is signed as: a "phantom agent" whose
+ * connectionId is the hash of the msgpack-encoded action, nonce and vault
+ */
+export function l1ActionTypedData(
+  action: object,
+  nonce: number,
+  vaultAddress: string | null,
+  network: Network
+): TypedData {
+  return {
+    domain: {
+      name: "Exchange",
+      version: "1",
+      chainId: L1_CHAIN_ID,
+      verifyingContract: ZERO_ADDRESS,
+    },
+    types: {
+      Agent: [
+        { name: "source", type: "string" },
+        { name: "connectionId", type: "bytes32" },
+      ],
+    },
+    primaryType: "Agent",
+    message: {
+      source: network === "mainnet" ? "a" : "b",
+      connectionId: `0x${bytesToHex(actionHash(action, nonce, vaultAddress))}`,
+    },
+  };
+}
+
+/**
+ * EIP-712 payload of a user-signed action (e.g. usdClassTransfer): the
+ * action's own fields, with the chain id it declares
+ */
+export function userSignedActionTypedData(action: Record<string, unknown>): TypedData {
+  const definition = USER_SIGNED_ACTIONS[String(action.type)];
+  if (!definition) {
+    throw new Error(`Not a user-signed action: ${String(action.type)}`);
+  }
+
+  return {
+    domain: {
+      name: "HyperliquidSignTransaction",
+      version: "1",
+      chainId: parseInt(String(action.signatureChainId), 16),
+      verifyingContract: ZERO_ADDRESS,
+    },
+    types: { [definition.primaryType]: definition.fields },
+    primaryType: definition.primaryType,
+    message: action,
+  };
+}
+
+function actionHash(action: object, nonce: number, vaultAddress: string | null): Uint8Array {
+  const packed = encodeMsgpack(action);
+  const vault = vaultAddress ? hexToBytes(vaultAddress.slice(2)) : new Uint8Array(0);
+
+  const data = new Uint8Array(packed.length + 9 + vault.length);
+  data.set(packed);
+  new DataView(data.buffer).setBigUint64(packed.length, BigInt(nonce));
+  data[packed.length + 8] = vaultAddress ? 1 : 0;
+  data.set(vault, packed.length + 9);
+
+  return keccak_256(data);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Decimal string the exchange expects: at most 8 decimals, no trailing zeros
+ */
+function floatToWire(value: number): string {
+  const rounded = value.toFixed(8);
+  if (Math.abs(Number(rounded) - value) >= 1e-12) {
+    throw new Error(`Value has too many decimals: ${value}`);
+  }
+  const trimmed = rounded.replace(/\.?0+$/, "");
+  return trimmed === "-0" ? "0" : trimmed;
+}
+
+function withSlippage(price: number, isBuy: boolean, slippage: number): number {
+  return price * (isBuy ? 1 + slippage : 1 - slippage);
+}
+
+function required(value: number | undefined, field: string, type: OrderType): number {
+  if (value === undefined) {
+    throw new Error(`${field} is required for ${type} orders`);
+  }
+  return value;
+}
+
+function isClientOrderId(orderId: string | number): boolean {
+  return typeof orderId === "string" && orderId.startsWith("0x");
+}
+
+function toOrderIdWire(orderId: string | number): number | string {
+  return isClientOrderId(orderId) ? String(orderId) : Number(orderId);
+}
+
+function toOrderResult(order: PreparedOrder, status: OrderStatus | undefined): OrderResult {
+  const clientOrderId = order.request.clientOrderId;
+
+  if (!status) {
+    return { status: "error", clientOrderId, error: "Missing order status" };
+  }
+  if ("error" in status) {
+    return { status: "error", clientOrderId, error: status.error };
+  }
+  if ("resting" in status) {
+    return { status: "resting", orderId: String(status.resting.oid), clientOrderId };
+  }
+  return {
+    status: "filled",
+    orderId: String(status.filled.oid),
+    clientOrderId,
+    filledSize: Number(status.filled.totalSz),
+    avgPrice: Number(status.filled.avgPx),
+  };
+}
@@ -6,25 +6,241 @@
 // Main client
 export { HyperliquidClient } from "./client";
 
+// Signed authentication
+export {
+  PrivateKeySigner,
+  InjectedSigner,
+  MemoryTokenStore,
+  hashMessage,
+  hashTypedData,
+  recoverMessageAddress,
+  recoverTypedDataAddress,
+} from "./auth";
+
+// Trading
+export { ExchangeClient } from "./exchange";
+export type { ExchangeClientOptions } from "./exchange";
+
+// Transports
+export { HyperliquidTransport, HYPERLIQUID_WS_URLS } from "./transport";
+export type {
+  HyperliquidTransportOptions,
+  WebSocketLike,
+  WebSocketConstructor,
+} from "./transport";
+
+// Hyperliquid payload normalizers
+export {
+  normalizeMids,
+  normalizeAssetContext,
+  normalizePerpContexts,
+  normalizeSpotContexts,
+  normalizeBook,
+  normalizeTrades,
+  normalizeCandle,
+  normalizePositions,
+  normalizeBalance,
+  normalizeOpenOrder,
+  normalizeFill,
+  normalizeFunding,
+} from "./normalize";
+export type {
+  HlAllMids,
+  HlPerpAssetCtx,
+  HlSpotAssetCtx,
+  HlMetaAndAssetCtxs,
+  HlSpotMetaAndAssetCtxs,
+  HlActiveAssetCtx,
+  HlBookLevel,
+  HlL2Book,
+  HlTrade,
+  HlCandle,
+  HlPosition,
+  HlClearinghouseState,
+  HlOpenOrder,
+  HlWebData2,
+  HlFill,
+  HlUserFills,
+  HlUserFundings,
+} from "./normalize";
+
+// Session recording and replay
+export { SessionRecorder, ReplayClient, parseRecording } from "./replay";
+export type { RecordingSink } from "./replay";
+
+// Payload validation
+export { validateServerEvent } from "./validation";
+export type { ValidationIssue } from "./validation";
+
+// Asset metadata
+export { AssetRegistry } from "./assets";
+
+// Local data stores
+export { MarketCache } from "./market";
+export { OrderBookStore } from "./orderbook";
+export { CandleSeries } from "./candles";
+export { AccountState } from "./account";
+export { PortfolioState } from "./portfolio";
+
+// Feed health
+export { FeedMonitor } from "./monitor";
+
+// Logging and metrics
+export { ConsoleLogger } from "./logger";
+export type { ConsoleLoggerOptions } from "./logger";
+export { MetricsCollector, formatPrometheus } from "./metrics";
+
+// Alerts
+export { AlertEngine } from "./alerts";
+
+// Trade flow analytics
+export { TradeFlow } from "./tradeflow";
+
+// Technical indicators
+export {
+  Indicator,
+  SMA,
+  EMA,
+  RSI,
+  MACD,
+  BollingerBands,
+  ATR,
+  VWAP,
+  CandleIndicators,
+  createIndicator,
+} from "./indicators";
+
 // All types
 export type {
   // Client types
   ClientOptions,
+  RequestOptions,
+  BalanceRequestOptions,
+  TradeHistoryOptions,
+  ValidationMode,
+  ValidationErrorEvent,
   ConnectionState,
   ClientEvents,
+  ClientEventName,
+  InboundMessage,
+  ReplayOptions,
   Network,
+  // Transport types
+  Transport,
+  TransportFactory,
+  TransportKind,
+  // Observability types
+  LogLevel,
+  LogFields,
+  Logger,
+  MetricsRecorder,
+  MessageMetrics,
+  HandlerMetrics,
+  MetricsSnapshot,
+  PrometheusOptions,
   // Price types
   PriceData,
+  PriceChange,
+  MarketCacheEvents,
   // Order book types
   OrderBook,
   OrderBookLevel,
+  BookSide,
+  DepthSummary,
+  FillEstimate,
+  GroupedOrderBook,
   // Trade types
   Trade,
+  // Trade flow types
+  TradeFlowOptions,
+  TradeFlowStats,
+  LargeTrade,
+  TradeFlowEvents,
   // User data types
   Position,
   OpenOrder,
   OrderHistory,
   UserFunding,
+  AccountTotals,
+  AccountSnapshot,
+  AccountChangeReason,
+  AccountStateEvents,
+  AccountStateOptions,
+  UserDataEventName,
+  WalletDataEvent,
+  // Portfolio types
+  WalletPosition,
+  AssetExposure,
+  PortfolioTotals,
+  PortfolioSnapshot,
+  PortfolioEvents,
   // Candle types
   Candle,
+  CandleSeriesOptions,
+  CandleGap,
+  CandleSeriesEvents,
+  // Indicator types
+  CandleSource,
+  MovingAverageOptions,
+  RsiOptions,
+  MacdOptions,
+  MacdValue,
+  BollingerOptions,
+  BollingerValue,
+  AtrOptions,
+  VwapOptions,
+  IndicatorConfig,
+  IndicatorValue,
+  IndicatorValues,
+  CandleIndicatorsOptions,
+  CandleIndicatorsEvents,
+  // Asset types
+  AssetInfo,
+  // Subscription types
+  Subscription,
+  SubscriptionParams,
+  SubscriptionType,
+  // Feed monitor types
+  FeedRecoveryAction,
+  FeedMonitorOptions,
+  FeedHealth,
+  LatencyStats,
+  FeedMonitorEvents,
+  // Alert types
+  AlertMetric,
+  AlertOperator,
+  AlertMode,
+  AlertRule,
+  AlertRuleInput,
+  AlertEvent,
+  AlertEngineOptions,
+  AlertEngineEvents,
+  // Auth types
+  Signer,
+  Eip1193Provider,
+  AuthChallenge,
+  AuthToken,
+  AuthTokenStore,
+  TypedData,
+  TypedDataField,
+  // Exchange types
+  OrderType,
+  TimeInForce,
+  OrderRequest,
+  OrderResult,
+  CancelRequest,
+  CancelResult,
+  MarginMode,
+  // Stream types
+  StreamKind,
+  StreamParams,
+  StreamItems,
+  StreamArgs,
+  StreamOptions,
+  StreamOverflowPolicy,
+  // Delivery types
+  DeliverySchedule,
+  DeliveryOptions,
+  BatchOptions,
 } from "./types";
+export type { EventHandler } from "./emitter";
@@ -0,0 +1,682 @@
+import type { HyperliquidClient } from "./client";
+import { TypedEmitter, ListenerGroup } from "./emitter";
+import {
+  AtrOptions,
+  BollingerOptions,
+  BollingerValue,
+  Candle,
+  CandleIndicatorsEvents,
+  CandleIndicatorsOptions,
+  CandleSource,
+  ClientEvents,
+  IndicatorConfig,
+  IndicatorValue,
+  IndicatorValues,
+  MacdOptions,
+  MacdValue,
+  MovingAverageOptions,
+  RsiOptions,
+  VwapOptions,
+} from "./types";
+
+const DAY = 24 * 60 * 60_000;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// INDICATOR BASE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Indicator - Base of the incremental indicators.
+ *
+ * State only advances when a candle closes, which is when a candle with a
+ * later open time arrives. Until then the last candle is still forming:
+ * updates to it recompute the value from the closed candles' state, so a
+ * tick costs the same whatever the history length.
+ *
+ * @example
+ * ```typescript
+ * const rsi = new RSI({ period: 14 });
+ * rsi.reset(await client.getCandleHistory('BTC', '1m', Date.now() - 3_600_000));
+ *
+ * client.on('candle', (candle) => console.log(rsi.update(candle)));
+ * ```
+ */
+export abstract class Indicator<V> {
+  private current?: Candle;
+  private value?: V;
+
+  /**
+   * Apply a new candle, or a new version of the forming one. Candles older
+   * than the forming one are ignored.
+   * @returns Value for the forming candle (undefined while warming up)
+   */
+  update(candle: Candle): V | undefined {
+    if (this.current) {
+      if (candle.time < this.current.time) return this.value;
+      if (candle.time > this.current.time) this.commit(this.current);
+    }
+
+    this.current = candle;
+    this.value = this.compute(candle);
+    return this.value;
+  }
+
+  /**
+   * Value for the forming candle (undefined while warming up)
+   */
+  getValue(): V | undefined {
+    return this.value;
+  }
+
+  /**
+   * Drop all state, then apply the given candles (oldest first)
+   * @returns Value for the last candle
+   */
+  reset(candles: Candle[] = []): V | undefined {
+    this.current = undefined;
+    this.value = undefined;
+    this.clear();
+    candles.forEach((candle) => this.update(candle));
+    return this.value;
+  }
+
+  /** Value for a candle on top of the closed candles' state, without changing it */
+  protected abstract compute(candle: Candle): V | undefined;
+  /** Fold a closed candle into the state */
+  protected abstract commit(candle: Candle): void;
+  /** Drop all state */
+  protected abstract clear(): void;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// INDICATORS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Simple moving average
+ */
+export class SMA extends Indicator<number> {
+  private period: number;
+  private source: (candle: Candle) => number;
+  private window: RollingWindow;
+
+  constructor(options: MovingAverageOptions) {
+    super();
+    this.period = checkPeriod("SMA", options.period);
+    this.source = sourceOf(options.source);
+    this.window = new RollingWindow(this.period - 1);
+  }
+
+  protected compute(candle: Candle): number | undefined {
+    if (!this.window.isFull()) return undefined;
+    return (this.window.sum + this.source(candle)) / this.period;
+  }
+
+  protected commit(candle: Candle): void {
+    this.window.push(this.source(candle));
+  }
+
+  protected clear(): void {
+    this.window.clear();
+  }
+}
+
+/**
+ * Exponential moving average, seeded with the SMA of the first period
+ */
+export class EMA extends Indicator<number> {
+  private source: (candle: Candle) => number;
+  private ema: EmaState;
+
+  constructor(options: MovingAverageOptions) {
+    super();
+    this.source = sourceOf(options.source);
+    this.ema = new EmaState(checkPeriod("EMA", options.period));
+  }
+
+  protected compute(candle: Candle): number | undefined {
+    return this.ema.compute(this.source(candle));
+  }
+
+  protected commit(candle: Candle): void {
+    this.ema.commit(this.source(candle));
+  }
+
+  protected clear(): void {
+    this.ema.clear();
+  }
+}
+
+/**
+ * Relative strength index with Wilder smoothing (0-100)
+ */
+export class RSI extends Indicator<number> {
+  private period: number;
+  private source: (candle: Candle) => number;
+  private previous?: number;
+  private gainSum = 0;
+  private lossSum = 0;
+  private changes = 0;
+  private avgGain?: number;
+  private avgLoss?: number;
+
+  constructor(options: RsiOptions = {}) {
+    super();
+    this.period = checkPeriod("RSI", options.period ?? 14);
+    this.source = sourceOf(options.source);
+  }
+
+  protected compute(candle: Candle): number | undefined {
+    const averages = this.averages(this.source(candle));
+    if (!averages) return undefined;
+
+    const [gain, loss] = averages;
+    if (gain + loss === 0) return 50;
+    if (loss === 0) return 100;
+    return 100 - 100 / (1 + gain / loss);
+  }
+
+  protected commit(candle: Candle): void {
+    const price = this.source(candle);
+    const averages = this.averages(price);
+
+    if (averages) {
+      [this.avgGain, this.avgLoss] = averages;
+    } else if (this.previous !== undefined) {
+      this.gainSum += Math.max(price - this.previous, 0);
+      this.lossSum += Math.max(this.previous - price, 0);
+      this.changes++;
+    }
+    this.previous = price;
+  }
+
+  protected clear(): void {
+    this.previous = undefined;
+    this.gainSum = 0;
+    this.lossSum = 0;
+    this.changes = 0;
+    this.avgGain = undefined;
+    this.avgLoss = undefined;
+  }
+
+  /**
+   * Average gain and loss including a change to `price`
+   */
+  private averages(price: number): [number, number] | undefined {
+    if (this.previous === undefined) return undefined;
+
+    const gain = Math.max(price - this.previous, 0);
+    const loss = Math.max(this.previous - price, 0);
+    const period = this.period;
+
+    if (this.avgGain !== undefined && this.avgLoss !== undefined) {
+      return [
+        (this.avgGain * (period - 1) + gain) / period,
+        (this.avgLoss * (period - 1) + loss) / period,
+      ];
+    }
+    if (this.changes === period - 1) {
+      return [(this.gainSum + gain) / period, (this.lossSum + loss) / period];
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Moving average convergence divergence. Defined once the signal line is.
+ */
+export class MACD extends Indicator<MacdValue> {
+  private source: (candle: Candle) => number;
+  private fast: EmaState;
+  private slow: EmaState;
+  private signal: EmaState;
+
+  constructor(options: MacdOptions = {}) {
+    super();
+    const fast = checkPeriod("MACD fast", options.fast ?? 12);
+    const slow = checkPeriod("MACD slow", options.slow ?? 26);
+    if (fast >= slow) {
+      throw new Error("MACD fast period must be shorter than the slow period");
+    }
+
+    this.source = sourceOf(options.source);
+    this.fast = new EmaState(fast);
+    this.slow = new EmaState(slow);
+    this.signal = new EmaState(checkPeriod("MACD signal", options.signal ?? 9));
+  }
+
+  protected compute(candle: Candle): MacdValue | undefined {
+    const macd = this.line(this.source(candle));
+    if (macd === undefined) return undefined;
+
+    const signal = this.signal.compute(macd);
+    if (signal === undefined) return undefined;
+
+    return { macd, signal, histogram: macd - signal };
+  }
+
+  protected commit(candle: Candle): void {
+    const price = this.source(candle);
+    const macd = this.line(price);
+
+    this.fast.commit(price);
+    this.slow.commit(price);
+    if (macd !== undefined) this.signal.commit(macd);
+  }
+
+  protected clear(): void {
+    this.fast.clear();
+    this.slow.clear();
+    this.signal.clear();
+  }
+
+  private line(price: number): number | undefined {
+    const fast = this.fast.compute(price);
+    const slow = this.slow.compute(price);
+    return fast === undefined || slow === undefined ? undefined : fast - slow;
+  }
+}
+
+/**
+ * Bollinger Bands: SMA plus and minus a multiple of the population
+ * standard deviation
+ */
+export class BollingerBands extends Indicator<BollingerValue> {
+  private period: number;
+  private multiplier: number;
+  private source: (candle: Candle) => number;
+  private window: RollingWindow;
+
+  constructor(options: BollingerOptions = {}) {
+    super();
+    this.period = checkPeriod("Bollinger Bands", options.period ?? 20);
+    this.multiplier = options.multiplier ?? 2;
+    this.source = sourceOf(options.source);
+    this.window = new RollingWindow(this.period - 1);
+  }
+
+  protected compute(candle: Candle): BollingerValue | undefined {
+    if (!this.window.isFull()) return undefined;
+
+    const price = this.source(candle);
+    const middle = (this.window.sum + price) / this.period;
+    const squares = this.window.values.reduce(
+      (sum, value) => sum + (value - middle) ** 2,
+      (price - middle) ** 2
+    );
+    const width = Math.sqrt(squares / this.period) * this.multiplier;
+
+    return { upper: middle + width, middle, lower: middle - width };
+  }
+
+  protected commit(candle: Candle): void {
+    this.window.push(this.source(candle));
+  }
+
+  protected clear(): void {
+    this.window.clear();
+  }
+}
+
+/**
+ * Average true range with Wilder smoothing
+ */
+export class ATR extends Indicator<number> {
+  private period: number;
+  private previousClose?: number;
+  private rangeSum = 0;
+  private ranges = 0;
+  private atr?: number;
+
+  constructor(options: AtrOptions = {}) {
+    super();
+    this.period = checkPeriod("ATR", options.period ?? 14);
+  }
+
+  protected compute(candle: Candle): number | undefined {
+    const range = this.trueRange(candle);
+    if (this.atr !== undefined) {
+      return (this.atr * (this.period - 1) + range) / this.period;
+    }
+    if (this.ranges === this.period - 1) {
+      return (this.rangeSum + range) / this.period;
+    }
+    return undefined;
+  }
+
+  protected commit(candle: Candle): void {
+    const atr = this.compute(candle);
+    if (atr !== undefined) {
+      this.atr = atr;
+    } else {
+      this.rangeSum += this.trueRange(candle);
+      this.ranges++;
+    }
+    this.previousClose = candle.close;
+  }
+
+  protected clear(): void {
+    this.previousClose = undefined;
+    this.rangeSum = 0;
+    this.ranges = 0;
+    this.atr = undefined;
+  }
+
+  private trueRange({ high, low }: Candle): number {
+    const previous = this.previousClose;
+    if (previous === undefined) return high - low;
+    return Math.max(high - low, Math.abs(high - previous), Math.abs(low - previous));
+  }
+}
+
+/**
+ * Volume weighted average of the typical price (high + low + close) / 3
+ */
+export class VWAP extends Indicator<number> {
+  private daily: boolean;
+  private session?: number;
+  private priceVolume = 0;
+  private volume = 0;
+
+  constructor(options: VwapOptions = {}) {
+    super();
+    this.daily = (options.session ?? "day") === "day";
+  }
+
+  protected compute(candle: Candle): number | undefined {
+    const sameSession = this.sessionOf(candle) === this.session;
+    const priceVolume = (sameSession ? this.priceVolume : 0) + typicalPrice(candle) * candle.volume;
+    const volume = (sameSession ? this.volume : 0) + candle.volume;
+    return volume > 0 ? priceVolume / volume : undefined;
+  }
+
+  protected commit(candle: Candle): void {
+    const session = this.sessionOf(candle);
+    if (session !== this.session) {
+      this.session = session;
+      this.priceVolume = 0;
+      this.volume = 0;
+    }
+    this.priceVolume += typicalPrice(candle) * candle.volume;
+    this.volume += candle.volume;
+  }
+
+  protected clear(): void {
+    this.session = undefined;
+    this.priceVolume = 0;
+    this.volume = 0;
+  }
+
+  private sessionOf(candle: Candle): number {
+    return this.daily ? Math.floor(candle.time / DAY) * DAY : 0;
+  }
+}
+
+/**
+ * Create an indicator from its definition
+ *
+ * @example
+ * ```typescript
+ * const macd = createIndicator({ type: 'macd', fast: 8, slow: 21 });
+ * ```
+ */
+export function createIndicator<C extends IndicatorConfig>(
+  config: C
+): Indicator<IndicatorValue<C>> {
+  return buildIndicator(config) as Indicator<IndicatorValue<C>>;
+}
+
+function buildIndicator(config: IndicatorConfig): Indicator<unknown> {
+  switch (config.type) {
+    case "sma":
+      return new SMA(config);
+    case "ema":
+      return new EMA(config);
+    case "rsi":
+      return new RSI(config);
+    case "macd":
+      return new MACD(config);
+    case "bollinger":
+      return new BollingerBands(config);
+    case "atr":
+      return new ATR(config);
+    case "vwap":
+      return new VWAP(config);
+    default:
+      throw new Error(`Unknown indicator type: ${(config as { type: string }).type}`);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CANDLE INDICATORS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * CandleIndicators - Keeps a set of indicators up to date from the
+ * client's "candles" snapshots and "candle" updates for one asset and
+ * interval.
+ *
+ * A snapshot rebuilds every indicator. An update to the forming candle
+ * replaces its contribution; a candle with a later open time closes the
+ * previous one and emits "close" with its final values.
+ *
+ * @example
+ * ```typescript
+ * const indicators = new CandleIndicators(client, {
+ *   asset: 'BTC',
+ *   interval: '1m',
+ *   indicators: {
+ *     ema20: { type: 'ema', period: 20 },
+ *     rsi: { type: 'rsi' },
+ *     macd: { type: 'macd' },
+ *     bands: { type: 'bollinger', period: 20, multiplier: 2 },
+ *   },
+ * });
+ *
+ * client.subscribeCandles('BTC', '1m');
+ *
+ * indicators.on('update', ({ values }) => render(values.rsi, values.macd?.histogram));
+ * indicators.on('close', ({ candle, values }) => console.log(candle.time, values.ema20));
+ * ```
+ */
+export class CandleIndicators<
+  T extends Record<string, IndicatorConfig>,
+> extends TypedEmitter<CandleIndicatorsEvents<T>> {
+  private indicators = new Map<keyof T, Indicator<unknown>>();
+  private listeners: ListenerGroup<ClientEvents>;
+  private asset: string;
+  private interval: string;
+  private last?: Candle;
+
+  constructor(client: HyperliquidClient, options: CandleIndicatorsOptions<T>) {
+    super();
+
+    this.asset = client.getAssetRegistry().get(options.asset)?.symbol ?? options.asset;
+    this.interval = options.interval;
+    Object.keys(options.indicators).forEach((name) => {
+      this.indicators.set(name, buildIndicator(options.indicators[name]));
+    });
+
+    this.listeners = new ListenerGroup<ClientEvents>(client);
+    this.listeners.on("candles", (data) => this.handleSnapshot(data));
+    this.listeners.on("candle", (candle) => this.handleCandle(candle));
+  }
+
+  /**
+   * Rebuild every indicator from a candle history, e.g. from
+   * getCandleHistory() or a CandleSeries, when the snapshot is too short
+   * to warm them up
+   * @returns Values for the last candle
+   */
+  reset(candles: Candle[]): IndicatorValues<T> {
+    const sorted = [...candles].sort((a, b) => a.time - b.time);
+    this.indicators.forEach((indicator) => indicator.reset(sorted));
+    this.last = sorted[sorted.length - 1];
+    return this.getValues();
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // GETTERS
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Current value of one indicator
+   */
+  get<K extends keyof T>(name: K): IndicatorValue<T[K]> | undefined {
+    return this.indicators.get(name)?.getValue() as IndicatorValue<T[K]> | undefined;
+  }
+
+  /**
+   * Current value of every indicator
+   */
+  getValues(): IndicatorValues<T> {
+    const values = {} as IndicatorValues<T>;
+    this.indicators.forEach((indicator, name) => {
+      values[name] = indicator.getValue() as IndicatorValues<T>[keyof T];
+    });
+    return values;
+  }
+
+  /**
+   * The forming candle the values belong to
+   */
+  getCandle(): Candle | undefined {
+    return this.last;
+  }
+
+  /**
+   * Stop following the client
+   */
+  destroy(): void {
+    this.listeners.removeAll();
+    this.removeAllListeners();
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // PRIVATE METHODS
+  // ═══════════════════════════════════════════════════════════════════════
+
+  private handleSnapshot(data: { coin: string; interval: string; candles: Candle[] }): void {
+    if (data.coin !== this.asset || data.interval !== this.interval) return;
+
+    const values = this.reset(data.candles);
+    this.emit("snapshot", { candles: data.candles, values });
+  }
+
+  private handleCandle(candle: Candle): void {
+    // Candles without coin/interval are taken as belonging to this set
+    if (candle.coin !== undefined && candle.coin !== this.asset) return;
+    if (candle.interval !== undefined && candle.interval !== this.interval) return;
+
+    const last = this.last;
+    if (last) {
+      if (candle.time < last.time) return;
+      // Volume only grows while a candle is open: a lower one is stale
+      if (candle.time === last.time && candle.volume < last.volume) return;
+    }
+
+    const closed = last && candle.time > last.time ? this.getValues() : undefined;
+
+    this.last = candle;
+    this.indicators.forEach((indicator) => indicator.update(candle));
+
+    if (last && closed) this.emit("close", { candle: last, values: closed });
+    this.emit("update", { candle, values: this.getValues() });
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Last `size` committed values and their sum
+ */
+class RollingWindow {
+  values: number[] = [];
+  sum = 0;
+
+  constructor(private size: number) {}
+
+  isFull(): boolean {
+    return this.values.length >= this.size;
+  }
+
+  push(value: number): void {
+    this.values.push(value);
+    if (this.values.length > this.size) this.values.shift();
+    // Summed again rather than adjusted, so rounding errors don't build up
+    this.sum = this.values.reduce((sum, v) => sum + v, 0);
+  }
+
+  clear(): void {
+    this.values = [];
+    this.sum = 0;
+  }
+}
+
+/**
+ * EMA over plain numbers, seeded with the SMA of the first period
+ */
+class EmaState {
+  private ema?: number;
+  private seed: RollingWindow;
+  private k: number;
+
+  constructor(private period: number) {
+    this.seed = new RollingWindow(period - 1);
+    this.k = 2 / (period + 1);
+  }
+
+  compute(value: number): number | undefined {
+    if (this.ema !== undefined) return this.ema + this.k * (value - this.ema);
+    if (this.seed.isFull()) return (this.seed.sum + value) / this.period;
+    return undefined;
+  }
+
+  commit(value: number): void {
+    const ema = this.compute(value);
+    if (ema !== undefined) {
+      this.ema = ema;
+    } else {
+      this.seed.push(value);
+    }
+  }
+
+  clear(): void {
+    this.ema = undefined;
+    this.seed.clear();
+  }
+}
+
+function sourceOf(source: CandleSource = "close"): (candle: Candle) => number {
+  switch (source) {
+    case "open":
+      return (c) => c.open;
+    case "high":
+      return (c) => c.high;
+    case "low":
+      return (c) => c.low;
+    case "close":
+      return (c) => c.close;
+    case "hl2":
+      return (c) => (c.high + c.low) / 2;
+    case "hlc3":
+      return typicalPrice;
+    case "ohlc4":
+      return (c) => (c.open + c.high + c.low + c.close) / 4;
+    default:
+      throw new Error(`Unknown candle source: ${source}`);
+  }
+}
+
+function typicalPrice(candle: Candle): number {
+  return (candle.high + candle.low + candle.close) / 3;
+}
+
+function checkPeriod(name: string, period: number): number {
+  if (!Number.isInteger(period) || period < 1) {
+    throw new Error(`${name} period must be a positive integer`);
+  }
+  return period;
+}
@@ -0,0 +1,67 @@
+import { LogFields, Logger, LogLevel } from "./types";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSOLE LOGGER
+// ═══════════════════════════════════════════════════════════════════════════
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+  silent: 4,
+};
+
+/**
+ * ConsoleLogger options
+ */
+export interface ConsoleLoggerOptions {
+  /** Lowest level printed (default: "info") */
+  level?: LogLevel;
+  /** Text printed before every message (default: none) */
+  prefix?: string;
+}
+
+/**
+ * ConsoleLogger - Logger printing to the console at or above a level.
+ * Fields are printed as a trailing object. This is the client's default
+ * logger, at "warn" or at "debug" with `debug: true`.
+ *
+ * @example
+ * ```typescript
+ * const client = new HyperliquidClient({
+ *   logger: new ConsoleLogger({ level: 'info', prefix: '[feed]' }),
+ * });
+ * ```
+ */
+export class ConsoleLogger implements Logger {
+  private level: number;
+  private prefix?: string;
+
+  constructor(options?: ConsoleLoggerOptions) {
+    this.level = LEVELS[options?.level ?? "info"];
+    this.prefix = options?.prefix;
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    if (this.level <= LEVELS.debug) console.debug(...this.format(message, fields));
+  }
+
+  info(message: string, fields?: LogFields): void {
+    if (this.level <= LEVELS.info) console.info(...this.format(message, fields));
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    if (this.level <= LEVELS.warn) console.warn(...this.format(message, fields));
+  }
+
+  error(message: string, fields?: LogFields): void {
+    if (this.level <= LEVELS.error) console.error(...this.format(message, fields));
+  }
+
+  private format(message: string, fields?: LogFields): unknown[] {
+    const args: unknown[] = [this.prefix ? `${this.prefix} ${message}` : message];
+    if (fields && Object.keys(fields).length > 0) args.push(fields);
+    return args;
+  }
+}
@@ -0,0 +1,225 @@
+import type { HyperliquidClient } from "./client";
+import type { AssetRegistry } from "./assets";
+import { TypedEmitter, EventHandler, ListenerGroup } from "./emitter";
+import { ClientEvents, MarketCacheEvents, PriceChange, PriceData } from "./types";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MARKET CACHE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * MarketCache - Latest price data per symbol with synchronous lookups and
+ * field-level change events.
+ *
+ * Every symbol whose data differs from the cached copy emits "change" with
+ * the changed fields and their previous values; each batch also emits
+ * "update" with all of them. Symbols that arrive unchanged emit nothing.
+ * `lastUpdate` alone does not count as a change.
+ *
+ * @example
+ * ```typescript
+ * const market = new MarketCache(client);
+ * client.subscribePrices();
+ *
+ * market.getPrice('BTC');          // 97000.5, or undefined before the snapshot
+ * market.getPerps().length;        // 223
+ *
+ * market.watch('ETH', ({ fields, previous, current }) => {
+ *   if (fields.includes('fundingRate')) {
+ *     console.log(`Funding ${previous.fundingRate} -> ${current.fundingRate}`);
+ *   }
+ * });
+ * ```
+ */
+export class MarketCache extends TypedEmitter<MarketCacheEvents> {
+  private prices = new Map<string, PriceData>();
+  private watchers = new Map<string, Set<EventHandler<PriceChange>>>();
+  private listeners: ListenerGroup<ClientEvents> | null = null;
+  private assets: AssetRegistry | null = null;
+
+  /**
+   * @param client - Optional client to follow "prices" and "price" events from
+   */
+  constructor(client?: HyperliquidClient) {
+    super();
+    if (client) {
+      this.assets = client.getAssetRegistry();
+      this.listeners = new ListenerGroup<ClientEvents>(client);
+      this.listeners.on("prices", (prices) => this.update(prices));
+      this.listeners.on("price", (price) => this.update(price));
+    }
+  }
+
+  /**
+   * Store a snapshot or update; each price replaces the cached one
+   * @returns The changes, also emitted as events
+   */
+  update(prices: PriceData | PriceData[]): PriceChange[] {
+    const changes: PriceChange[] = [];
+
+    (Array.isArray(prices) ? prices : [prices]).forEach((price) => {
+      const change = diff(this.prices.get(price.symbol), price);
+      this.prices.set(price.symbol, price);
+      if (change) changes.push(change);
+    });
+
+    changes.forEach((change) => {
+      this.emit("change", change);
+      this.watchers.get(change.symbol)?.forEach((handler) => {
+        try {
+          handler(change);
+        } catch (error) {
+          this.handleError("change", error);
+        }
+      });
+    });
+    if (changes.length > 0) this.emit("update", changes);
+
+    return changes;
+  }
+
+  /**
+   * Call a handler on every change of one asset
+   * @returns Function removing the handler
+   */
+  watch(asset: string, handler: EventHandler<PriceChange>): () => void {
+    const symbol = this.resolve(asset);
+    let handlers = this.watchers.get(symbol);
+    if (!handlers) {
+      handlers = new Set();
+      this.watchers.set(symbol, handlers);
+    }
+    handlers.add(handler);
+
+    return () => {
+      handlers!.delete(handler);
+      if (handlers!.size === 0 && this.watchers.get(symbol) === handlers) {
+        this.watchers.delete(symbol);
+      }
+    };
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // GETTERS
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Latest data for an asset (symbol or, with a client, display name)
+   */
+  get(asset: string): PriceData | undefined {
+    return this.prices.get(this.resolve(asset));
+  }
+
+  /**
+   * Latest price for an asset
+   */
+  getPrice(asset: string): number | undefined {
+    return this.get(asset)?.price;
+  }
+
+  /**
+   * Check whether an asset has data
+   */
+  has(asset: string): boolean {
+    return this.prices.has(this.resolve(asset));
+  }
+
+  /**
+   * Every cached asset
+   */
+  getAll(): PriceData[] {
+    return Array.from(this.prices.values());
+  }
+
+  /**
+   * Cached perpetual contracts
+   */
+  getPerps(): PriceData[] {
+    return this.getAll().filter((price) => price.type === "perp");
+  }
+
+  /**
+   * Cached spot pairs
+   */
+  getSpots(): PriceData[] {
+    return this.getAll().filter((price) => price.type === "spot");
+  }
+
+  /**
+   * Every cached symbol
+   */
+  getSymbols(): string[] {
+    return Array.from(this.prices.keys());
+  }
+
+  /**
+   * Number of cached symbols
+   */
+  get size(): number {
+    return this.prices.size;
+  }
+
+  /**
+   * Drop one asset, or everything if no asset is given. Dropped assets
+   * are reported as added when they arrive again.
+   */
+  clear(asset?: string): void {
+    if (asset) {
+      this.prices.delete(this.resolve(asset));
+    } else {
+      this.prices.clear();
+    }
+  }
+
+  /**
+   * Stop following the client and drop all data and handlers
+   */
+  destroy(): void {
+    this.listeners?.removeAll();
+    this.listeners = null;
+    this.prices.clear();
+    this.watchers.clear();
+    this.removeAllListeners();
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // PRIVATE METHODS
+  // ═══════════════════════════════════════════════════════════════════════
+
+  private resolve(asset: string): string {
+    return this.assets?.get(asset)?.symbol ?? asset;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Fields that differ between the cached and the incoming data, or
+ * undefined if nothing but lastUpdate changed
+ */
+function diff(cached: PriceData | undefined, price: PriceData): PriceChange | undefined {
+  if (!cached) {
+    return {
+      symbol: price.symbol,
+      current: price,
+      fields: Object.keys(price) as Array<keyof PriceData>,
+      previous: {},
+      added: true,
+    };
+  }
+
+  const fields: Array<keyof PriceData> = [];
+  const previous: Partial<PriceData> = {};
+  const keys = new Set([...Object.keys(cached), ...Object.keys(price)]) as Set<keyof PriceData>;
+
+  keys.forEach((key) => {
+    if (key === "lastUpdate" || Object.is(cached[key], price[key])) return;
+    fields.push(key);
+    (previous as Record<string, unknown>)[key] = cached[key];
+  });
+
+  if (fields.length === 0) return undefined;
+  return { symbol: price.symbol, current: price, fields, previous, added: false };
+}
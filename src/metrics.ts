@@ -0,0 +1,269 @@
+import {
+  ConnectionState,
+  HandlerMetrics,
+  MessageMetrics,
+  MetricsRecorder,
+  MetricsSnapshot,
+  PrometheusOptions,
+  Subscription,
+  SubscriptionType,
+} from "./types";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// METRICS COLLECTOR
+// ═══════════════════════════════════════════════════════════════════════════
+
+const STATES: ConnectionState[] = [
+  "disconnected",
+  "connecting",
+  "connected",
+  "reconnecting",
+  "error",
+];
+
+const SUBSCRIPTION_TYPES: SubscriptionType[] = ["prices", "orderbook", "trades", "candles"];
+
+/**
+ * MetricsCollector - Keeps running totals of what a client reports through
+ * its `metrics` option, and renders them in the Prometheus text format.
+ *
+ * One collector per client; counters only reset with reset().
+ *
+ * @example
+ * ```typescript
+ * const metrics = new MetricsCollector();
+ * const client = new HyperliquidClient({ metrics });
+ *
+ * http.createServer((req, res) => {
+ *   res.setHeader('Content-Type', 'text/plain; version=0.0.4');
+ *   res.end(metrics.toPrometheus({ labels: { network: 'mainnet' } }));
+ * }).listen(9464);
+ * ```
+ */
+export class MetricsCollector implements MetricsRecorder {
+  private messages = new Map<string, MessageMetrics>();
+  private handlers = new Map<string, HandlerMetrics>();
+  private reconnects = 0;
+  private state: ConnectionState = "disconnected";
+  private stateSince = Date.now();
+  private stateDurations = emptyStateDurations();
+  private subscriptions = emptySubscriptionCounts();
+
+  messageReceived(event: string, chars: number): void {
+    const metrics = this.messages.get(event);
+    if (metrics) {
+      metrics.count++;
+      metrics.chars += chars;
+    } else {
+      this.messages.set(event, { count: 1, chars });
+    }
+  }
+
+  handlerCompleted(event: string, durationMs: number): void {
+    const metrics = this.handlerMetrics(event);
+    metrics.calls++;
+    metrics.totalMs += durationMs;
+    metrics.maxMs = Math.max(metrics.maxMs, durationMs);
+  }
+
+  handlerFailed(event: string): void {
+    this.handlerMetrics(event).errors++;
+  }
+
+  reconnecting(): void {
+    this.reconnects++;
+  }
+
+  stateChanged(state: ConnectionState, timestamp: number): void {
+    this.stateDurations[this.state] += Math.max(0, timestamp - this.stateSince);
+    this.state = state;
+    this.stateSince = timestamp;
+  }
+
+  subscriptionsChanged(subscriptions: Subscription[]): void {
+    this.subscriptions = emptySubscriptionCounts();
+    subscriptions.forEach(({ type }) => this.subscriptions[type]++);
+  }
+
+  /**
+   * Current totals
+   */
+  getSnapshot(): MetricsSnapshot {
+    const timestamp = Date.now();
+    const stateDuration = Math.max(0, timestamp - this.stateSince);
+    const stateDurations = { ...this.stateDurations };
+    stateDurations[this.state] += stateDuration;
+
+    return {
+      messages: copyEntries(this.messages),
+      handlers: copyEntries(this.handlers),
+      reconnects: this.reconnects,
+      state: this.state,
+      stateDuration,
+      stateDurations,
+      subscriptions: { ...this.subscriptions },
+      timestamp,
+    };
+  }
+
+  /**
+   * Current totals in the Prometheus text exposition format
+   */
+  toPrometheus(options?: PrometheusOptions): string {
+    return formatPrometheus(this.getSnapshot(), options);
+  }
+
+  /**
+   * Zero every counter. The current state and subscriptions are kept.
+   */
+  reset(): void {
+    this.messages.clear();
+    this.handlers.clear();
+    this.reconnects = 0;
+    this.stateSince = Date.now();
+    this.stateDurations = emptyStateDurations();
+  }
+
+  private handlerMetrics(event: string): HandlerMetrics {
+    let metrics = this.handlers.get(event);
+    if (!metrics) {
+      metrics = { calls: 0, errors: 0, totalMs: 0, maxMs: 0 };
+      this.handlers.set(event, metrics);
+    }
+    return metrics;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PROMETHEUS EXPORTER
+// ═══════════════════════════════════════════════════════════════════════════
+
+type Labels = Record<string, string>;
+
+/**
+ * Render a metrics snapshot in the Prometheus text exposition format
+ * (version 0.0.4). Durations are exported in seconds.
+ *
+ * @example
+ * ```typescript
+ * const body = formatPrometheus(metrics.getSnapshot(), { prefix: 'feed' });
+ * ```
+ */
+export function formatPrometheus(
+  snapshot: MetricsSnapshot,
+  options?: PrometheusOptions
+): string {
+  const prefix = options?.prefix ?? "hyperliquid";
+  const common = options?.labels ?? {};
+  const lines: string[] = [];
+
+  const family = (
+    name: string,
+    type: "counter" | "gauge",
+    help: string,
+    samples: Array<[Labels, number]>
+  ) => {
+    const metric = `${prefix}_${name}`;
+    lines.push(`# HELP ${metric} ${help}`, `# TYPE ${metric} ${type}`);
+    samples.forEach(([labels, value]) => {
+      lines.push(`${metric}${formatLabels({ ...common, ...labels })} ${formatValue(value)}`);
+    });
+  };
+
+  const messages = Object.entries(snapshot.messages);
+  const handlers = Object.entries(snapshot.handlers);
+
+  family(
+    "messages_received_total",
+    "counter",
+    "Server events received",
+    messages.map(([event, { count }]) => [{ event }, count])
+  );
+  family(
+    "received_serialized_chars_total",
+    "counter",
+    "Characters in the JSON serialization of the server events received",
+    messages.map(([event, { chars }]) => [{ event }, chars])
+  );
+  family(
+    "handler_errors_total",
+    "counter",
+    "Client event handlers that threw",
+    handlers.map(([event, { errors }]) => [{ event }, errors])
+  );
+
+  // Summary without quantiles: _sum and _count under one family
+  const duration = `${prefix}_handler_duration_seconds`;
+  lines.push(
+    `# HELP ${duration} Time spent in client event handlers`,
+    `# TYPE ${duration} summary`
+  );
+  handlers.forEach(([event, { calls, totalMs }]) => {
+    const labels = formatLabels({ ...common, event });
+    lines.push(`${duration}_sum${labels} ${formatValue(totalMs / 1000)}`);
+    lines.push(`${duration}_count${labels} ${formatValue(calls)}`);
+  });
+
+  family(
+    "handler_duration_max_seconds",
+    "gauge",
+    "Slowest emit of each client event",
+    handlers.map(([event, { maxMs }]) => [{ event }, maxMs / 1000])
+  );
+  family("reconnects_total", "counter", "Reconnect attempts", [[{}, snapshot.reconnects]]);
+  family(
+    "connection_state",
+    "gauge",
+    "1 for the current connection state",
+    STATES.map((state) => [{ state }, state === snapshot.state ? 1 : 0])
+  );
+  family("connection_state_duration_seconds", "gauge", "Time in the current connection state", [
+    [{ state: snapshot.state }, snapshot.stateDuration / 1000],
+  ]);
+  family(
+    "connection_state_seconds_total",
+    "counter",
+    "Total time spent in each connection state",
+    STATES.map((state) => [{ state }, snapshot.stateDurations[state] / 1000])
+  );
+  family(
+    "subscriptions",
+    "gauge",
+    "Active subscriptions by kind",
+    SUBSCRIPTION_TYPES.map((type) => [{ type }, snapshot.subscriptions[type]])
+  );
+
+  return lines.join("\n") + "\n";
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+function emptyStateDurations(): Record<ConnectionState, number> {
+  return { disconnected: 0, connecting: 0, connected: 0, reconnecting: 0, error: 0 };
+}
+
+function emptySubscriptionCounts(): Record<SubscriptionType, number> {
+  return { prices: 0, orderbook: 0, trades: 0, candles: 0 };
+}
+
+function copyEntries<T extends object>(entries: Map<string, T>): Record<string, T> {
+  const copy: Record<string, T> = {};
+  entries.forEach((value, key) => (copy[key] = { ...value }));
+  return copy;
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) =>
+      `${name}="${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return "NaN";
+  if (!Number.isFinite(value)) return value > 0 ? "+Inf" : "-Inf";
+  return String(value);
+}
@@ -0,0 +1,362 @@
+import type { HyperliquidClient } from "./client";
+import { TypedEmitter, ListenerGroup } from "./emitter";
+import {
+  ClientEvents,
+  FeedHealth,
+  FeedMonitorEvents,
+  FeedMonitorOptions,
+  FeedRecoveryAction,
+  InboundMessage,
+  LatencyStats,
+  OrderBook,
+  PriceData,
+  SubscriptionType,
+  Trade,
+  Candle,
+} from "./types";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DEFAULT CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface InternalOptions {
+  staleAfter: number;
+  thresholds: Partial<Record<SubscriptionType, number>>;
+  checkInterval: number;
+  recovery: FeedRecoveryAction;
+  recoverAfter: number;
+  latencySamples: number;
+}
+
+interface FeedState extends FeedHealth {
+  staleSince: number | null;
+  lastRecoveryAt: number | null;
+}
+
+/**
+ * Rooms a server message belongs to, plus the payload timestamp used for
+ * latency (update events only; snapshots carry historical data)
+ */
+interface Attribution {
+  type: SubscriptionType;
+  rooms: string[];
+  timestamp?: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FEED MONITOR
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * FeedMonitor - Detects subscriptions that go quiet while the socket stays
+ * connected and measures server-to-client latency per feed.
+ *
+ * @example
+ * ```typescript
+ * const monitor = new FeedMonitor(client, {
+ *   staleAfter: 5000,
+ *   thresholds: { candles: 120000 },
+ *   recovery: 'resubscribe',
+ * });
+ *
+ * monitor.on('stale', ({ room, silentFor }) => console.warn(`${room} silent for ${silentFor}ms`));
+ * monitor.on('fresh', ({ room }) => console.log(`${room} recovered`));
+ *
+ * monitor.getLatency('orderbook'); // { count, mean, p50, p99, max }
+ * ```
+ */
+export class FeedMonitor extends TypedEmitter<FeedMonitorEvents> {
+  private options: InternalOptions;
+  private feeds = new Map<string, FeedState>();
+  private latency = new Map<SubscriptionType, number[]>();
+  private listeners: ListenerGroup<ClientEvents>;
+  private timer: ReturnType<typeof setInterval> | null;
+
+  constructor(
+    private client: HyperliquidClient,
+    options?: FeedMonitorOptions
+  ) {
+    super();
+
+    this.options = {
+      staleAfter: options?.staleAfter ?? 10000,
+      thresholds: options?.thresholds ?? {},
+      checkInterval: options?.checkInterval ?? 1000,
+      recovery: options?.recovery ?? "none",
+      recoverAfter: options?.recoverAfter ?? 30000,
+      latencySamples: options?.latencySamples ?? 1000,
+    };
+
+    this.listeners = new ListenerGroup<ClientEvents>(client);
+    this.listeners.on("message", (message) => this.record(message));
+    this.listeners.on("connected", () => this.resetBaselines());
+
+    this.timer = setInterval(() => this.check(), this.options.checkInterval);
+    // A forgotten monitor must not keep a Node process alive (browsers
+    // return a plain id)
+    this.timer.unref?.();
+  }
+
+  /**
+   * Health of every monitored subscription
+   */
+  getFeeds(): FeedHealth[] {
+    this.syncFeeds(Date.now());
+    return Array.from(this.feeds.values(), (feed) => ({
+      room: feed.room,
+      type: feed.type,
+      lastMessageAt: feed.lastMessageAt,
+      messages: feed.messages,
+      stale: feed.stale,
+    }));
+  }
+
+  /**
+   * Latency statistics for one subscription type, or across all types
+   */
+  getLatency(type?: SubscriptionType): LatencyStats {
+    const samples = type
+      ? this.latency.get(type) ?? []
+      : Array.from(this.latency.values()).flat();
+    return computeStats(samples);
+  }
+
+  /**
+   * Stop monitoring
+   */
+  destroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.listeners.removeAll();
+    this.removeAllListeners();
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // PRIVATE METHODS
+  // ═══════════════════════════════════════════════════════════════════════
+
+  private record(message: InboundMessage): void {
+    const attribution = attribute(message, this.feeds);
+    if (!attribution) return;
+
+    // A prices message names every symbol, most of them unsubscribed: the
+    // feeds are synced at most once per message
+    const now = Date.now();
+    let synced = false;
+    for (const room of attribution.rooms) {
+      let feed = this.feeds.get(room);
+      if (!feed && !synced) {
+        this.syncFeeds(now);
+        synced = true;
+        feed = this.feeds.get(room);
+      }
+      if (!feed) continue;
+
+      feed.lastMessageAt = now;
+      feed.messages++;
+
+      if (feed.stale) {
+        feed.stale = false;
+        feed.staleSince = null;
+        feed.lastRecoveryAt = null;
+        this.emit("fresh", { room, type: feed.type });
+      }
+    }
+
+    if (attribution.timestamp !== undefined) {
+      this.addLatencySample(
+        attribution.type,
+        message.receivedAt - attribution.timestamp
+      );
+    }
+  }
+
+  private check(): void {
+    if (!this.client.isConnected()) return;
+
+    const now = Date.now();
+    this.syncFeeds(now);
+
+    let reconnect = false;
+
+    this.feeds.forEach((feed) => {
+      const silentFor = now - feed.lastMessageAt;
+      const threshold =
+        this.options.thresholds[feed.type] ?? this.options.staleAfter;
+
+      if (!feed.stale && silentFor >= threshold) {
+        feed.stale = true;
+        feed.staleSince = now;
+        this.emit("stale", { room: feed.room, type: feed.type, silentFor });
+      }
+
+      if (!feed.stale || this.options.recovery === "none") return;
+
+      const staleFor = now - (feed.lastRecoveryAt ?? feed.staleSince ?? now);
+      if (staleFor < this.options.recoverAfter) return;
+
+      feed.lastRecoveryAt = now;
+
+      if (this.options.recovery === "resubscribe") {
+        this.client.resubscribe(feed.room);
+        this.emit("recovery", { room: feed.room, action: "resubscribe" });
+      } else {
+        reconnect = true;
+        this.emit("recovery", { room: feed.room, action: "reconnect" });
+      }
+    });
+
+    if (reconnect) {
+      this.client.reconnect().catch(() => {
+        // Reconnection errors surface through the client's "error" event
+      });
+    }
+  }
+
+  /**
+   * Track new subscriptions and forget removed ones
+   */
+  private syncFeeds(now: number): void {
+    const subscriptions = this.client.getSubscriptions();
+    const rooms = new Set(subscriptions.map((subscription) => subscription.room));
+
+    this.feeds.forEach((_feed, room) => {
+      if (!rooms.has(room)) this.feeds.delete(room);
+    });
+
+    for (const { room, type } of subscriptions) {
+      if (this.feeds.has(room)) continue;
+      this.feeds.set(room, {
+        room,
+        type,
+        lastMessageAt: now,
+        messages: 0,
+        stale: false,
+        staleSince: null,
+        lastRecoveryAt: null,
+      });
+    }
+  }
+
+  /**
+   * Restart the silence clock after (re)connecting
+   */
+  private resetBaselines(): void {
+    const now = Date.now();
+    this.feeds.forEach((feed) => {
+      feed.lastMessageAt = now;
+      feed.lastRecoveryAt = null;
+    });
+  }
+
+  private addLatencySample(type: SubscriptionType, latency: number): void {
+    let samples = this.latency.get(type);
+    if (!samples) {
+      samples = [];
+      this.latency.set(type, samples);
+    }
+    samples.push(latency);
+    if (samples.length > this.options.latencySamples) samples.shift();
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+function attribute(
+  { event, data }: InboundMessage,
+  feeds: Map<string, FeedHealth>
+): Attribution | null {
+  const isUpdate = event.endsWith(":update");
+
+  switch (event) {
+    case "prices:snapshot":
+    case "prices:update": {
+      const prices = data as PriceData[];
+      const latest = Math.max(...prices.map((price) => price.lastUpdate));
+      return {
+        type: "prices",
+        rooms: ["prices:all", ...prices.map((price) => `price:${price.symbol}`)],
+        timestamp: isUpdate && prices.length > 0 ? latest : undefined,
+      };
+    }
+
+    case "price:snapshot":
+    case "price:update": {
+      const price = data as PriceData;
+      return {
+        type: "prices",
+        rooms: [`price:${price.symbol}`],
+        timestamp: isUpdate ? price.lastUpdate : undefined,
+      };
+    }
+
+    case "orderbook:snapshot":
+    case "orderbook:update": {
+      const book = data as OrderBook;
+      return {
+        type: "orderbook",
+        rooms: [`orderbook:${book.asset}`],
+        timestamp: isUpdate ? book.lastUpdate : undefined,
+      };
+    }
+
+    case "trades:snapshot":
+    case "trades:update": {
+      const { asset, trades } = data as { asset: string; trades: Trade[] };
+      const latest = Math.max(...trades.map((trade) => trade.timestamp));
+      return {
+        type: "trades",
+        rooms: [`trades:${asset}`],
+        timestamp: isUpdate && trades.length > 0 ? latest : undefined,
+      };
+    }
+
+    case "candle:snapshot": {
+      const { coin, interval } = data as { coin: string; interval: string };
+      return { type: "candles", rooms: [`candle:${coin}:${interval}`] };
+    }
+
+    case "candle:update": {
+      const candle = data as Candle;
+      if (candle.coin && candle.interval) {
+        return {
+          type: "candles",
+          rooms: [`candle:${candle.coin}:${candle.interval}`],
+        };
+      }
+      // Without coin/interval an update can only be attributed to a lone
+      // candle subscription
+      const candleFeeds = Array.from(feeds.values()).filter(
+        (feed) => feed.type === "candles"
+      );
+      return candleFeeds.length === 1
+        ? { type: "candles", rooms: [candleFeeds[0].room] }
+        : null;
+    }
+
+    default:
+      return null;
+  }
+}
+
+function computeStats(samples: number[]): LatencyStats {
+  if (samples.length === 0) {
+    return { count: 0, mean: 0, p50: 0, p99: 0, max: 0 };
+  }
+
+  const sorted = [...samples].sort((a, b) => a - b);
+  const percentile = (p: number) =>
+    sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+
+  return {
+    count: sorted.length,
+    mean: sorted.reduce((sum, value) => sum + value, 0) / sorted.length,
+    p50: percentile(50),
+    p99: percentile(99),
+    max: sorted[sorted.length - 1],
+  };
+}
@@ -0,0 +1,116 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// MSGPACK ENCODER
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Minimal MessagePack encoder for exchange actions. Produces the same bytes
+ * as Python's `msgpack.packb` (which Hyperliquid hashes actions with):
+ * smallest integer and length encodings, object keys in insertion order.
+ * Object keys with undefined values are omitted.
+ */
+export function encodeMsgpack(value: unknown): Uint8Array {
+  const bytes: number[] = [];
+  write(bytes, value);
+  return new Uint8Array(bytes);
+}
+
+function write(bytes: number[], value: unknown): void {
+  if (value === null || value === undefined) {
+    bytes.push(0xc0);
+  } else if (typeof value === "boolean") {
+    bytes.push(value ? 0xc3 : 0xc2);
+  } else if (typeof value === "number") {
+    if (Number.isInteger(value)) {
+      writeInteger(bytes, value);
+    } else {
+      writeFloat(bytes, value);
+    }
+  } else if (typeof value === "string") {
+    writeString(bytes, value);
+  } else if (Array.isArray(value)) {
+    writeHeader(bytes, value.length, 0x90, 16, 0xdc, 0xdd);
+    value.forEach((item) => write(bytes, item));
+  } else if (typeof value === "object") {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+    writeHeader(bytes, entries.length, 0x80, 16, 0xde, 0xdf);
+    entries.forEach(([key, entry]) => {
+      writeString(bytes, key);
+      write(bytes, entry);
+    });
+  } else {
+    throw new Error(`Cannot encode ${typeof value} as msgpack`);
+  }
+}
+
+function writeInteger(bytes: number[], value: number): void {
+  if (value >= 0) {
+    if (value < 0x80) bytes.push(value);
+    else if (value <= 0xff) bytes.push(0xcc, value);
+    else if (value <= 0xffff) pushUint(bytes, 0xcd, value, 2);
+    else if (value <= 0xffffffff) pushUint(bytes, 0xce, value, 4);
+    else pushUint(bytes, 0xcf, value, 8);
+    return;
+  }
+
+  if (value >= -32) bytes.push(value & 0xff);
+  else if (value >= -0x80) bytes.push(0xd0, value & 0xff);
+  else if (value >= -0x8000) pushUint(bytes, 0xd1, value, 2);
+  else if (value >= -0x80000000) pushUint(bytes, 0xd2, value, 4);
+  else pushUint(bytes, 0xd3, value, 8);
+}
+
+/**
+ * Big-endian two's complement integer after a type byte
+ */
+function pushUint(bytes: number[], type: number, value: number, size: number): void {
+  bytes.push(type);
+  const word = BigInt.asUintN(size * 8, BigInt(value));
+  for (let i = size - 1; i >= 0; i--) {
+    bytes.push(Number((word >> BigInt(i * 8)) & 0xffn));
+  }
+}
+
+function writeFloat(bytes: number[], value: number): void {
+  const view = new DataView(new ArrayBuffer(8));
+  view.setFloat64(0, value);
+  bytes.push(0xcb);
+  for (let i = 0; i < 8; i++) bytes.push(view.getUint8(i));
+}
+
+function writeString(bytes: number[], value: string): void {
+  const encoded = new TextEncoder().encode(value);
+  if (encoded.length < 32) {
+    bytes.push(0xa0 | encoded.length);
+  } else if (encoded.length <= 0xff) {
+    bytes.push(0xd9, encoded.length);
+  } else {
+    writeLength(bytes, encoded.length, 0xda, 0xdb);
+  }
+  encoded.forEach((byte) => bytes.push(byte));
+}
+
+/**
+ * Array or map header: fix form below `fixLimit`, else 16/32-bit length
+ */
+function writeHeader(
+  bytes: number[],
+  length: number,
+  fixType: number,
+  fixLimit: number,
+  type16: number,
+  type32: number
+): void {
+  if (length < fixLimit) {
+    bytes.push(fixType | length);
+  } else {
+    writeLength(bytes, length, type16, type32);
+  }
+}
+
+function writeLength(bytes: number[], length: number, type16: number, type32: number): void {
+  if (length <= 0xffff) {
+    pushUint(bytes, type16, length, 2);
+  } else {
+    pushUint(bytes, type32, length, 4);
+  }
+}
@@ -0,0 +1,468 @@
+import type { AssetRegistry } from "./assets";
+import {
+  Candle,
+  OpenOrder,
+  OrderBook,
+  OrderBookLevel,
+  OrderHistory,
+  Position,
+  PriceData,
+  Trade,
+  UserFunding,
+} from "./types";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HYPERLIQUID WIRE TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+// Payloads of Hyperliquid's public WebSocket and info API. Numbers arrive
+// as decimal strings.
+
+/** `allMids` channel */
+export interface HlAllMids {
+  mids: Record<string, string>;
+}
+
+/** Perp context from `activeAssetCtx` or `metaAndAssetCtxs` */
+export interface HlPerpAssetCtx {
+  dayNtlVlm: string;
+  prevDayPx: string;
+  markPx: string;
+  midPx: string | null;
+  funding: string;
+  openInterest: string;
+  oraclePx: string;
+}
+
+/** Spot context from `activeSpotAssetCtx` or `spotMetaAndAssetCtxs` */
+export interface HlSpotAssetCtx {
+  coin?: string;
+  dayNtlVlm: string;
+  prevDayPx: string;
+  markPx: string;
+  midPx: string | null;
+}
+
+/** `metaAndAssetCtxs` info response: contexts follow the universe order */
+export type HlMetaAndAssetCtxs = [{ universe: Array<{ name: string }> }, HlPerpAssetCtx[]];
+
+/** `spotMetaAndAssetCtxs` info response */
+export type HlSpotMetaAndAssetCtxs = [unknown, HlSpotAssetCtx[]];
+
+/** `activeAssetCtx` / `activeSpotAssetCtx` channels */
+export interface HlActiveAssetCtx {
+  coin: string;
+  ctx: HlPerpAssetCtx | HlSpotAssetCtx;
+}
+
+export interface HlBookLevel {
+  px: string;
+  sz: string;
+  n: number;
+}
+
+/** `l2Book` channel */
+export interface HlL2Book {
+  coin: string;
+  time: number;
+  levels: [HlBookLevel[], HlBookLevel[]];
+}
+
+/** `trades` channel entry */
+export interface HlTrade {
+  coin: string;
+  side: "B" | "A";
+  px: string;
+  sz: string;
+  time: number;
+  hash: string;
+  tid: number;
+  /** [buyer, seller] */
+  users?: [string, string];
+}
+
+/** `candle` channel */
+export interface HlCandle {
+  t: number;
+  T: number;
+  s: string;
+  i: string;
+  o: string;
+  c: string;
+  h: string;
+  l: string;
+  v: string;
+  n: number;
+}
+
+export interface HlPosition {
+  coin: string;
+  szi: string;
+  entryPx: string | null;
+  positionValue: string;
+  unrealizedPnl: string;
+  returnOnEquity: string;
+  liquidationPx: string | null;
+  leverage: { type: "cross" | "isolated"; value: number };
+}
+
+/** Perp account state from `webData2` or the `clearinghouseState` info request */
+export interface HlClearinghouseState {
+  assetPositions: Array<{ position: HlPosition }>;
+  marginSummary: { accountValue: string };
+  withdrawable?: string;
+  time?: number;
+}
+
+export interface HlOpenOrder {
+  coin: string;
+  side: "B" | "A";
+  limitPx: string;
+  sz: string;
+  oid: number;
+  timestamp: number;
+  origSz: string;
+  /** e.g. "Limit", "Stop Market", "Take Profit Limit" (frontend orders only) */
+  orderType?: string;
+}
+
+/** `webData2` channel (one user's state, pushed every block) */
+export interface HlWebData2 {
+  user: string;
+  clearinghouseState: HlClearinghouseState;
+  openOrders: HlOpenOrder[];
+}
+
+export interface HlFill {
+  coin: string;
+  px: string;
+  sz: string;
+  side: "B" | "A";
+  time: number;
+  dir: string;
+  closedPnl: string;
+  hash: string;
+  oid: number;
+  fee: string;
+  tid: number;
+  liquidation?: unknown;
+}
+
+/** `userFills` channel */
+export interface HlUserFills {
+  user: string;
+  isSnapshot?: boolean;
+  fills: HlFill[];
+}
+
+/** `userFundings` channel */
+export interface HlUserFundings {
+  user: string;
+  isSnapshot?: boolean;
+  fundings: UserFunding[];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MARKET DATA
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Mid prices for every asset. Mids carry no 24h statistics, so volume,
+ * change, funding and open interest are reported as 0.
+ */
+export function normalizeMids(
+  data: HlAllMids,
+  assets: AssetRegistry,
+  time: number = Date.now()
+): PriceData[] {
+  return Object.entries(data.mids).map(([coin, mid]) => ({
+    ...describe(coin, assets),
+    symbol: coin,
+    price: Number(mid),
+    volume24h: 0,
+    high24h: 0,
+    low24h: 0,
+    change24h: 0,
+    changePercent24h: 0,
+    fundingRate: 0,
+    openInterest: 0,
+    lastUpdate: time,
+  }));
+}
+
+/**
+ * Price and 24h statistics of one asset. Hyperliquid does not publish
+ * 24h high/low; they are reported as 0.
+ */
+export function normalizeAssetContext(
+  coin: string,
+  ctx: HlPerpAssetCtx | HlSpotAssetCtx,
+  assets: AssetRegistry,
+  time: number = Date.now()
+): PriceData {
+  const markPrice = Number(ctx.markPx);
+  const price = ctx.midPx != null ? Number(ctx.midPx) : markPrice;
+  const previous = Number(ctx.prevDayPx);
+  const change = previous > 0 ? price - previous : 0;
+  const perp = "funding" in ctx ? ctx : null;
+
+  const data: PriceData = {
+    ...describe(coin, assets),
+    symbol: coin,
+    price,
+    volume24h: Number(ctx.dayNtlVlm),
+    high24h: 0,
+    low24h: 0,
+    change24h: change,
+    changePercent24h: previous > 0 ? (change / previous) * 100 : 0,
+    fundingRate: perp ? Number(perp.funding) : 0,
+    // Open interest is quoted in contracts
+    openInterest: perp ? Number(perp.openInterest) * markPrice : 0,
+    lastUpdate: time,
+  };
+
+  if (perp) data.oraclePrice = Number(perp.oraclePx);
+  const maxLeverage = assets.get(coin)?.maxLeverage;
+  if (maxLeverage !== undefined) data.maxLeverage = maxLeverage;
+
+  return data;
+}
+
+/**
+ * Prices of every perp from a `metaAndAssetCtxs` response
+ */
+export function normalizePerpContexts(
+  [meta, contexts]: HlMetaAndAssetCtxs,
+  assets: AssetRegistry,
+  time: number = Date.now()
+): PriceData[] {
+  return meta.universe.map(({ name }, i) =>
+    normalizeAssetContext(name, contexts[i], assets, time)
+  );
+}
+
+/**
+ * Prices of every spot pair from a `spotMetaAndAssetCtxs` response
+ */
+export function normalizeSpotContexts(
+  [, contexts]: HlSpotMetaAndAssetCtxs,
+  assets: AssetRegistry,
+  time: number = Date.now()
+): PriceData[] {
+  return contexts
+    .filter((ctx) => ctx.coin !== undefined)
+    .map((ctx) => normalizeAssetContext(ctx.coin!, ctx, assets, time));
+}
+
+/**
+ * L2 book snapshot (Hyperliquid always sends the full visible book)
+ */
+export function normalizeBook(book: HlL2Book, assets: AssetRegistry): OrderBook {
+  const [bids, asks] = book.levels.map((levels) => levels.map(toBookLevel));
+  const bestBid = bids[0]?.price ?? 0;
+  const bestAsk = asks[0]?.price ?? 0;
+  const midPrice = bestBid && bestAsk ? (bestBid + bestAsk) / 2 : bestBid || bestAsk;
+  const spread = bestBid && bestAsk ? bestAsk - bestBid : 0;
+
+  return {
+    ...describe(book.coin, assets),
+    asset: book.coin,
+    bids,
+    asks,
+    spread,
+    spreadPercent: midPrice > 0 ? (spread / midPrice) * 100 : 0,
+    midPrice,
+    bestBid,
+    bestAsk,
+    lastUpdate: book.time,
+  };
+}
+
+/**
+ * Public trades. The trade side is the aggressor's; `user` is the taker.
+ */
+export function normalizeTrades(trades: HlTrade[], assets: AssetRegistry): Trade[] {
+  return trades.map((trade) => {
+    const price = Number(trade.px);
+    const size = Number(trade.sz);
+    const side = toSide(trade.side);
+
+    const normalized: Trade = {
+      ...describe(trade.coin, assets),
+      id: String(trade.tid),
+      asset: trade.coin,
+      price,
+      size,
+      side,
+      value: price * size,
+      timestamp: trade.time,
+      hash: trade.hash,
+    };
+
+    const taker = trade.users?.[side === "buy" ? 0 : 1];
+    if (taker) normalized.user = taker;
+    return normalized;
+  });
+}
+
+export function normalizeCandle(candle: HlCandle): Candle {
+  return {
+    time: candle.t,
+    open: Number(candle.o),
+    high: Number(candle.h),
+    low: Number(candle.l),
+    close: Number(candle.c),
+    volume: Number(candle.v),
+    coin: candle.s,
+    interval: candle.i,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// USER DATA
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Open perp positions
+ */
+export function normalizePositions(
+  state: HlClearinghouseState,
+  assets: AssetRegistry,
+  time: number = Date.now()
+): Position[] {
+  return state.assetPositions
+    .map(({ position }) => position)
+    .filter((position) => Number(position.szi) !== 0)
+    .map((position) => {
+      const signedSize = Number(position.szi);
+      const size = Math.abs(signedSize);
+
+      const normalized: Position = {
+        asset: position.coin,
+        displayName: describe(position.coin, assets).displayName,
+        side: signedSize > 0 ? "long" : "short",
+        size,
+        entryPrice: Number(position.entryPx ?? 0),
+        markPrice: Number(position.positionValue) / size,
+        pnl: Number(position.unrealizedPnl),
+        pnlPercent: Number(position.returnOnEquity) * 100,
+        leverage: position.leverage.value,
+        timestamp: state.time ?? time,
+      };
+
+      if (position.liquidationPx != null) {
+        normalized.liqPrice = Number(position.liquidationPx);
+      }
+      return normalized;
+    });
+}
+
+/**
+ * Account value in USDC
+ */
+export function normalizeBalance(state: HlClearinghouseState): number {
+  return Number(state.marginSummary.accountValue);
+}
+
+export function normalizeOpenOrder(order: HlOpenOrder, assets: AssetRegistry): OpenOrder {
+  const amount = Number(order.origSz);
+  const remaining = Number(order.sz);
+
+  return {
+    id: String(order.oid),
+    asset: order.coin,
+    displayName: describe(order.coin, assets).displayName,
+    side: toSide(order.side),
+    type: toOrderType(order.orderType),
+    price: Number(order.limitPx),
+    amount,
+    filled: amount - remaining,
+    remaining,
+    timestamp: order.timestamp,
+  };
+}
+
+/**
+ * One fill of an order. Hyperliquid reports fills, not orders: `amount`
+ * and `filled` are the fill size.
+ */
+export function normalizeFill(fill: HlFill, assets: AssetRegistry): OrderHistory {
+  const size = Number(fill.sz);
+  const liquidation = fill.liquidation != null || fill.dir.startsWith("Liquidat");
+
+  const normalized: OrderHistory = {
+    id: String(fill.oid),
+    asset: fill.coin,
+    displayName: describe(fill.coin, assets).displayName,
+    side: toSide(fill.side),
+    type: "limit",
+    price: Number(fill.px),
+    amount: size,
+    filled: size,
+    status: liquidation ? "liquidated" : "filled",
+    timestamp: fill.time,
+    txHash: fill.hash,
+    fee: Number(fill.fee),
+  };
+
+  const direction = liquidation ? "liquidation" : FILL_DIRECTIONS[fill.dir];
+  if (direction) normalized.direction = direction;
+
+  const closedPnl = Number(fill.closedPnl);
+  if (closedPnl !== 0) normalized.closedPnl = closedPnl;
+
+  return normalized;
+}
+
+export function normalizeFunding(funding: UserFunding): UserFunding {
+  const { time, coin, usdc, szi, fundingRate } = funding;
+  return { time, coin, usdc, szi, fundingRate };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+const FILL_DIRECTIONS: Record<string, OrderHistory["direction"]> = {
+  "Open Long": "open_long",
+  "Open Short": "open_short",
+  "Close Long": "close_long",
+  "Close Short": "close_short",
+  Buy: "buy",
+  Sell: "sell",
+};
+
+/**
+ * Display name and type from the registry; unknown coins fall back to
+ * their raw name, spot pairs being "@<n>" or "BASE/QUOTE"
+ */
+function describe(
+  coin: string,
+  assets: AssetRegistry
+): { displayName: string; type: "perp" | "spot" } {
+  const info = assets.get(coin);
+  if (info) return { displayName: info.displayName, type: info.type };
+  return {
+    displayName: coin,
+    type: coin.startsWith("@") || coin.includes("/") ? "spot" : "perp",
+  };
+}
+
+function toBookLevel(level: HlBookLevel): OrderBookLevel {
+  const price = Number(level.px);
+  const size = Number(level.sz);
+  return { price, size, total: price * size, orders: level.n };
+}
+
+function toSide(side: "B" | "A"): "buy" | "sell" {
+  return side === "B" ? "buy" : "sell";
+}
+
+function toOrderType(orderType?: string): OpenOrder["type"] {
+  if (!orderType) return "limit";
+  const type = orderType.toLowerCase();
+  if (type.includes("stop") || type.includes("take profit")) {
+    return type.includes("market") ? "stop" : "stop_limit";
+  }
+  return type === "market" ? "market" : "limit";
+}
@@ -0,0 +1,273 @@
+import type { HyperliquidClient } from "./client";
+import {
+  OrderBook,
+  OrderBookLevel,
+  BookSide,
+  DepthSummary,
+  FillEstimate,
+  GroupedOrderBook,
+} from "./types";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ORDER BOOK STORE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * OrderBookStore - Keeps the latest order book per asset and answers
+ * depth, VWAP, slippage, imbalance and price grouping queries.
+ *
+ * Queries return `undefined` for assets without a book yet.
+ *
+ * @example
+ * ```typescript
+ * const books = new OrderBookStore(client);
+ * client.subscribeOrderBook('BTC');
+ *
+ * client.on('orderbook', () => {
+ *   const fill = books.estimateFill('BTC', 'buy', 2);
+ *   console.log('Avg price:', fill?.averagePrice, 'slippage:', fill?.slippageBps, 'bps');
+ * });
+ * ```
+ */
+export class OrderBookStore {
+  private books = new Map<string, OrderBook>();
+  private client: HyperliquidClient | null = null;
+  private readonly handleOrderBook = (book: OrderBook) => this.update(book);
+
+  /**
+   * @param client - Optional client to follow "orderbook" events from
+   */
+  constructor(client?: HyperliquidClient) {
+    if (client) {
+      this.client = client;
+      client.on("orderbook", this.handleOrderBook);
+    }
+  }
+
+  /**
+   * Store a snapshot or update for an asset (replaces the previous book)
+   */
+  update(book: OrderBook): void {
+    this.books.set(book.asset, book);
+  }
+
+  /**
+   * Get the latest book for an asset
+   */
+  get(asset: string): OrderBook | undefined {
+    return this.books.get(asset);
+  }
+
+  /**
+   * Get every asset with a stored book
+   */
+  getAssets(): string[] {
+    return Array.from(this.books.keys());
+  }
+
+  /**
+   * Remove the stored book for an asset, or every book if no asset is given
+   */
+  clear(asset?: string): void {
+    if (asset) {
+      this.books.delete(asset);
+    } else {
+      this.books.clear();
+    }
+  }
+
+  /**
+   * Stop following the client and drop all books
+   */
+  destroy(): void {
+    this.client?.off("orderbook", this.handleOrderBook);
+    this.client = null;
+    this.books.clear();
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // QUERIES
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Cumulative size and value on each side within N basis points of mid
+   * @param asset - Asset symbol
+   * @param bps - Distance from mid in basis points (e.g., 10 = 0.1%)
+   */
+  getDepth(asset: string, bps: number): DepthSummary | undefined {
+    const book = this.books.get(asset);
+    if (!book) return undefined;
+
+    const mid = midPrice(book);
+    const minBid = mid * (1 - bps / 10_000);
+    const maxAsk = mid * (1 + bps / 10_000);
+
+    const bids = book.bids.filter((level) => level.price >= minBid);
+    const asks = book.asks.filter((level) => level.price <= maxAsk);
+
+    return {
+      asset,
+      bps,
+      bidSize: sumSize(bids),
+      askSize: sumSize(asks),
+      bidNotional: sumNotional(bids),
+      askNotional: sumNotional(asks),
+    };
+  }
+
+  /**
+   * Estimate average fill price and slippage for a market order.
+   * Buys walk the asks, sells walk the bids.
+   * @param asset - Asset symbol
+   * @param side - Order side
+   * @param size - Order size in base units
+   */
+  estimateFill(
+    asset: string,
+    side: BookSide,
+    size: number
+  ): FillEstimate | undefined {
+    const book = this.books.get(asset);
+    if (!book) return undefined;
+
+    const levels = side === "buy" ? book.asks : book.bids;
+    let remaining = size;
+    let notional = 0;
+    let worstPrice = levels[0]?.price ?? 0;
+
+    for (const level of levels) {
+      if (remaining <= 0) break;
+      const take = Math.min(remaining, level.size);
+      notional += take * level.price;
+      remaining -= take;
+      worstPrice = level.price;
+    }
+
+    const filledSize = size - Math.max(remaining, 0);
+    const averagePrice = filledSize > 0 ? notional / filledSize : 0;
+    const mid = midPrice(book);
+    const slippage = filledSize > 0 ? Math.abs(averagePrice - mid) : 0;
+
+    return {
+      asset,
+      side,
+      size,
+      filledSize,
+      complete: remaining <= 0,
+      averagePrice,
+      worstPrice,
+      notional,
+      slippage,
+      slippageBps: mid > 0 ? (slippage / mid) * 10_000 : 0,
+    };
+  }
+
+  /**
+   * Volume-weighted average price to fill a size (shorthand for estimateFill)
+   */
+  getVwap(asset: string, side: BookSide, size: number): number | undefined {
+    return this.estimateFill(asset, side, size)?.averagePrice;
+  }
+
+  /**
+   * Bid/ask size imbalance between -1 (all asks) and 1 (all bids)
+   * @param asset - Asset symbol
+   * @param levels - Number of levels per side to include (default: all)
+   */
+  getImbalance(asset: string, levels?: number): number | undefined {
+    const book = this.books.get(asset);
+    if (!book) return undefined;
+
+    const bidSize = sumSize(book.bids.slice(0, levels));
+    const askSize = sumSize(book.asks.slice(0, levels));
+    const total = bidSize + askSize;
+
+    return total > 0 ? (bidSize - askSize) / total : 0;
+  }
+
+  /**
+   * Aggregate levels into coarser price buckets.
+   * Bids round down and asks round up, so buckets never cross the spread.
+   * @param asset - Asset symbol
+   * @param tickSize - Bucket size in USD (e.g., 10 groups BTC into $10 levels)
+   */
+  groupLevels(asset: string, tickSize: number): GroupedOrderBook | undefined {
+    const book = this.books.get(asset);
+    if (!book) return undefined;
+
+    if (!(tickSize > 0)) {
+      throw new Error("tickSize must be greater than 0");
+    }
+
+    return {
+      asset,
+      tickSize,
+      bids: groupSide(book.bids, tickSize, "down"),
+      asks: groupSide(book.asks, tickSize, "up"),
+    };
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+function midPrice(book: OrderBook): number {
+  if (book.midPrice > 0) return book.midPrice;
+  const bestBid = book.bids[0]?.price ?? 0;
+  const bestAsk = book.asks[0]?.price ?? 0;
+  return bestBid && bestAsk ? (bestBid + bestAsk) / 2 : bestBid || bestAsk;
+}
+
+function sumSize(levels: OrderBookLevel[]): number {
+  return levels.reduce((sum, level) => sum + level.size, 0);
+}
+
+function sumNotional(levels: OrderBookLevel[]): number {
+  return levels.reduce((sum, level) => sum + level.price * level.size, 0);
+}
+
+function groupSide(
+  levels: OrderBookLevel[],
+  tickSize: number,
+  direction: "down" | "up"
+): OrderBookLevel[] {
+  const decimals = countDecimals(tickSize);
+  const buckets = new Map<number, OrderBookLevel>();
+
+  for (const level of levels) {
+    // Epsilon keeps prices already on a bucket boundary from shifting a tick
+    const steps =
+      direction === "down"
+        ? Math.floor(level.price / tickSize + 1e-9)
+        : Math.ceil(level.price / tickSize - 1e-9);
+    const price = Number((steps * tickSize).toFixed(decimals));
+    const bucket = buckets.get(price);
+
+    if (bucket) {
+      bucket.size += level.size;
+      bucket.total += level.price * level.size;
+      bucket.orders += level.orders;
+    } else {
+      buckets.set(price, {
+        price,
+        size: level.size,
+        total: level.price * level.size,
+        orders: level.orders,
+      });
+    }
+  }
+
+  // Input levels are already sorted best-first, and so are the buckets
+  return Array.from(buckets.values());
+}
+
+/**
+ * Decimal places of a number, read from its exponential form so that
+ * values printed like 1e-7 count too
+ */
+function countDecimals(value: number): number {
+  const [mantissa, exponent] = value.toExponential().split("e");
+  const [, fraction = ""] = mantissa.split(".");
+  return Math.max(0, fraction.length - Number(exponent));
+}
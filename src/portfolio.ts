@@ -0,0 +1,217 @@
+import type { HyperliquidClient } from "./client";
+import { AccountState } from "./account";
+import { TypedEmitter, ListenerGroup } from "./emitter";
+import {
+  AccountSnapshot,
+  AssetExposure,
+  ClientEvents,
+  PortfolioEvents,
+  PortfolioSnapshot,
+  PortfolioTotals,
+  WalletPosition,
+} from "./types";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PORTFOLIO STATE
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface TrackedAccount {
+  wallet: string;
+  account: AccountState;
+}
+
+/**
+ * PortfolioState - Keeps one AccountState per wallet the client tracks and
+ * aggregates positions, balances and exposure across all of them.
+ *
+ * Wallets are added when the client authenticates them and dropped on
+ * `client.unauthenticate(wallet)` or `client.disconnect()`.
+ *
+ * @example
+ * ```typescript
+ * const portfolio = new PortfolioState(client);
+ *
+ * await client.authenticate('0xmain...');
+ * await client.authenticate('0xvault...');
+ *
+ * portfolio.on('portfolioChanged', ({ wallet, reason, portfolio }) => {
+ *   console.log(wallet, reason, portfolio.totals.balance, portfolio.totals.unrealizedPnl);
+ * });
+ *
+ * portfolio.getExposure(); // Net size per asset across wallets
+ * ```
+ */
+export class PortfolioState extends TypedEmitter<PortfolioEvents> {
+  private accounts = new Map<string, TrackedAccount>();
+  private listeners: ListenerGroup<ClientEvents>;
+
+  constructor(private client: HyperliquidClient) {
+    super();
+
+    this.listeners = new ListenerGroup<ClientEvents>(client);
+    this.listeners.on("authenticated", ({ wallet }) => this.addWallet(wallet));
+    this.listeners.on("unauthenticated", ({ wallet }) =>
+      this.removeWallet(wallet)
+    );
+
+    client.getAuthenticatedWallets().forEach((wallet) => this.addWallet(wallet));
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // GETTERS
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Tracked wallets
+   */
+  getWallets(): string[] {
+    return Array.from(this.accounts.values(), ({ wallet }) => wallet);
+  }
+
+  /**
+   * Account state for one wallet
+   */
+  getAccount(wallet: string): AccountState | undefined {
+    return this.accounts.get(wallet.toLowerCase())?.account;
+  }
+
+  /**
+   * Positions across every wallet
+   */
+  getPositions(): WalletPosition[] {
+    const positions: WalletPosition[] = [];
+    this.accounts.forEach(({ wallet, account }) => {
+      account
+        .getPositions()
+        .forEach((position) => positions.push({ ...position, wallet }));
+    });
+    return positions;
+  }
+
+  /**
+   * Balance per wallet (null until received)
+   */
+  getBalances(): Record<string, number | null> {
+    const balances: Record<string, number | null> = {};
+    this.accounts.forEach(({ wallet, account }) => {
+      balances[wallet] = account.getBalance();
+    });
+    return balances;
+  }
+
+  /**
+   * Net exposure per asset across wallets
+   */
+  getExposure(): AssetExposure[] {
+    const exposure = new Map<string, AssetExposure>();
+
+    this.getPositions().forEach((position) => {
+      let entry = exposure.get(position.asset);
+      if (!entry) {
+        entry = {
+          asset: position.asset,
+          netSize: 0,
+          notional: 0,
+          netNotional: 0,
+          unrealizedPnl: 0,
+          wallets: [],
+        };
+        exposure.set(position.asset, entry);
+      }
+
+      const size = Math.abs(position.size);
+      const direction = position.side === "long" ? 1 : -1;
+      const value = size * position.markPrice;
+
+      entry.netSize += size * direction;
+      entry.notional += value;
+      entry.netNotional += value * direction;
+      entry.unrealizedPnl += position.pnl;
+      entry.wallets.push(position.wallet);
+    });
+
+    return Array.from(exposure.values());
+  }
+
+  /**
+   * Totals across every wallet
+   */
+  getTotals(): PortfolioTotals {
+    const totals: PortfolioTotals = {
+      balance: 0,
+      unrealizedPnl: 0,
+      notional: 0,
+      netNotional: 0,
+      effectiveLeverage: null,
+      totalFunding: 0,
+    };
+
+    this.accounts.forEach(({ account }) => {
+      const accountTotals = account.getTotals();
+      totals.balance += account.getBalance() ?? 0;
+      totals.unrealizedPnl += accountTotals.unrealizedPnl;
+      totals.notional += accountTotals.notional;
+      totals.netNotional += accountTotals.netNotional;
+      totals.totalFunding += accountTotals.totalFunding;
+    });
+
+    if (totals.balance > 0) {
+      totals.effectiveLeverage = totals.notional / totals.balance;
+    }
+
+    return totals;
+  }
+
+  /**
+   * Full point-in-time view of every wallet
+   */
+  getSnapshot(): PortfolioSnapshot {
+    const accounts: Record<string, AccountSnapshot> = {};
+    this.accounts.forEach(({ wallet, account }) => {
+      accounts[wallet] = account.getSnapshot();
+    });
+
+    return {
+      accounts,
+      positions: this.getPositions(),
+      exposure: this.getExposure(),
+      totals: this.getTotals(),
+    };
+  }
+
+  /**
+   * Stop following the client
+   */
+  destroy(): void {
+    this.listeners.removeAll();
+    this.accounts.forEach(({ account }) => account.destroy());
+    this.accounts.clear();
+    this.removeAllListeners();
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // PRIVATE METHODS
+  // ═══════════════════════════════════════════════════════════════════════
+
+  private addWallet(wallet: string): void {
+    const key = wallet.toLowerCase();
+    if (this.accounts.has(key)) return;
+
+    const account = new AccountState(this.client, { wallet });
+    account.on("accountChanged", ({ reason }) => {
+      this.emit("portfolioChanged", {
+        wallet,
+        reason,
+        portfolio: this.getSnapshot(),
+      });
+    });
+
+    this.accounts.set(key, { wallet, account });
+  }
+
+  private removeWallet(wallet: string): void {
+    const key = wallet.toLowerCase();
+    this.accounts.get(key)?.account.destroy();
+    this.accounts.delete(key);
+  }
+}
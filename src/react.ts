@@ -0,0 +1,432 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// @nylium/hyperliquid-sdk/react
+// React provider and hooks with shared, reference-counted subscriptions
+// ═══════════════════════════════════════════════════════════════════════════
+
+import {
+  createContext,
+  createElement,
+  ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import { AccountState } from "./account";
+import { HyperliquidClient } from "./client";
+import { ListenerGroup } from "./emitter";
+import {
+  Candle,
+  ClientEvents,
+  ClientOptions,
+  ConnectionState,
+  OrderBook,
+  Position,
+  PriceData,
+  SubscriptionParams,
+  SubscriptionType,
+  Trade,
+} from "./types";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SHARED FEEDS
+// ═══════════════════════════════════════════════════════════════════════════
+
+const MAX_TRADES = 1000;
+const MAX_CANDLES = 5000;
+const POSITIONS_KEY = "positions";
+
+const NO_PRICES: Record<string, PriceData> = {};
+const NO_TRADES: Trade[] = [];
+const NO_CANDLES: Candle[] = [];
+const NO_POSITIONS: Position[] = [];
+
+/**
+ * How a feed subscribes and folds client events into its value
+ */
+interface FeedSource<T> {
+  /** Value until data arrives; must be the same object on every call */
+  initial: T;
+  /** Subscribe and listen; returns the function that undoes it */
+  start(client: HyperliquidClient, update: (next: (value: T) => T) => void): () => void;
+}
+
+interface Feed<T> {
+  value: T;
+  handlers: Set<() => void>;
+  stop: () => void;
+}
+
+/**
+ * Feeds of one client, keyed by room. A feed starts with its first handler
+ * and stops (releasing the room) when the last one is removed, so
+ * components on the same data share one subscription and one value.
+ */
+class FeedRegistry {
+  private feeds = new Map<string, Feed<unknown>>();
+
+  constructor(readonly client: HyperliquidClient) {}
+
+  /**
+   * Add a handler to a feed, starting it if needed
+   * @returns Function removing the handler
+   */
+  retain<T>(key: string, source: FeedSource<T>, onChange: () => void): () => void {
+    let feed = this.feed<T>(key);
+    if (!feed) {
+      const created: Feed<T> = { value: source.initial, handlers: new Set(), stop: () => {} };
+      created.stop = source.start(this.client, (next) => {
+        created.value = next(created.value);
+        created.handlers.forEach((handler) => handler());
+      });
+      // Registered once started: a source that throws leaves no feed behind
+      this.feeds.set(key, created);
+      feed = created;
+    }
+
+    // Wrapped so the same callback retained twice counts twice
+    const handler = () => onChange();
+    feed.handlers.add(handler);
+
+    return () => {
+      feed!.handlers.delete(handler);
+      if (feed!.handlers.size === 0 && this.feeds.get(key) === feed) {
+        this.feeds.delete(key);
+        feed!.stop();
+      }
+    };
+  }
+
+  /**
+   * Current value of a feed, or the source's initial value if not running
+   */
+  getValue<T>(key: string, source: FeedSource<T>): T {
+    const feed = this.feed<T>(key);
+    return feed ? feed.value : source.initial;
+  }
+
+  /**
+   * Feed under a key; its value type is fixed by the key's source
+   */
+  private feed<T>(key: string): Feed<T> | undefined {
+    return this.feeds.get(key) as Feed<T> | undefined;
+  }
+}
+
+/**
+ * Hold a room with client.retain() and follow client events with `listen`;
+ * both are undone when the feed stops. The room stays subscribed while a
+ * stream, the relay or a direct subscription still needs it.
+ */
+function roomSource<T>(
+  initial: T,
+  type: SubscriptionType,
+  params: SubscriptionParams,
+  listen: (
+    listeners: ListenerGroup<ClientEvents>,
+    update: (next: (value: T) => T) => void,
+    client: HyperliquidClient
+  ) => void
+): FeedSource<T> {
+  return {
+    initial,
+    start(client, update) {
+      const listeners = new ListenerGroup<ClientEvents>(client);
+      listen(listeners, update, client);
+      const release = client.retain(type, params);
+      return () => {
+        listeners.removeAll();
+        release();
+      };
+    },
+  };
+}
+
+const pricesSource = roomSource(
+  NO_PRICES,
+  "prices",
+  {},
+  (listeners, update) => {
+    listeners.on("prices", (prices) =>
+      update((value) => {
+        const next = { ...value };
+        prices.forEach((price) => (next[price.symbol] = price));
+        return next;
+      })
+    );
+    listeners.on("price", (price) => update((value) => ({ ...value, [price.symbol]: price })));
+  }
+);
+
+function priceSource(symbol: string): FeedSource<PriceData | undefined> {
+  return roomSource<PriceData | undefined>(
+    undefined,
+    "prices",
+    { asset: symbol },
+    (listeners, update) => {
+      listeners.on("price", (price) => {
+        if (price.symbol === symbol) update(() => price);
+      });
+      listeners.on("prices", (prices) => {
+        const price = prices.find((p) => p.symbol === symbol);
+        if (price) update(() => price);
+      });
+    }
+  );
+}
+
+function orderBookSource(symbol: string): FeedSource<OrderBook | undefined> {
+  return roomSource<OrderBook | undefined>(
+    undefined,
+    "orderbook",
+    { asset: symbol },
+    (listeners, update) => {
+      listeners.on("orderbook", (book) => {
+        if (book.asset === symbol) update(() => book);
+      });
+    }
+  );
+}
+
+function tradesSource(symbol: string): FeedSource<Trade[]> {
+  return roomSource(
+    NO_TRADES,
+    "trades",
+    { asset: symbol },
+    (listeners, update) => {
+      listeners.on("trades", ({ asset, trades }) => {
+        if (asset !== symbol) return;
+        update((value) => {
+          // Snapshots resent after a reconnect repeat known trades
+          const known = new Set(value.map((trade) => trade.id));
+          const fresh = trades
+            .filter((trade) => !known.has(trade.id))
+            .sort((a, b) => b.timestamp - a.timestamp);
+          return fresh.length ? [...fresh, ...value].slice(0, MAX_TRADES) : value;
+        });
+      });
+    }
+  );
+}
+
+function candlesSource(symbol: string, interval: string): FeedSource<Candle[]> {
+  return roomSource(
+    NO_CANDLES,
+    "candles",
+    { asset: symbol, interval },
+    (listeners, update, client) => {
+      listeners.on("candles", ({ coin, interval: snapshotInterval, candles }) => {
+        if (coin !== symbol || snapshotInterval !== interval) return;
+        update(() => [...candles].sort((a, b) => a.time - b.time).slice(-MAX_CANDLES));
+      });
+      listeners.on("candle", (candle) => {
+        if (candle.coin !== undefined && candle.coin !== symbol) return;
+        if (candle.interval !== undefined && candle.interval !== interval) return;
+        // Candles without coin/interval can only be attributed to a lone
+        // candle subscription
+        if (
+          (candle.coin === undefined || candle.interval === undefined) &&
+          client.getSubscriptions().filter(({ type }) => type === "candles").length > 1
+        ) {
+          return;
+        }
+        update((value) => mergeCandle(value, candle));
+      });
+    }
+  );
+}
+
+const positionsSource: FeedSource<Position[]> = {
+  initial: NO_POSITIONS,
+  start(client, update) {
+    const account = new AccountState(client);
+    account.on("accountChanged", ({ reason, account: snapshot }) => {
+      if (reason === "positions" || reason === "prices" || reason === "reset") {
+        update(() => snapshot.positions);
+      }
+    });
+    return () => account.destroy();
+  },
+};
+
+function mergeCandle(candles: Candle[], candle: Candle): Candle[] {
+  const last = candles[candles.length - 1];
+  if (!last || candle.time > last.time) {
+    return [...candles, candle].slice(-MAX_CANDLES);
+  }
+  if (candle.time === last.time) {
+    return [...candles.slice(0, -1), candle];
+  }
+
+  const index = candles.findIndex((c) => c.time >= candle.time);
+  const next = [...candles];
+  next.splice(index, candles[index].time === candle.time ? 1 : 0, candle);
+  return next;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PROVIDER
+// ═══════════════════════════════════════════════════════════════════════════
+
+const HyperliquidContext = createContext<FeedRegistry | null>(null);
+
+/**
+ * HyperliquidProvider props
+ */
+export interface HyperliquidProviderProps {
+  /** Client to share; the provider neither connects nor disconnects it */
+  client?: HyperliquidClient;
+  /** Options of the client the provider creates when `client` is omitted */
+  options?: ClientOptions;
+  /** Connect the created client on mount (default: true) */
+  autoConnect?: boolean;
+  children?: ReactNode;
+}
+
+/**
+ * HyperliquidProvider - Shares one client with the hooks below it.
+ *
+ * Without a `client` prop it creates one from `options`, connects it on
+ * mount and disconnects it on unmount. Positions are followed for as long
+ * as the provider is mounted, so mount it before authenticating.
+ *
+ * @example
+ * ```tsx
+ * <HyperliquidProvider options={{ network: 'mainnet' }}>
+ *   <Terminal />
+ * </HyperliquidProvider>
+ * ```
+ */
+export function HyperliquidProvider({
+  client,
+  options,
+  autoConnect = true,
+  children,
+}: HyperliquidProviderProps) {
+  const [owned] = useState(() => (client ? null : new HyperliquidClient(options)));
+  const instance = client ?? owned!;
+  const registry = useMemo(() => new FeedRegistry(instance), [instance]);
+
+  useEffect(() => {
+    if (!owned) return;
+    if (autoConnect) {
+      owned.connect().catch(() => {
+        // Reported through the client's "error" event
+      });
+    }
+    return () => owned.disconnect();
+  }, [owned, autoConnect]);
+
+  useEffect(() => registry.retain(POSITIONS_KEY, positionsSource, () => {}), [registry]);
+
+  return createElement(HyperliquidContext.Provider, { value: registry }, children);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HOOKS
+// ═══════════════════════════════════════════════════════════════════════════
+
+function useRegistry(): FeedRegistry {
+  const registry = useContext(HyperliquidContext);
+  if (!registry) {
+    throw new Error("Hyperliquid hooks must be used inside a HyperliquidProvider");
+  }
+  return registry;
+}
+
+function useFeed<T>(key: string, source: FeedSource<T>): T {
+  const registry = useRegistry();
+  // The source only matters when the feed starts, and is fixed by the key
+  const subscribe = useCallback(
+    (onChange: () => void) => registry.retain(key, source, onChange),
+    [registry, key]
+  );
+  const getValue = () => registry.getValue(key, source);
+  return useSyncExternalStore(subscribe, getValue, getValue);
+}
+
+function useSymbol(asset: string): string {
+  const { client } = useRegistry();
+  return client.getAssetRegistry().get(asset)?.symbol ?? asset;
+}
+
+/**
+ * The provider's client, for requests and authentication
+ */
+export function useClient(): HyperliquidClient {
+  return useRegistry().client;
+}
+
+/**
+ * Connection state, updated on every change
+ */
+export function useConnectionState(): ConnectionState {
+  const client = useClient();
+  const subscribe = useCallback(
+    (onChange: () => void) => {
+      client.on("stateChange", onChange);
+      return () => client.off("stateChange", onChange);
+    },
+    [client]
+  );
+  const getState = () => client.getState();
+  return useSyncExternalStore(subscribe, getState, getState);
+}
+
+/**
+ * Every asset's latest price, keyed by symbol
+ *
+ * @example
+ * ```tsx
+ * const prices = usePrices();
+ * return <span>{prices.BTC?.price}</span>;
+ * ```
+ */
+export function usePrices(): Record<string, PriceData> {
+  return useFeed("prices:all", pricesSource);
+}
+
+/**
+ * Latest price of one asset (undefined until received)
+ */
+export function usePrice(asset: string): PriceData | undefined {
+  const symbol = useSymbol(asset);
+  return useFeed(`price:${symbol}`, priceSource(symbol));
+}
+
+/**
+ * Latest order book of one asset (undefined until received)
+ */
+export function useOrderBook(asset: string): OrderBook | undefined {
+  const symbol = useSymbol(asset);
+  return useFeed(`orderbook:${symbol}`, orderBookSource(symbol));
+}
+
+/**
+ * Recent trades of one asset, newest first
+ * @param limit - Maximum trades returned (default: 100, at most 1000)
+ */
+export function useTrades(asset: string, limit: number = 100): Trade[] {
+  const symbol = useSymbol(asset);
+  const trades = useFeed(`trades:${symbol}`, tradesSource(symbol));
+  return useMemo(() => trades.slice(0, limit), [trades, limit]);
+}
+
+/**
+ * Candles of one asset and interval, oldest first (at most 5000). The
+ * forming candle is updated in place.
+ */
+export function useCandles(asset: string, interval: string): Candle[] {
+  const symbol = useSymbol(asset);
+  return useFeed(`candle:${symbol}:${interval}`, candlesSource(symbol, interval));
+}
+
+/**
+ * Open positions of the authenticated wallet, marked to live prices when
+ * prices are subscribed
+ */
+export function usePositions(): Position[] {
+  return useFeed(POSITIONS_KEY, positionsSource);
+}
@@ -0,0 +1,550 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// @nylium/hyperliquid-sdk/relay
+// Local socket.io relay sharing one upstream connection between processes
+// ═══════════════════════════════════════════════════════════════════════════
+
+import { createServer, Server as HttpServer } from "http";
+import type { AddressInfo } from "net";
+import { Server, Socket } from "socket.io";
+import { HyperliquidClient } from "./client";
+import { ListenerGroup } from "./emitter";
+import {
+  Candle,
+  ClientEvents,
+  ClientOptions,
+  InboundMessage,
+  OrderBook,
+  PriceData,
+  SubscriptionType,
+  Trade,
+} from "./types";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Relay options
+ */
+export interface RelayOptions {
+  /** Port to listen on (default: 0, a random free port) */
+  port?: number;
+  /** Interface to listen on (default: "127.0.0.1") */
+  host?: string;
+  /**
+   * Upstream client to share. It should be created with
+   * `validateAssets: false` so room names pass through unchanged.
+   * The relay connects it on start but never disconnects it.
+   */
+  client?: HyperliquidClient;
+  /** Options of the upstream client the relay creates when `client` is omitted */
+  clientOptions?: ClientOptions;
+  /** Trades kept per room for late joiners (default: 100) */
+  maxTrades?: number;
+  /** Candles kept per room for late joiners (default: 1000) */
+  maxCandles?: number;
+}
+
+/**
+ * Room served by the relay
+ */
+export interface RelayRoom {
+  /** Room name (e.g., "orderbook:BTC") */
+  room: string;
+  /** Downstream sockets in the room */
+  clients: number;
+  /** Whether data was received for it, so late joiners get a snapshot */
+  cached: boolean;
+}
+
+type RoomType = "price" | "orderbook" | "trades" | "candle";
+
+/**
+ * Latest state of a room, replayed to late joiners as a snapshot
+ */
+type RoomCache =
+  | { event: "prices:snapshot"; prices: Map<string, PriceData> }
+  | { event: "price:snapshot"; price: PriceData }
+  | { event: "orderbook:snapshot"; book: OrderBook }
+  | { event: "trades:snapshot"; asset: string; trades: Trade[] }
+  | { event: "candle:snapshot"; coin: string; interval: string; candles: Candle[] };
+
+interface RoomState {
+  sockets: Set<string>;
+  cache?: RoomCache;
+  /** Releases the upstream subscription */
+  release: () => void;
+}
+
+/** Upstream subscription kind per room type */
+const UPSTREAM_TYPES: Record<RoomType, SubscriptionType> = {
+  price: "prices",
+  orderbook: "orderbook",
+  trades: "trades",
+  candle: "candles",
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RELAY
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * NyliumRelay - Re-serves the Nylium socket.io protocol from one upstream
+ * client, so many local processes share a single connection.
+ *
+ * Downstream `subscribe:*` requests for the same room share one upstream
+ * subscription, which is dropped when the last downstream socket leaves.
+ * The latest data of each room is cached and sent as a `*:snapshot` to
+ * late joiners. Price, candle and trade history requests are forwarded
+ * upstream; authentication is not relayed.
+ *
+ * @example
+ * ```typescript
+ * import { NyliumRelay } from '@nylium/hyperliquid-sdk/relay';
+ *
+ * const relay = new NyliumRelay({ port: 4100, clientOptions: { network: 'mainnet' } });
+ * await relay.start();
+ *
+ * // In any other process
+ * const client = new HyperliquidClient({ url: 'http://127.0.0.1:4100' });
+ * ```
+ */
+export class NyliumRelay {
+  private httpServer: HttpServer | null = null;
+  private io: Server | null = null;
+  private port: number;
+  private host: string;
+  private client: HyperliquidClient;
+  private ownsClient: boolean;
+  private maxTrades: number;
+  private maxCandles: number;
+  private listeners: ListenerGroup<ClientEvents> | null = null;
+  private rooms = new Map<string, RoomState>();
+
+  constructor(options?: RelayOptions) {
+    this.port = options?.port ?? 0;
+    this.host = options?.host ?? "127.0.0.1";
+    this.ownsClient = !options?.client;
+    this.client =
+      options?.client ??
+      new HyperliquidClient({ ...options?.clientOptions, validateAssets: false });
+    this.maxTrades = options?.maxTrades ?? 100;
+    this.maxCandles = options?.maxCandles ?? 1000;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // LIFECYCLE
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Connect upstream and start listening. Resolves with the URL to pass as
+   * the downstream clients' `url` option.
+   */
+  async start(): Promise<string> {
+    if (this.httpServer) return this.url;
+
+    this.listeners = new ListenerGroup<ClientEvents>(this.client);
+    this.listeners.on("message", (message) => this.handleUpstream(message));
+    await this.client.connect();
+
+    this.httpServer = createServer();
+    this.io = new Server(this.httpServer, { transports: ["websocket"] });
+    this.io.on("connection", (socket) => this.handleConnection(socket));
+
+    await new Promise<void>((resolve) => {
+      this.httpServer!.listen(this.port, this.host, resolve);
+    });
+    this.port = (this.httpServer.address() as AddressInfo).port;
+
+    return this.url;
+  }
+
+  /**
+   * Disconnect all downstream clients, drop every upstream subscription
+   * and stop listening
+   */
+  async stop(): Promise<void> {
+    if (!this.io) return;
+
+    const io = this.io;
+    this.io = null;
+    this.httpServer = null;
+
+    this.listeners?.removeAll();
+    this.listeners = null;
+    this.rooms.forEach((state) => state.release());
+    this.rooms.clear();
+    if (this.ownsClient) this.client.disconnect();
+
+    // Closes the underlying HTTP server too
+    await new Promise<void>((resolve) => io.close(() => resolve()));
+  }
+
+  /**
+   * URL downstream clients should connect to
+   */
+  get url(): string {
+    return `http://${this.host}:${this.port}`;
+  }
+
+  /**
+   * The upstream client
+   */
+  getClient(): HyperliquidClient {
+    return this.client;
+  }
+
+  /**
+   * Rooms with at least one downstream socket
+   */
+  getRooms(): RelayRoom[] {
+    return Array.from(this.rooms, ([room, state]) => ({
+      room,
+      clients: state.sockets.size,
+      cached: state.cache !== undefined,
+    }));
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // DOWNSTREAM
+  // ═══════════════════════════════════════════════════════════════════════
+
+  private handleConnection(socket: Socket): void {
+    // Payloads are checked before use: socket.io runs these handlers outside
+    // any caller, so a throw would take down the relay process
+
+    socket.on("subscribe:price", (data?: { asset?: unknown }) => {
+      const asset = data?.asset;
+      if (asset === undefined) return this.join(socket, "prices:all", "price");
+      if (!isText(asset)) return this.reject(socket, "subscribe:price asset must be a string");
+
+      const symbol = this.symbolOf(asset);
+      this.join(socket, `price:${symbol}`, "price", symbol);
+    });
+
+    socket.on("subscribe:orderbook", (data?: { asset?: unknown }) => {
+      const asset = data?.asset;
+      if (!isText(asset)) return this.reject(socket, "subscribe:orderbook requires an asset");
+
+      const symbol = this.symbolOf(asset);
+      this.join(socket, `orderbook:${symbol}`, "orderbook", symbol);
+    });
+
+    socket.on("subscribe:trades", (data?: { asset?: unknown }) => {
+      const asset = data?.asset;
+      if (!isText(asset)) return this.reject(socket, "subscribe:trades requires an asset");
+
+      const symbol = this.symbolOf(asset);
+      this.join(socket, `trades:${symbol}`, "trades", symbol);
+    });
+
+    socket.on("subscribe:candle", (data?: { coin?: unknown; interval?: unknown }) => {
+      const coin = data?.coin;
+      const interval = data?.interval;
+      if (!isText(coin) || !isText(interval)) {
+        return this.reject(socket, "subscribe:candle requires a coin and an interval");
+      }
+
+      const symbol = this.symbolOf(coin);
+      this.join(socket, `candle:${symbol}:${interval}`, "candle", symbol, interval);
+    });
+
+    socket.on("unsubscribe", (data?: { room?: unknown }) => {
+      const room = data?.room;
+      if (!isText(room)) return this.reject(socket, "unsubscribe requires a room");
+
+      this.leave(socket, this.normalizeRoom(room));
+      socket.emit("unsubscribed", { room });
+    });
+
+    // Requests are answered through the ack, which comes first when the
+    // payload is missing
+    socket.on("get:prices", (...args: unknown[]) => {
+      const [data, ack] = requestArgs<{ assets?: unknown }>(args);
+      const assets = data?.assets;
+      if (!Array.isArray(assets) || !assets.every(isText)) {
+        return ack?.({ error: "get:prices requires a list of assets" });
+      }
+      this.forward(ack, () => this.client.getPrices(assets.map((asset) => this.symbolOf(asset))));
+    });
+
+    socket.on("get:candles", (...args: unknown[]) => {
+      const [data, ack] = requestArgs<{
+        coin?: unknown;
+        interval?: unknown;
+        startTime?: unknown;
+        endTime?: unknown;
+      }>(args);
+      const { coin, interval, startTime, endTime } = data ?? {};
+      if (
+        !isText(coin) ||
+        !isText(interval) ||
+        typeof startTime !== "number" ||
+        typeof endTime !== "number"
+      ) {
+        return ack?.({ error: "get:candles requires a coin, an interval, startTime and endTime" });
+      }
+
+      this.forward(ack, () =>
+        this.client.getCandleHistory(this.symbolOf(coin), interval, startTime, endTime)
+      );
+    });
+
+    socket.on("get:trades", (...args: unknown[]) => {
+      const [data, ack] = requestArgs<{ asset?: unknown; since?: unknown; until?: unknown }>(args);
+      const { asset, since, until } = data ?? {};
+      if (
+        !isText(asset) ||
+        typeof since !== "number" ||
+        (until !== undefined && typeof until !== "number")
+      ) {
+        return ack?.({ error: "get:trades requires an asset and since" });
+      }
+
+      this.forward(ack, () => this.client.getTradeHistory(this.symbolOf(asset), since, { until }));
+    });
+
+    socket.on("auth:challenge", (...args: unknown[]) => {
+      const [, ack] = requestArgs(args);
+      ack?.({ error: AUTH_UNAVAILABLE });
+    });
+
+    socket.on("authenticate", (data?: { wallet?: unknown }) => {
+      socket.emit("auth:error", { message: AUTH_UNAVAILABLE, wallet: data?.wallet });
+    });
+
+    // Called as (ack) or ({ wallet }, ack)
+    socket.on("get:userBalance", (...args: unknown[]) => {
+      const [, ack] = requestArgs(args);
+      ack?.({ error: AUTH_UNAVAILABLE });
+    });
+
+    socket.on("disconnect", () => {
+      this.rooms.forEach((state, room) => {
+        if (state.sockets.has(socket.id)) this.leave(socket, room);
+      });
+    });
+
+    socket.emit("connected", { clientId: socket.id, timestamp: Date.now() });
+  }
+
+  private join(
+    socket: Socket,
+    room: string,
+    type: RoomType,
+    asset?: string,
+    interval?: string
+  ): void {
+    let state = this.rooms.get(room);
+    if (!state) {
+      let release: () => void;
+      try {
+        release = this.client.retain(UPSTREAM_TYPES[type], { asset, interval });
+      } catch (error) {
+        return this.reject(socket, (error as Error).message);
+      }
+      state = { sockets: new Set(), release };
+      this.rooms.set(room, state);
+    }
+
+    state.sockets.add(socket.id);
+    socket.join(room);
+    socket.emit("subscribed", { type, asset });
+
+    if (state.cache) {
+      socket.emit(state.cache.event, snapshotOf(state.cache));
+    }
+  }
+
+  private leave(socket: Socket, room: string): void {
+    socket.leave(room);
+
+    const state = this.rooms.get(room);
+    if (!state?.sockets.delete(socket.id) || state.sockets.size > 0) return;
+
+    // Last downstream socket gone
+    this.rooms.delete(room);
+    state.release();
+  }
+
+  private forward(
+    ack: ((response: unknown) => void) | undefined,
+    request: () => Promise<unknown>
+  ): void {
+    request().then(
+      (response) => ack?.(response),
+      (error: Error) => ack?.({ error: error.message })
+    );
+  }
+
+  private reject(socket: Socket, message: string): void {
+    socket.emit("error", { code: "INVALID_SUBSCRIPTION", message });
+  }
+
+  /**
+   * Server symbol of an asset, so "HYPE/USDC" and "@107" share a room.
+   * Assets missing from the registry pass through unchanged.
+   */
+  private symbolOf(asset: string): string {
+    return this.client.getAssetRegistry().get(asset)?.symbol ?? asset;
+  }
+
+  /**
+   * Room name with its asset turned into the server symbol
+   */
+  private normalizeRoom(room: string): string {
+    const candle = /^candle:(.+):([^:]+)$/.exec(room);
+    if (candle) return `candle:${this.symbolOf(candle[1])}:${candle[2]}`;
+
+    const match = /^(price|orderbook|trades):(.+)$/.exec(room);
+    return match ? `${match[1]}:${this.symbolOf(match[2])}` : room;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // UPSTREAM
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Cache an upstream data event and pass it on to the rooms it belongs to
+   */
+  private handleUpstream({ event, data }: InboundMessage): void {
+    const rooms = this.roomsOf(event, data);
+    rooms.forEach((room) => {
+      const state = this.rooms.get(room);
+      if (!state) return;
+
+      state.cache = this.applyToCache(room, state.cache, event, data);
+      // A prices snapshot may be a get:prices reply covering a few assets:
+      // the room gets the merged snapshot so it never shrinks
+      const payload =
+        event === "prices:snapshot" && state.cache ? snapshotOf(state.cache) : data;
+      this.io?.to(room).emit(event, payload);
+    });
+  }
+
+  private roomsOf(event: string, data: any): string[] {
+    if (data === null || typeof data !== "object") return [];
+
+    switch (event) {
+      case "prices:snapshot":
+      case "prices:update":
+        return ["prices:all"];
+      case "price:snapshot":
+      case "price:update":
+        return [`price:${data.symbol}`];
+      case "orderbook:snapshot":
+      case "orderbook:update":
+        return [`orderbook:${data.asset}`];
+      case "trades:snapshot":
+      case "trades:update":
+        return [`trades:${data.asset}`];
+      case "candle:snapshot":
+        return [`candle:${data.coin}:${data.interval}`];
+      case "candle:update": {
+        if (data.coin !== undefined && data.interval !== undefined) {
+          return [`candle:${data.coin}:${data.interval}`];
+        }
+        // Untagged candles go to every candle room they may belong to
+        return Array.from(this.rooms.keys()).filter(
+          (room) =>
+            room.startsWith("candle:") &&
+            (data.coin === undefined || room.startsWith(`candle:${data.coin}:`))
+        );
+      }
+      default:
+        return [];
+    }
+  }
+
+  private applyToCache(
+    room: string,
+    cache: RoomCache | undefined,
+    event: string,
+    data: any
+  ): RoomCache | undefined {
+    switch (event) {
+      case "prices:snapshot":
+      case "prices:update": {
+        // Snapshots are merged too: servers answering get:prices with a
+        // prices:snapshot only send the requested assets
+        const prices =
+          cache?.event === "prices:snapshot" ? cache.prices : new Map<string, PriceData>();
+        (data as PriceData[]).forEach((price) => prices.set(price.symbol, price));
+        return { event: "prices:snapshot", prices };
+      }
+      case "price:snapshot":
+      case "price:update":
+        return { event: "price:snapshot", price: data };
+      case "orderbook:snapshot":
+      case "orderbook:update":
+        return { event: "orderbook:snapshot", book: data };
+      case "trades:snapshot":
+      case "trades:update": {
+        const previous =
+          cache?.event === "trades:snapshot" && event === "trades:update" ? cache.trades : [];
+        const known = new Set(previous.map((trade) => trade.id));
+        const trades = [
+          ...previous,
+          ...(data.trades as Trade[]).filter((trade) => !known.has(trade.id)),
+        ].slice(-this.maxTrades);
+        return { event: "trades:snapshot", asset: data.asset, trades };
+      }
+      case "candle:snapshot":
+        return {
+          event: "candle:snapshot",
+          coin: data.coin,
+          interval: data.interval,
+          candles: (data.candles as Candle[]).slice(-this.maxCandles),
+        };
+      case "candle:update": {
+        // Replaces the candle of the same open time
+        const candle = data as Candle;
+        const [, coin, interval] = /^candle:(.*):([^:]+)$/.exec(room)!;
+        const previous = cache?.event === "candle:snapshot" ? cache.candles : [];
+        const candles = previous
+          .filter((c) => c.time !== candle.time)
+          .concat(candle)
+          .sort((a, b) => a.time - b.time)
+          .slice(-this.maxCandles);
+        return { event: "candle:snapshot", coin, interval, candles };
+      }
+      default:
+        return cache;
+    }
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+const AUTH_UNAVAILABLE = "Authentication is not available through the relay";
+
+/**
+ * Payload and ack of a request event, whether or not a payload was sent
+ */
+function requestArgs<T>(args: unknown[]): [T | undefined, ((response: unknown) => void) | undefined] {
+  const last = args[args.length - 1];
+  const ack = typeof last === "function" ? (last as (response: unknown) => void) : undefined;
+  const data = args.length > (ack ? 1 : 0) ? args[0] : undefined;
+  return [data !== null && typeof data === "object" ? (data as T) : undefined, ack];
+}
+
+function isText(value: unknown): value is string {
+  return typeof value === "string" && value.length > 0;
+}
+
+function snapshotOf(cache: RoomCache): unknown {
+  switch (cache.event) {
+    case "prices:snapshot":
+      return Array.from(cache.prices.values());
+    case "price:snapshot":
+      return cache.price;
+    case "orderbook:snapshot":
+      return cache.book;
+    case "trades:snapshot":
+      return { asset: cache.asset, trades: cache.trades };
+    case "candle:snapshot":
+      return { coin: cache.coin, interval: cache.interval, candles: cache.candles };
+  }
+}
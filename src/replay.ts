@@ -0,0 +1,379 @@
+import { HyperliquidClient } from "./client";
+import {
+  BalanceRequestOptions,
+  Candle,
+  ClientOptions,
+  InboundMessage,
+  PriceData,
+  ReplayOptions,
+  RequestOptions,
+  Signer,
+  Trade,
+  TradeHistoryOptions,
+} from "./types";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RECORDING
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Destination for recorded NDJSON lines (e.g., `fs.createWriteStream(path)`)
+ */
+export interface RecordingSink {
+  write(chunk: string): unknown;
+}
+
+/**
+ * SessionRecorder - Writes every inbound server event a client receives
+ * as one NDJSON line: `{"event":"...","data":...,"receivedAt":1700000000000}`
+ *
+ * @example
+ * ```typescript
+ * import { createWriteStream } from 'fs';
+ *
+ * const recorder = new SessionRecorder(client, createWriteStream('session.ndjson'));
+ * // ... later
+ * recorder.stop();
+ * ```
+ */
+export class SessionRecorder {
+  private count = 0;
+  private client: HyperliquidClient | null;
+  private readonly handleMessage = (message: InboundMessage) => {
+    this.sink.write(JSON.stringify(message) + "\n");
+    this.count++;
+  };
+
+  constructor(client: HyperliquidClient, private sink: RecordingSink) {
+    this.client = client;
+    client.on("message", this.handleMessage);
+  }
+
+  /**
+   * Stop recording. The sink is left open for the caller to close.
+   */
+  stop(): void {
+    this.client?.off("message", this.handleMessage);
+    this.client = null;
+  }
+
+  /**
+   * Number of events recorded so far
+   */
+  getCount(): number {
+    return this.count;
+  }
+}
+
+/**
+ * Parse an NDJSON recording into messages. Blank lines are skipped.
+ */
+export function parseRecording(ndjson: string): InboundMessage[] {
+  return ndjson
+    .split("\n")
+    .filter((line) => line.trim().length > 0)
+    .map((line, index) => {
+      try {
+        return JSON.parse(line) as InboundMessage;
+      } catch {
+        throw new Error(`Invalid recording line ${index + 1}`);
+      }
+    });
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// REPLAY CLIENT
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Zero-delay messages emitted per tick before yielding to the event loop */
+const REPLAY_BATCH_SIZE = 1000;
+
+/**
+ * ReplayClient - Plays a recorded session back through the same public API
+ * as HyperliquidClient, so dashboards and strategies run unchanged offline.
+ *
+ * `connect()` starts playback. Every recorded event is replayed regardless
+ * of subscriptions; subscribe calls are only registered. When the recording
+ * ends the client emits "disconnected" with reason "replay complete".
+ *
+ * @example
+ * ```typescript
+ * const recording = parseRecording(readFileSync('session.ndjson', 'utf8'));
+ *
+ * // 10x speed
+ * const replay = new ReplayClient(recording, { speed: 10 });
+ * replay.on('orderbook', (ob) => strategy.onBook(ob));
+ * await replay.connect();
+ *
+ * // Stepped: advance one event at a time
+ * const stepped = new ReplayClient(recording, { stepped: true });
+ * await stepped.connect();
+ * stepped.step();
+ * ```
+ */
+export class ReplayClient extends HyperliquidClient {
+  private messages: InboundMessage[];
+  private position = 0;
+  private speed: number;
+  private stepped: boolean;
+  private paused = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private replayWallets: string[] = [];
+
+  /**
+   * @param recording - NDJSON text or parsed messages
+   * @param options - Replay speed plus regular client options (network, debug, ...)
+   */
+  constructor(
+    recording: string | InboundMessage[],
+    options?: ReplayOptions & ClientOptions
+  ) {
+    super({ ...options, autoReconnect: false });
+    this.messages =
+      typeof recording === "string" ? parseRecording(recording) : recording;
+    this.speed = options?.speed ?? 1;
+    this.stepped = options?.stepped ?? false;
+
+    if (!(this.speed > 0)) {
+      throw new Error("Replay speed must be greater than 0");
+    }
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // CONNECTION
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Start playback (from the beginning if the recording already ended)
+   */
+  async connect(): Promise<void> {
+    if (this.isConnected()) return;
+
+    if (this.isFinished()) this.position = 0;
+
+    this.setState("connecting");
+    this.setState("connected");
+    this.emit("connected", { clientId: "replay", timestamp: Date.now() });
+    this.logger.debug("Replaying", { events: this.messages.length });
+
+    if (!this.stepped) this.scheduleNext();
+  }
+
+  /**
+   * Stop playback. A later connect() plays on from the same position,
+   * even if playback was paused.
+   */
+  disconnect(): void {
+    this.clearTimer();
+    this.paused = false;
+    this.setState("disconnected");
+
+    const wallets = this.replayWallets;
+    this.replayWallets = [];
+    wallets.forEach((wallet) => this.emit("unauthenticated", { wallet }));
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // PLAYBACK CONTROL
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Pause timed playback
+   */
+  pause(): void {
+    this.paused = true;
+    this.clearTimer();
+  }
+
+  /**
+   * Resume timed playback
+   */
+  resume(): void {
+    if (!this.paused) return;
+    this.paused = false;
+    if (this.isConnected() && !this.stepped) this.scheduleNext();
+  }
+
+  /**
+   * Replay the next events immediately
+   * @param count - Number of events (default: 1)
+   * @returns Number of events replayed
+   */
+  step(count: number = 1): number {
+    if (!this.isConnected()) {
+      throw new Error("Not connected. Call connect() first.");
+    }
+
+    let replayed = 0;
+    while (replayed < count && !this.isFinished()) {
+      this.replayNext();
+      replayed++;
+    }
+    if (this.isFinished()) this.finish();
+
+    return replayed;
+  }
+
+  /**
+   * Change playback speed (1 = real time, Infinity = as fast as possible)
+   */
+  setSpeed(speed: number): void {
+    if (!(speed > 0)) {
+      throw new Error("Replay speed must be greater than 0");
+    }
+    this.speed = speed;
+  }
+
+  /**
+   * Replay progress
+   */
+  getProgress(): { position: number; total: number; time: number | null } {
+    return {
+      position: this.position,
+      total: this.messages.length,
+      time: this.messages[this.position - 1]?.receivedAt ?? null,
+    };
+  }
+
+  /**
+   * Whether every recorded event has been replayed
+   */
+  isFinished(): boolean {
+    return this.position >= this.messages.length;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // SERVER REQUESTS
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Accepts any wallet without signing. User data comes from the recording.
+   */
+  async authenticate(walletOrSigner: string | Signer): Promise<void> {
+    const wallet =
+      typeof walletOrSigner === "string"
+        ? walletOrSigner
+        : await walletOrSigner.getAddress();
+    if (!this.hasWallet(wallet)) this.replayWallets.push(wallet);
+    this.emit("authenticated", { wallet });
+  }
+
+  unauthenticate(wallet: string): void {
+    if (!this.hasWallet(wallet)) return;
+    this.replayWallets = this.replayWallets.filter(
+      (entry) => entry.toLowerCase() !== wallet.toLowerCase()
+    );
+    this.emit("unauthenticated", { wallet });
+  }
+
+  getAuthenticatedWallets(): string[] {
+    return [...this.replayWallets];
+  }
+
+  async getPrices(
+    _assets: string[],
+    _options?: RequestOptions
+  ): Promise<PriceData[]> {
+    throw new Error("getPrices() is not available during replay");
+  }
+
+  async getBalance(_options?: BalanceRequestOptions): Promise<number> {
+    throw new Error("getBalance() is not available during replay");
+  }
+
+  async getCandleHistory(
+    _asset: string,
+    _interval: string,
+    _start: number,
+    _end?: number,
+    _options?: RequestOptions
+  ): Promise<Candle[]> {
+    throw new Error("getCandleHistory() is not available during replay");
+  }
+
+  async getTradeHistory(
+    _asset: string,
+    _since: number,
+    _options?: TradeHistoryOptions
+  ): Promise<Trade[]> {
+    throw new Error("getTradeHistory() is not available during replay");
+  }
+
+  protected send(): void {
+    // Nothing to send to: subscriptions are only registered
+  }
+
+  protected soleWallet(): string | null {
+    return this.replayWallets.length === 1 ? this.replayWallets[0] : null;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // PRIVATE METHODS
+  // ═══════════════════════════════════════════════════════════════════════
+
+  private scheduleNext(): void {
+    if (this.paused || !this.isConnected()) return;
+
+    if (this.isFinished()) {
+      this.finish();
+      return;
+    }
+
+    const delay = this.delayUntilNext();
+    if (delay > 0) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.replayNext();
+        this.scheduleNext();
+      }, delay);
+      return;
+    }
+
+    // Replay back-to-back events synchronously, yielding every batch
+    let batch = 0;
+    while (
+      batch < REPLAY_BATCH_SIZE &&
+      !this.isFinished() &&
+      this.delayUntilNext() <= 0
+    ) {
+      this.replayNext();
+      batch++;
+      if (!this.isConnected() || this.paused) return;
+    }
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.scheduleNext();
+    }, 0);
+  }
+
+  private delayUntilNext(): number {
+    if (this.position === 0) return 0;
+    const previous = this.messages[this.position - 1].receivedAt;
+    const next = this.messages[this.position].receivedAt;
+    return Math.max(next - previous, 0) / this.speed;
+  }
+
+  private replayNext(): void {
+    this.dispatch(this.messages[this.position++]);
+  }
+
+  private finish(): void {
+    this.clearTimer();
+    this.setState("disconnected");
+    this.emit("disconnected", { reason: "replay complete" });
+  }
+
+  private hasWallet(wallet: string): boolean {
+    return this.replayWallets.some(
+      (entry) => entry.toLowerCase() === wallet.toLowerCase()
+    );
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
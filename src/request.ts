@@ -0,0 +1,144 @@
+import { RequestOptions, Transport } from "./types";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// REQUEST / RESPONSE LAYER
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Server events that answer a request instead of an ack callback
+ */
+interface ResponseEvents {
+  /** Event resolving the request */
+  success: string;
+  /** Event rejecting the request (payload carries `message`) */
+  failure?: string;
+  /**
+   * Only settle on events whose payload belongs to this request
+   * (e.g., the wallet being authenticated)
+   */
+  match?: (data: any) => boolean;
+}
+
+interface SendOptions extends RequestOptions {
+  /** Payload sent with the request event */
+  payload?: unknown;
+  /** Resolve on server events rather than the socket.io ack */
+  response?: ResponseEvents;
+  /**
+   * Server events that also answer the request, for servers that reply
+   * with an event instead of acking. Whichever arrives first settles it.
+   */
+  fallback?: ResponseEvents;
+}
+
+interface PendingRequest {
+  event: string;
+  timer: ReturnType<typeof setTimeout>;
+  reject: (error: Error) => void;
+  cleanup: () => void;
+}
+
+/**
+ * Tracks one-shot requests sent over the socket. Every request gets its own
+ * timeout and is rejected if the connection drops before it is answered.
+ *
+ * Responses are correlated through socket.io acks, so each request
+ * receives exactly its own answer. Ack payloads shaped `{ error: string }`
+ * reject the request. Requests may also settle on server events, either
+ * instead of the ack or as a fallback for servers that do not ack.
+ */
+export class RequestManager {
+  private pending = new Map<number, PendingRequest>();
+  private nextId = 1;
+
+  constructor(private defaultTimeout: number) {}
+
+  /**
+   * Send a request and wait for its response
+   */
+  send<T>(socket: Transport, event: string, options: SendOptions = {}): Promise<T> {
+    const id = this.nextId++;
+    const timeoutMs = options.timeout ?? this.defaultTimeout;
+
+    return new Promise<T>((resolve, reject) => {
+      const settle = (error: Error | null, data?: T) => {
+        const request = this.pending.get(id);
+        if (!request) return; // Already timed out or rejected
+        clearTimeout(request.timer);
+        request.cleanup();
+        this.pending.delete(id);
+        if (error) {
+          reject(error);
+        } else {
+          resolve(data as T);
+        }
+      };
+
+      let cleanup = () => {};
+
+      const events = options.response ?? options.fallback;
+
+      if (events) {
+        const { success, failure, match = () => true } = events;
+        const onSuccess = (data: T) => {
+          if (match(data)) settle(null, data);
+        };
+        const onFailure = (error: { message: string }) => {
+          if (match(error)) settle(new Error(error.message));
+        };
+
+        socket.on(success, onSuccess);
+        if (failure) socket.on(failure, onFailure);
+
+        cleanup = () => {
+          socket.off(success, onSuccess);
+          if (failure) socket.off(failure, onFailure);
+        };
+      }
+
+      this.pending.set(id, {
+        event,
+        timer: setTimeout(() => {
+          settle(new Error(`Request timeout: ${event} (${timeoutMs}ms)`));
+        }, timeoutMs),
+        reject,
+        cleanup,
+      });
+
+      const args: unknown[] =
+        options.payload === undefined ? [] : [options.payload];
+
+      if (!options.response) {
+        args.push((response: T) => {
+          const error = (response as { error?: unknown } | null)?.error;
+          if (typeof error === "string") {
+            settle(new Error(error));
+          } else {
+            settle(null, response);
+          }
+        });
+      }
+
+      socket.emit(event, ...args);
+    });
+  }
+
+  /**
+   * Reject every in-flight request (e.g., when the socket drops)
+   */
+  rejectAll(reason: string): void {
+    this.pending.forEach((request) => {
+      clearTimeout(request.timer);
+      request.cleanup();
+      request.reject(new Error(`${reason} during request: ${request.event}`));
+    });
+    this.pending.clear();
+  }
+
+  /**
+   * Number of requests awaiting a response
+   */
+  get size(): number {
+    return this.pending.size;
+  }
+}
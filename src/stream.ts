@@ -0,0 +1,271 @@
+import type { HyperliquidClient } from "./client";
+import {
+  StreamKind,
+  StreamParams,
+  StreamItems,
+  StreamOptions,
+  StreamOverflowPolicy,
+} from "./types";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FEED DEFINITIONS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Retains a feed's room and attaches its listeners. Returns a function that
+ * removes the listeners and releases the room again.
+ */
+type FeedAttach<K extends StreamKind> = (
+  client: HyperliquidClient,
+  params: StreamParams[K],
+  push: (item: StreamItems[K]) => void
+) => () => void;
+
+/**
+ * Server symbol for an asset name, so "HYPE/USDC" matches events for "@107"
+ */
+function toSymbol(client: HyperliquidClient, asset: string): string {
+  return client.getAssetRegistry().get(asset)?.symbol ?? asset;
+}
+
+const FEEDS: { [K in StreamKind]: FeedAttach<K> } = {
+  prices: (client, _params, push) => {
+    const release = client.retain("prices");
+    client.on("prices", push);
+    return () => {
+      client.off("prices", push);
+      release();
+    };
+  },
+
+  price: (client, params, push) => {
+    const asset = toSymbol(client, params.asset);
+    const onPrice = (price: StreamItems["price"]) => {
+      if (price.symbol === asset) push(price);
+    };
+    const onPrices = (prices: StreamItems["prices"]) => {
+      const price = prices.find((p) => p.symbol === asset);
+      if (price) push(price);
+    };
+    const release = client.retain("prices", { asset });
+    client.on("price", onPrice);
+    client.on("prices", onPrices);
+    return () => {
+      client.off("price", onPrice);
+      client.off("prices", onPrices);
+      release();
+    };
+  },
+
+  orderbook: (client, params, push) => {
+    const asset = toSymbol(client, params.asset);
+    const onOrderBook = (book: StreamItems["orderbook"]) => {
+      if (book.asset === asset) push(book);
+    };
+    const release = client.retain("orderbook", { asset });
+    client.on("orderbook", onOrderBook);
+    return () => {
+      client.off("orderbook", onOrderBook);
+      release();
+    };
+  },
+
+  trades: (client, params, push) => {
+    const asset = toSymbol(client, params.asset);
+    const onTrades = (data: { asset: string; trades: StreamItems["trades"][] }) => {
+      if (data.asset === asset) data.trades.forEach(push);
+    };
+    const release = client.retain("trades", { asset });
+    client.on("trades", onTrades);
+    return () => {
+      client.off("trades", onTrades);
+      release();
+    };
+  },
+
+  candles: (client, params, push) => {
+    const asset = toSymbol(client, params.asset);
+    const { interval } = params;
+    const onSnapshot = (data: {
+      coin: string;
+      interval: string;
+      candles: StreamItems["candles"][];
+    }) => {
+      if (data.coin === asset && data.interval === interval) {
+        data.candles.forEach(push);
+      }
+    };
+    const onUpdate = (candle: StreamItems["candles"]) => {
+      // Updates without coin/interval are assumed to belong to this feed
+      if (
+        (candle.coin ?? asset) === asset &&
+        (candle.interval ?? interval) === interval
+      ) {
+        push(candle);
+      }
+    };
+    const release = client.retain("candles", { asset, interval });
+    client.on("candles", onSnapshot);
+    client.on("candle", onUpdate);
+    return () => {
+      client.off("candles", onSnapshot);
+      client.off("candle", onUpdate);
+      release();
+    };
+  },
+
+  positions: (client, _params, push) => {
+    const onSnapshot = (positions: StreamItems["positions"][]) => {
+      positions.forEach(push);
+    };
+    client.on("positions", onSnapshot);
+    client.on("position", push);
+    return () => {
+      client.off("positions", onSnapshot);
+      client.off("position", push);
+    };
+  },
+
+  fills: (client, _params, push) => {
+    client.on("orderFill", push);
+    return () => client.off("orderFill", push);
+  },
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FEED ITERATOR
+// ═══════════════════════════════════════════════════════════════════════════
+
+const DEFAULT_BUFFER_SIZE = 1000;
+
+/**
+ * Async iterator over a feed with a bounded buffer.
+ * Subscribes on the first `next()` and unsubscribes on `return()`
+ * (e.g., `break` out of a `for await` loop).
+ */
+class FeedIterator<K extends StreamKind>
+  implements AsyncIterableIterator<StreamItems[K]>
+{
+  private buffer: StreamItems[K][] = [];
+  private waiting: {
+    resolve: (result: IteratorResult<StreamItems[K]>) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  private started = false;
+  private done = false;
+  private error: Error | null = null;
+  private teardown: (() => void) | null = null;
+  private readonly bufferSize: number;
+  private readonly overflow: StreamOverflowPolicy;
+
+  constructor(
+    private client: HyperliquidClient,
+    private kind: K,
+    private params: StreamParams[K],
+    options?: StreamOptions
+  ) {
+    this.bufferSize = Math.max(1, options?.bufferSize ?? DEFAULT_BUFFER_SIZE);
+    this.overflow = options?.overflow ?? "dropOldest";
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<StreamItems[K]> {
+    return this;
+  }
+
+  next(): Promise<IteratorResult<StreamItems[K]>> {
+    // Not after return(): nothing would ever release the subscription
+    if (!this.started && !this.done) this.start();
+
+    if (this.buffer.length > 0) {
+      return Promise.resolve({ value: this.buffer.shift()!, done: false });
+    }
+    if (this.error) {
+      return Promise.reject(this.error);
+    }
+    if (this.done) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  return(): Promise<IteratorResult<StreamItems[K]>> {
+    this.finish();
+    this.buffer = [];
+    return Promise.resolve({ value: undefined, done: true });
+  }
+
+  private start(): void {
+    this.started = true;
+
+    const attach = FEEDS[this.kind] as FeedAttach<K>;
+    try {
+      this.teardown = attach(this.client, this.params, (item) => this.push(item));
+    } catch (error) {
+      // e.g. an unknown asset: every next() rejects with it
+      this.error = error as Error;
+      this.done = true;
+    }
+  }
+
+  private push(item: StreamItems[K]): void {
+    if (this.done) return;
+
+    if (this.waiting) {
+      const { resolve } = this.waiting;
+      this.waiting = null;
+      resolve({ value: item, done: false });
+      return;
+    }
+
+    if (this.buffer.length >= this.bufferSize) {
+      switch (this.overflow) {
+        case "dropOldest":
+          this.buffer.shift();
+          break;
+        case "dropNewest":
+          return;
+        case "error":
+          this.error = new Error(
+            `Stream buffer overflow: ${this.kind} (${this.bufferSize} items)`
+          );
+          this.buffer = [];
+          this.finish();
+          return;
+      }
+    }
+
+    this.buffer.push(item);
+  }
+
+  private finish(): void {
+    if (this.done) return;
+    this.done = true;
+    this.teardown?.();
+    this.teardown = null;
+
+    if (this.waiting) {
+      const { resolve } = this.waiting;
+      this.waiting = null;
+      resolve({ value: undefined, done: true });
+    }
+  }
+}
+
+/**
+ * Create an async iterable over a client feed. Each `for await` loop gets
+ * its own iterator, subscription and buffer.
+ */
+export function createStream<K extends StreamKind>(
+  client: HyperliquidClient,
+  kind: K,
+  params: StreamParams[K],
+  options?: StreamOptions
+): AsyncIterable<StreamItems[K]> {
+  return {
+    [Symbol.asyncIterator]: () =>
+      new FeedIterator(client, kind, params, options),
+  };
+}
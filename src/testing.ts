@@ -0,0 +1,756 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// @nylium/hyperliquid-sdk/testing
+// In-process mock Nylium server for testing applications built on the SDK
+// ═══════════════════════════════════════════════════════════════════════════
+
+import {
+  createServer,
+  IncomingMessage,
+  Server as HttpServer,
+  ServerResponse,
+} from "http";
+import type { AddressInfo } from "net";
+import { randomBytes } from "crypto";
+import { Server, Socket } from "socket.io";
+import { recoverMessageAddress, recoverTypedDataAddress } from "./auth";
+import { l1ActionTypedData, userSignedActionTypedData } from "./exchange";
+import { Candle, Network, PriceData, Trade } from "./types";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Mock server options
+ */
+export interface MockServerOptions {
+  /** Port to listen on (default: 0, a random free port) */
+  port?: number;
+  /** Delay in ms applied to every message the server sends (default: 0) */
+  latency?: number;
+  /** Reject address-only authentication (default: false) */
+  requireSignature?: boolean;
+  /** Lifetime in ms of issued session tokens (default: 3600000) */
+  tokenTtl?: number;
+  /** Network exchange action signatures are recovered for (default: "mainnet") */
+  exchangeNetwork?: Network;
+  /** Maximum candles or trades per history response (default: 500) */
+  historyPageSize?: number;
+  /**
+   * Answer "get:prices" with a "prices:snapshot" event instead of the ack,
+   * like servers that predate acked requests (default: false)
+   */
+  legacyPriceResponses?: boolean;
+}
+
+/**
+ * Message received from a client
+ */
+export interface ReceivedMessage {
+  /** Socket id of the sending client */
+  clientId: string;
+  /** Event name (e.g., "subscribe:orderbook") */
+  event: string;
+  /** First event argument, if any */
+  payload: any;
+  /** Receive timestamp */
+  timestamp: number;
+}
+
+/**
+ * Signed action received on the exchange endpoint
+ */
+export interface ExchangeRequest {
+  /** Action as sent (e.g., { type: "order", orders, grouping }) */
+  action: { type: string; [key: string]: any };
+  /** Action nonce */
+  nonce: number;
+  /** Vault the action was sent for */
+  vaultAddress: string | null;
+  /** Address recovered from the signature */
+  signer: string;
+  /** Receive timestamp */
+  timestamp: number;
+}
+
+/**
+ * Answers an exchange action. Return a response body
+ * (e.g., { status: "err", response: "Insufficient margin" }),
+ * or undefined for the default answer.
+ */
+export type MockExchangeHandler = (request: ExchangeRequest) => unknown;
+
+/**
+ * Decides whether a wallet may authenticate.
+ * Return an error message to reject, or null to accept.
+ */
+export type MockAuthHandler = (wallet: string) => string | null;
+
+interface AuthenticatePayload {
+  wallet: string;
+  nonce?: string;
+  signature?: string;
+  token?: string;
+}
+
+interface Waiter {
+  event: string;
+  predicate?: (message: ReceivedMessage) => boolean;
+  resolve: (message: ReceivedMessage) => void;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MOCK SERVER
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * MockNyliumServer - Local socket.io server speaking the Nylium protocol.
+ *
+ * Handles subscriptions, authentication, balance and price requests the
+ * same way the real server does, and lets tests push data, simulate
+ * disconnects and latency, and assert on what clients sent.
+ *
+ * @example
+ * ```typescript
+ * import { HyperliquidClient } from '@nylium/hyperliquid-sdk';
+ * import { MockNyliumServer } from '@nylium/hyperliquid-sdk/testing';
+ *
+ * const server = new MockNyliumServer();
+ * const url = await server.start();
+ *
+ * const client = new HyperliquidClient({ url });
+ * await client.connect();
+ *
+ * client.subscribeOrderBook('BTC');
+ * await server.waitFor('subscribe:orderbook', (m) => m.payload.asset === 'BTC');
+ *
+ * server.emitToRoom('orderbook:BTC', 'orderbook:update', book);
+ *
+ * await server.stop();
+ * ```
+ */
+export class MockNyliumServer {
+  private httpServer: HttpServer | null = null;
+  private io: Server | null = null;
+  private port: number;
+  private latency: number;
+
+  private received: ReceivedMessage[] = [];
+  private waiters = new Set<Waiter>();
+  private snapshots = new Map<string, { event: string; data: unknown }>();
+  private prices: PriceData[] = [];
+  private balances = new Map<string, number>();
+  private candleHistory = new Map<string, Candle[]>(); // "coin:interval" -> candles
+  private tradeHistory = new Map<string, Trade[]>(); // asset -> trades
+  private historyPageSize: number;
+  private legacyPriceResponses: boolean;
+  private wallets = new Map<string, string[]>(); // clientId -> wallets
+  private authHandler: MockAuthHandler = () => null;
+  private requireSignature: boolean;
+  private tokenTtl: number;
+  private challenges = new Map<string, { wallet: string; message: string }>(); // nonce -> challenge
+  private tokens = new Map<string, { wallet: string; expiresAt: number }>(); // token -> session
+  private exchangeNetwork: Network;
+  private exchangeRequests: ExchangeRequest[] = [];
+  private exchangeHandler: MockExchangeHandler = () => undefined;
+  private nextOrderId = 1;
+
+  constructor(options?: MockServerOptions) {
+    this.port = options?.port ?? 0;
+    this.latency = options?.latency ?? 0;
+    this.requireSignature = options?.requireSignature ?? false;
+    this.tokenTtl = options?.tokenTtl ?? 3600000;
+    this.exchangeNetwork = options?.exchangeNetwork ?? "mainnet";
+    this.historyPageSize = options?.historyPageSize ?? 500;
+    this.legacyPriceResponses = options?.legacyPriceResponses ?? false;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // LIFECYCLE
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Start listening. Resolves with the URL to pass as the client `url` option.
+   */
+  async start(): Promise<string> {
+    if (this.httpServer) return this.url;
+
+    // socket.io takes its own path; everything else is the exchange API
+    this.httpServer = createServer((req, res) => this.handleHttp(req, res));
+    this.io = new Server(this.httpServer, { transports: ["websocket"] });
+    this.io.on("connection", (socket) => this.handleConnection(socket));
+
+    await new Promise<void>((resolve) => {
+      this.httpServer!.listen(this.port, "127.0.0.1", resolve);
+    });
+    this.port = (this.httpServer.address() as AddressInfo).port;
+
+    return this.url;
+  }
+
+  /**
+   * Disconnect all clients and stop listening
+   */
+  async stop(): Promise<void> {
+    if (!this.io) return;
+
+    const io = this.io;
+    this.io = null;
+    this.httpServer = null;
+    this.waiters.clear();
+
+    // Closes the underlying HTTP server too
+    await new Promise<void>((resolve) => io.close(() => resolve()));
+  }
+
+  /**
+   * URL clients should connect to
+   */
+  get url(): string {
+    return `http://127.0.0.1:${this.port}`;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // SCRIPTING
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Send an event to every connected client
+   */
+  emit(event: string, data?: unknown): void {
+    this.delay(() => this.io?.emit(event, data));
+  }
+
+  /**
+   * Send an event to clients subscribed to a room
+   * (e.g., "prices:all", "price:BTC", "orderbook:BTC", "candle:BTC:1h")
+   */
+  emitToRoom(room: string, event: string, data?: unknown): void {
+    this.delay(() => this.io?.to(room).emit(event, data));
+  }
+
+  /**
+   * Send an event to clients authenticated as a wallet. The wallet is sent
+   * as a second `{ wallet }` argument, as the real server does.
+   */
+  emitToWallet(wallet: string, event: string, data?: unknown): void {
+    this.delay(() =>
+      this.io?.to(walletRoom(wallet)).emit(event, data, { wallet })
+    );
+  }
+
+  /**
+   * Snapshot sent to every client when it joins a room
+   * @example
+   * ```typescript
+   * server.setSnapshot('orderbook:BTC', 'orderbook:snapshot', book);
+   * ```
+   */
+  setSnapshot(room: string, event: string, data: unknown): void {
+    this.snapshots.set(room, { event, data });
+  }
+
+  /**
+   * Prices served by "get:prices" and as "prices:snapshot" / "price:snapshot"
+   */
+  setPrices(prices: PriceData[]): void {
+    this.prices = prices;
+  }
+
+  /**
+   * Candles served by "get:candles", paged by `historyPageSize`
+   */
+  setCandleHistory(coin: string, interval: string, candles: Candle[]): void {
+    this.candleHistory.set(
+      `${coin}:${interval}`,
+      [...candles].sort((a, b) => a.time - b.time)
+    );
+  }
+
+  /**
+   * Trades served by "get:trades", paged by `historyPageSize`
+   */
+  setTradeHistory(asset: string, trades: Trade[]): void {
+    this.tradeHistory.set(
+      asset,
+      [...trades].sort((a, b) => a.timestamp - b.timestamp)
+    );
+  }
+
+  /**
+   * Balance served by "get:userBalance" for a wallet
+   */
+  setBalance(wallet: string, balance: number): void {
+    this.balances.set(wallet.toLowerCase(), balance);
+  }
+
+  /**
+   * Decide which wallets may authenticate (default: all)
+   */
+  setAuthHandler(handler: MockAuthHandler): void {
+    this.authHandler = handler;
+  }
+
+  /**
+   * Answer exchange actions (default: orders rest, IOC orders fill at
+   * their limit price, cancels succeed, other actions return ok)
+   */
+  setExchangeHandler(handler: MockExchangeHandler): void {
+    this.exchangeHandler = handler;
+  }
+
+  /**
+   * Invalidate every issued session token, forcing clients to sign again
+   */
+  revokeTokens(): void {
+    this.tokens.clear();
+  }
+
+  /**
+   * Delay in ms applied to every message the server sends
+   */
+  setLatency(ms: number): void {
+    this.latency = ms;
+  }
+
+  /**
+   * Server-side disconnect of every client ("io server disconnect")
+   */
+  disconnectAll(): void {
+    this.io?.disconnectSockets(true);
+  }
+
+  /**
+   * Close every client's transport, as if the network dropped
+   * ("transport close")
+   */
+  dropConnections(): void {
+    this.io?.sockets.sockets.forEach((socket) => {
+      socket.conn.close();
+    });
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // ASSERTIONS
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Messages received from clients, optionally filtered by event name
+   */
+  getReceived(event?: string): ReceivedMessage[] {
+    return event
+      ? this.received.filter((message) => message.event === event)
+      : [...this.received];
+  }
+
+  /**
+   * Forget received messages and exchange requests
+   */
+  clearReceived(): void {
+    this.received = [];
+    this.exchangeRequests = [];
+  }
+
+  /**
+   * Signed actions received on the exchange endpoint, optionally filtered
+   * by action type (e.g., "order", "cancel")
+   */
+  getExchangeRequests(type?: string): ExchangeRequest[] {
+    return type
+      ? this.exchangeRequests.filter((request) => request.action.type === type)
+      : [...this.exchangeRequests];
+  }
+
+  /**
+   * Rooms a client has joined, or the union across all clients
+   */
+  getRooms(clientId?: string): string[] {
+    const rooms = new Set<string>();
+
+    this.io?.sockets.sockets.forEach((socket) => {
+      if (clientId && socket.id !== clientId) return;
+      socket.rooms.forEach((room) => {
+        // Every socket is in a room named after its own id
+        if (room !== socket.id) rooms.add(room);
+      });
+    });
+
+    return Array.from(rooms);
+  }
+
+  /**
+   * Ids of connected clients
+   */
+  getClients(): string[] {
+    return Array.from(this.io?.sockets.sockets.keys() ?? []);
+  }
+
+  /**
+   * Wait for a client message. Resolves immediately if a matching message
+   * was already received (since the last clearReceived()).
+   * @param event - Event name (e.g., "subscribe:trades")
+   * @param predicate - Optional filter on the message
+   * @param timeout - Timeout in ms (default: 5000)
+   */
+  waitFor(
+    event: string,
+    predicate?: (message: ReceivedMessage) => boolean,
+    timeout: number = 5000
+  ): Promise<ReceivedMessage> {
+    const existing = this.received.find(
+      (message) =>
+        message.event === event && (!predicate || predicate(message))
+    );
+    if (existing) return Promise.resolve(existing);
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        event,
+        predicate,
+        resolve: (message) => {
+          clearTimeout(timer);
+          resolve(message);
+        },
+      };
+      const timer = setTimeout(() => {
+        this.waiters.delete(waiter);
+        reject(new Error(`Timed out waiting for ${event} (${timeout}ms)`));
+      }, timeout);
+
+      this.waiters.add(waiter);
+    });
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // PROTOCOL
+  // ═══════════════════════════════════════════════════════════════════════
+
+  private handleConnection(socket: Socket): void {
+    socket.onAny((event: string, ...args: unknown[]) => {
+      const payload = typeof args[0] === "function" ? undefined : args[0];
+      this.record({
+        clientId: socket.id,
+        event,
+        payload,
+        timestamp: Date.now(),
+      });
+    });
+
+    socket.on("subscribe:price", (data?: { asset?: string }) => {
+      const asset = data?.asset;
+      this.join(socket, asset ? `price:${asset}` : "prices:all", "price", asset);
+    });
+
+    socket.on("subscribe:orderbook", (data: { asset: string }) => {
+      this.join(socket, `orderbook:${data.asset}`, "orderbook", data.asset);
+    });
+
+    socket.on("subscribe:trades", (data: { asset: string }) => {
+      this.join(socket, `trades:${data.asset}`, "trades", data.asset);
+    });
+
+    socket.on("subscribe:candle", (data: { coin: string; interval: string }) => {
+      this.join(
+        socket,
+        `candle:${data.coin}:${data.interval}`,
+        "candle",
+        data.coin
+      );
+    });
+
+    socket.on("unsubscribe", (data: { room: string }) => {
+      socket.leave(data.room);
+      this.delay(() => socket.emit("unsubscribed", { room: data.room }));
+    });
+
+    socket.on(
+      "get:prices",
+      (data: { assets: string[] }, ack?: (prices: PriceData[]) => void) => {
+        const prices = this.prices.filter((price) =>
+          data.assets.includes(price.symbol)
+        );
+        this.delay(() =>
+          this.legacyPriceResponses ? socket.emit("prices:snapshot", prices) : ack?.(prices)
+        );
+      }
+    );
+
+    socket.on(
+      "get:candles",
+      (
+        data: { coin: string; interval: string; startTime: number; endTime: number },
+        ack?: (candles: Candle[]) => void
+      ) => {
+        const candles = (this.candleHistory.get(`${data.coin}:${data.interval}`) ?? [])
+          .filter((candle) => candle.time >= data.startTime && candle.time <= data.endTime)
+          .slice(0, this.historyPageSize);
+        this.delay(() => ack?.(candles));
+      }
+    );
+
+    socket.on(
+      "get:trades",
+      (
+        data: { asset: string; since: number; until: number },
+        ack?: (trades: Trade[]) => void
+      ) => {
+        const trades = (this.tradeHistory.get(data.asset) ?? [])
+          .filter((trade) => trade.timestamp >= data.since && trade.timestamp <= data.until)
+          .slice(0, this.historyPageSize);
+        this.delay(() => ack?.(trades));
+      }
+    );
+
+    socket.on(
+      "auth:challenge",
+      (data: { wallet: string }, ack?: (challenge: unknown) => void) => {
+        const nonce = randomBytes(16).toString("hex");
+        const message = `Sign in to Nylium\nWallet: ${data.wallet}\nNonce: ${nonce}`;
+        this.challenges.set(nonce, { wallet: data.wallet, message });
+        this.delay(() => ack?.({ nonce, message }));
+      }
+    );
+
+    socket.on("authenticate", (data: AuthenticatePayload) => {
+      const error = this.authHandler(data.wallet) ?? this.verifyProof(data);
+      if (error) {
+        this.delay(() =>
+          socket.emit("auth:error", { message: error, wallet: data.wallet })
+        );
+        return;
+      }
+
+      // Wallets accumulate: one connection can follow several
+      const wallets = (this.wallets.get(socket.id) ?? []).filter(
+        (wallet) => !sameWallet(wallet, data.wallet)
+      );
+      this.wallets.set(socket.id, [...wallets, data.wallet]);
+      socket.join(walletRoom(data.wallet));
+
+      // Signed sessions get a token to skip signing on reconnect
+      const token =
+        data.token ?? (data.signature ? this.issueToken(data.wallet) : null);
+      const response = token
+        ? { wallet: data.wallet, token, expiresAt: this.tokens.get(token)!.expiresAt }
+        : { wallet: data.wallet };
+      this.delay(() => socket.emit("authenticated", response));
+    });
+
+    socket.on("unauthenticate", (data: { wallet: string }) => {
+      const wallets = this.wallets.get(socket.id) ?? [];
+      this.wallets.set(
+        socket.id,
+        wallets.filter((wallet) => !sameWallet(wallet, data.wallet))
+      );
+      socket.leave(walletRoom(data.wallet));
+    });
+
+    // Called as (ack) or ({ wallet }, ack)
+    socket.on("get:userBalance", (...args: unknown[]) => {
+      const ack = args.pop() as
+        | ((balance: number | { error: string }) => void)
+        | undefined;
+      const requested = (args[0] as { wallet?: string } | undefined)?.wallet;
+      const wallets = this.wallets.get(socket.id) ?? [];
+      const wallet = requested
+        ? wallets.find((entry) => sameWallet(entry, requested))
+        : wallets[0];
+
+      const response = wallet
+        ? this.balances.get(wallet.toLowerCase()) ?? 0
+        : { error: "Not authenticated" };
+      this.delay(() => ack?.(response));
+    });
+
+    socket.on("disconnect", () => {
+      this.wallets.delete(socket.id);
+    });
+
+    this.delay(() =>
+      socket.emit("connected", { clientId: socket.id, timestamp: Date.now() })
+    );
+  }
+
+  private join(socket: Socket, room: string, type: string, asset?: string): void {
+    socket.join(room);
+
+    this.delay(() => {
+      socket.emit("subscribed", { type, asset });
+
+      const snapshot = this.snapshots.get(room);
+      if (snapshot) {
+        socket.emit(snapshot.event, snapshot.data);
+      } else if (type === "price" && this.prices.length > 0) {
+        if (asset) {
+          const price = this.prices.find((p) => p.symbol === asset);
+          if (price) socket.emit("price:snapshot", price);
+        } else {
+          socket.emit("prices:snapshot", this.prices);
+        }
+      }
+    });
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // EXCHANGE API
+  // ═══════════════════════════════════════════════════════════════════════
+
+  private handleHttp(req: IncomingMessage, res: ServerResponse): void {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      let status = 200;
+      let response: unknown;
+
+      try {
+        const data = JSON.parse(body || "{}");
+        if (req.method === "POST" && req.url === "/exchange") {
+          response = this.handleExchange(data);
+        } else if (req.method === "POST" && req.url === "/info" && data.type === "allMids") {
+          response = Object.fromEntries(
+            this.prices.map((price) => [price.symbol, String(price.price)])
+          );
+        } else {
+          status = 404;
+          response = { error: "Not found" };
+        }
+      } catch {
+        status = 400;
+        response = { error: "Invalid JSON" };
+      }
+
+      this.delay(() => {
+        res.writeHead(status, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(response));
+      });
+    });
+  }
+
+  private handleExchange(body: {
+    action: ExchangeRequest["action"];
+    nonce: number;
+    signature: { r: string; s: string; v: number };
+    vaultAddress?: string | null;
+  }): unknown {
+    const { action, nonce, signature } = body;
+    const vaultAddress = body.vaultAddress ?? null;
+
+    let signer: string;
+    try {
+      const typedData =
+        "signatureChainId" in action
+          ? userSignedActionTypedData(action)
+          : l1ActionTypedData(action, nonce, vaultAddress, this.exchangeNetwork);
+      const packed = `${signature.r}${signature.s.slice(2)}${signature.v.toString(16)}`;
+      signer = recoverTypedDataAddress(typedData, packed);
+    } catch {
+      return { status: "err", response: "Invalid signature" };
+    }
+
+    const request: ExchangeRequest = {
+      action,
+      nonce,
+      vaultAddress,
+      signer,
+      timestamp: Date.now(),
+    };
+    this.exchangeRequests.push(request);
+
+    return this.exchangeHandler(request) ?? this.defaultExchangeResponse(action);
+  }
+
+  private defaultExchangeResponse(action: ExchangeRequest["action"]): unknown {
+    const orderStatus = (order: { p: string; s: string; t: any }, oid?: number) => {
+      const orderId = oid ?? this.nextOrderId++;
+      return order.t?.limit?.tif === "Ioc"
+        ? { filled: { totalSz: order.s, avgPx: order.p, oid: orderId } }
+        : { resting: { oid: orderId } };
+    };
+
+    switch (action.type) {
+      case "order":
+        return ok("order", action.orders.map((order: any) => orderStatus(order)));
+      case "batchModify":
+        return ok(
+          "order",
+          action.modifies.map((modify: any) =>
+            orderStatus(modify.order, typeof modify.oid === "number" ? modify.oid : undefined)
+          )
+        );
+      case "cancel":
+      case "cancelByCloid":
+        return ok("cancel", action.cancels.map(() => "success"));
+      default:
+        return { status: "ok", response: { type: "default" } };
+    }
+  }
+
+  /**
+   * Check a signature or token
+   * @returns An error message, or null if the wallet may authenticate
+   */
+  private verifyProof(data: AuthenticatePayload): string | null {
+    if (data.token) {
+      const session = this.tokens.get(data.token);
+      if (!session || session.expiresAt <= Date.now()) return "Invalid token";
+      return sameWallet(session.wallet, data.wallet) ? null : "Invalid token";
+    }
+
+    if (data.signature) {
+      const challenge = data.nonce ? this.challenges.get(data.nonce) : undefined;
+      if (!challenge || !sameWallet(challenge.wallet, data.wallet)) {
+        return "Unknown challenge";
+      }
+      this.challenges.delete(data.nonce!);
+
+      try {
+        const signer = recoverMessageAddress(challenge.message, data.signature);
+        return sameWallet(signer, data.wallet) ? null : "Invalid signature";
+      } catch {
+        return "Invalid signature";
+      }
+    }
+
+    return this.requireSignature ? "Signature required" : null;
+  }
+
+  private issueToken(wallet: string): string {
+    const token = randomBytes(24).toString("hex");
+    this.tokens.set(token, { wallet, expiresAt: Date.now() + this.tokenTtl });
+    return token;
+  }
+
+  private record(message: ReceivedMessage): void {
+    this.received.push(message);
+
+    this.waiters.forEach((waiter) => {
+      if (
+        waiter.event === message.event &&
+        (!waiter.predicate || waiter.predicate(message))
+      ) {
+        this.waiters.delete(waiter);
+        waiter.resolve(message);
+      }
+    });
+  }
+
+  private delay(send: () => void): void {
+    if (this.latency > 0) {
+      setTimeout(send, this.latency);
+    } else {
+      send();
+    }
+  }
+}
+
+function walletRoom(wallet: string): string {
+  return `user:${wallet.toLowerCase()}`;
+}
+
+function ok(type: string, statuses: unknown[]): unknown {
+  return { status: "ok", response: { type, data: { statuses } } };
+}
+
+function sameWallet(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
@@ -0,0 +1,247 @@
+import type { HyperliquidClient } from "./client";
+import { TypedEmitter, ListenerGroup } from "./emitter";
+import {
+  ClientEvents,
+  LargeTrade,
+  Trade,
+  TradeFlowEvents,
+  TradeFlowOptions,
+  TradeFlowStats,
+} from "./types";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TRADE FLOW
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * TradeFlow - Rolling analytics over one asset's trade tape: buy and sell
+ * volume, volume delta, CVD, trade rate and VWAP, plus "largeTrade" events.
+ *
+ * The window ends at the newest trade rather than the local clock, so
+ * replays and recordings give the same results. Trades already in the
+ * window (e.g., resent in a snapshot after a reconnect) are skipped.
+ *
+ * Trades of the same user and side within one batch are grouped before
+ * the threshold check, so an order sweeping several levels is reported
+ * once. Trades without a user are checked one by one.
+ *
+ * @example
+ * ```typescript
+ * client.subscribeTrades('BTC');
+ * const flow = new TradeFlow(client, { asset: 'BTC', window: 60_000 });
+ *
+ * flow.on('update', ({ delta, cvd, tradesPerSecond }) => render(delta, cvd, tradesPerSecond));
+ * flow.on('largeTrade', ({ side, value, user }) => console.log(`${side} $${value}`, user));
+ * ```
+ */
+export class TradeFlow extends TypedEmitter<TradeFlowEvents> {
+  private listeners: ListenerGroup<ClientEvents>;
+  private asset: string;
+  private window: number;
+  private largeTradeValue?: number;
+  private largeTradeMultiplier: number;
+  private minTrades: number;
+
+  // Trades in the window, oldest first, from `head` on
+  private trades: Trade[] = [];
+  private head = 0;
+  private ids = new Set<string>();
+  private buyVolume = 0;
+  private sellVolume = 0;
+  private buyValue = 0;
+  private sellValue = 0;
+  private cvd = 0;
+  private newest = 0;
+
+  constructor(client: HyperliquidClient, options: TradeFlowOptions) {
+    super();
+
+    this.asset = client.getAssetRegistry().get(options.asset)?.symbol ?? options.asset;
+    this.window = options.window ?? 60000;
+    this.largeTradeValue = options.largeTradeValue;
+    this.largeTradeMultiplier = options.largeTradeMultiplier ?? 10;
+    this.minTrades = options.minTrades ?? 50;
+
+    if (!(this.window > 0)) {
+      throw new Error("Trade flow window must be positive");
+    }
+
+    this.listeners = new ListenerGroup<ClientEvents>(client);
+    this.listeners.on("trades", ({ asset, trades }) => {
+      if (asset === this.asset) this.add(trades);
+    });
+  }
+
+  /**
+   * Feed trades by hand, e.g. from getTradeHistory() to warm up the
+   * adaptive threshold. Trades older than the window are ignored.
+   */
+  add(trades: Trade[]): void {
+    const batch = trades
+      .filter((trade) => !this.ids.has(trade.id))
+      .sort((a, b) => a.timestamp - b.timestamp);
+    if (batch.length === 0) return;
+
+    // Checked against the window before the batch, so a large trade
+    // doesn't raise its own threshold
+    const threshold = this.threshold();
+
+    const accepted: Trade[] = [];
+    batch.forEach((trade) => {
+      if (trade.timestamp < this.newest - this.window) return;
+      this.newest = Math.max(this.newest, trade.timestamp);
+      this.insert(trade);
+      accepted.push(trade);
+    });
+    this.evict();
+
+    if (accepted.length === 0) return;
+    if (threshold !== undefined) this.detectLargeTrades(accepted, threshold);
+    this.emit("update", this.getStats());
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // GETTERS
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Current window statistics
+   */
+  getStats(): TradeFlowStats {
+    const trades = this.trades.length - this.head;
+    const volume = this.buyVolume + this.sellVolume;
+
+    return {
+      asset: this.asset,
+      window: this.window,
+      trades,
+      tradesPerSecond: trades / (this.window / 1000),
+      buyVolume: this.buyVolume,
+      sellVolume: this.sellVolume,
+      buyValue: this.buyValue,
+      sellValue: this.sellValue,
+      delta: this.buyVolume - this.sellVolume,
+      cvd: this.cvd,
+      vwap: volume > 0 ? (this.buyValue + this.sellValue) / volume : undefined,
+      largeTradeThreshold: this.threshold(),
+      timestamp: this.newest,
+    };
+  }
+
+  /**
+   * Empty the window and restart the CVD from zero
+   */
+  reset(): void {
+    this.trades = [];
+    this.head = 0;
+    this.ids.clear();
+    this.buyVolume = 0;
+    this.sellVolume = 0;
+    this.buyValue = 0;
+    this.sellValue = 0;
+    this.cvd = 0;
+    this.newest = 0;
+  }
+
+  /**
+   * Stop following the client
+   */
+  destroy(): void {
+    this.listeners.removeAll();
+    this.reset();
+    this.removeAllListeners();
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // PRIVATE METHODS
+  // ═══════════════════════════════════════════════════════════════════════
+
+  private insert(trade: Trade): void {
+    this.trades.push(trade);
+    this.ids.add(trade.id);
+
+    if (trade.side === "buy") {
+      this.buyVolume += trade.size;
+      this.buyValue += trade.value;
+      this.cvd += trade.size;
+    } else {
+      this.sellVolume += trade.size;
+      this.sellValue += trade.value;
+      this.cvd -= trade.size;
+    }
+  }
+
+  private evict(): void {
+    const start = this.newest - this.window;
+
+    while (this.head < this.trades.length && this.trades[this.head].timestamp < start) {
+      const trade = this.trades[this.head++];
+      this.ids.delete(trade.id);
+      if (trade.side === "buy") {
+        this.buyVolume -= trade.size;
+        this.buyValue -= trade.value;
+      } else {
+        this.sellVolume -= trade.size;
+        this.sellValue -= trade.value;
+      }
+    }
+
+    if (this.head === this.trades.length) {
+      // Also clears the rounding left by the subtractions
+      this.trades = [];
+      this.head = 0;
+      this.buyVolume = 0;
+      this.sellVolume = 0;
+      this.buyValue = 0;
+      this.sellValue = 0;
+    } else if (this.head > 1000 && this.head * 2 > this.trades.length) {
+      this.trades = this.trades.slice(this.head);
+      this.head = 0;
+    }
+  }
+
+  /**
+   * Large trade threshold in USD: the fixed one, or a multiple of the
+   * window's average trade value once it holds enough trades
+   */
+  private threshold(): number | undefined {
+    if (this.largeTradeValue !== undefined) return this.largeTradeValue;
+
+    const trades = this.trades.length - this.head;
+    if (trades < this.minTrades) return undefined;
+    return ((this.buyValue + this.sellValue) / trades) * this.largeTradeMultiplier;
+  }
+
+  private detectLargeTrades(trades: Trade[], threshold: number): void {
+    const groups = new Map<string, Trade[]>();
+    trades.forEach((trade) => {
+      const key = trade.user ? `${trade.user.toLowerCase()}:${trade.side}` : trade.id;
+      const group = groups.get(key);
+      if (group) {
+        group.push(trade);
+      } else {
+        groups.set(key, [trade]);
+      }
+    });
+
+    groups.forEach((group) => {
+      const value = group.reduce((sum, trade) => sum + trade.value, 0);
+      if (value <= threshold) return;
+
+      const size = group.reduce((sum, trade) => sum + trade.size, 0);
+      const last = group[group.length - 1];
+      const largeTrade: LargeTrade = {
+        asset: this.asset,
+        side: last.side,
+        user: last.user,
+        price: size > 0 ? group.reduce((sum, t) => sum + t.price * t.size, 0) / size : last.price,
+        size,
+        value,
+        threshold,
+        timestamp: last.timestamp,
+        trades: group,
+      };
+      this.emit("largeTrade", largeTrade);
+    });
+  }
+}
@@ -0,0 +1,650 @@
+import { AssetRegistry } from "./assets";
+import {
+  HlActiveAssetCtx,
+  HlCandle,
+  HlClearinghouseState,
+  HlMetaAndAssetCtxs,
+  HlSpotMetaAndAssetCtxs,
+  HlUserFills,
+  HlUserFundings,
+  HlWebData2,
+  normalizeAssetContext,
+  normalizeBalance,
+  normalizeBook,
+  normalizeCandle,
+  normalizeFill,
+  normalizeFunding,
+  normalizeMids,
+  normalizeOpenOrder,
+  normalizePerpContexts,
+  normalizePositions,
+  normalizeSpotContexts,
+  normalizeTrades,
+} from "./normalize";
+import { Candle, Network, PriceData, Transport } from "./types";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// NETWORK CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Hyperliquid public WebSocket URLs for each network
+ */
+export const HYPERLIQUID_WS_URLS: Record<Network, string> = {
+  mainnet: "wss://api.hyperliquid.xyz/ws",
+  testnet: "wss://api.hyperliquid-testnet.xyz/ws",
+};
+
+/** The server drops connections idle for 60s */
+const DEFAULT_PING_INTERVAL = 50000;
+
+/** Reason reported when disconnect() closes the transport (as socket.io does) */
+const CLIENT_DISCONNECT = "io client disconnect";
+
+const WALLET_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Subset of the WebSocket API the transport uses (browser WebSocket,
+ * Node 22+ global WebSocket or the `ws` package)
+ */
+export interface WebSocketLike {
+  send(data: string): void;
+  close(): void;
+  onopen: ((event: any) => void) | null;
+  onmessage: ((event: any) => void) | null;
+  onclose: ((event: any) => void) | null;
+  onerror: ((event: any) => void) | null;
+}
+
+export type WebSocketConstructor = new (url: string) => WebSocketLike;
+
+/**
+ * Hyperliquid transport options
+ */
+export interface HyperliquidTransportOptions {
+  /** Network whose asset metadata names assets (default: mainnet) */
+  network?: Network;
+  /** WebSocket implementation (default: the global WebSocket) */
+  WebSocket?: WebSocketConstructor;
+  /** Keep-alive ping interval in ms (default: 50000) */
+  pingInterval?: number;
+}
+
+type Handler = (...args: any[]) => void;
+type AnyHandler = (event: string, ...args: any[]) => void;
+
+interface HlSubscription {
+  type: string;
+  coin?: string;
+  interval?: string;
+  user?: string;
+}
+
+interface PendingPost {
+  resolve: (data: any) => void;
+  reject: (error: Error) => void;
+}
+
+interface PostResponse {
+  id: number;
+  response: { type: "info" | "error"; payload: any };
+}
+
+/** Feeds followed for each authenticated wallet */
+const USER_FEEDS = ["webData2", "userFills", "userFundings"];
+
+/** Nylium subscription confirmation type per Hyperliquid channel */
+const SUBSCRIBED_TYPES: Record<string, string> = {
+  allMids: "price",
+  activeAssetCtx: "price",
+  l2Book: "orderbook",
+  trades: "trades",
+  candle: "candle",
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HYPERLIQUID TRANSPORT
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * HyperliquidTransport - Connects straight to Hyperliquid's public
+ * WebSocket and speaks the Nylium event protocol to the client, so the
+ * SDK keeps working without the relay.
+ *
+ * Subscriptions map to Hyperliquid channels (prices to `allMids` and
+ * `activeAssetCtx`, order books to `l2Book`, trades, candles) and user data
+ * to `webData2`, `userFills` and `userFundings`. Payloads are translated
+ * by the normalizers in normalize.ts.
+ *
+ * Differences from the relay:
+ * - "prices" carry mid prices only; 24h statistics come with single-asset
+ *   price subscriptions (24h high/low are not published and read 0)
+ * - user data is public on Hyperliquid, so authentication is read-only;
+ *   signed authentication is rejected
+ * - positions and open orders arrive as snapshots every block
+ * - candle history is served, trade history is not
+ *
+ * @example
+ * ```typescript
+ * const client = new HyperliquidClient({ transport: 'hyperliquid' });
+ *
+ * // Node < 22 has no global WebSocket
+ * import WebSocket from 'ws';
+ * const client = new HyperliquidClient({
+ *   url: HYPERLIQUID_WS_URLS.mainnet,
+ *   transport: (url, network) => new HyperliquidTransport(url, { network, WebSocket }),
+ * });
+ * ```
+ */
+export class HyperliquidTransport implements Transport {
+  private socket: WebSocketLike | null = null;
+  private assets: AssetRegistry;
+  private handlers = new Map<string, Set<Handler>>();
+  private anyHandlers = new Set<AnyHandler>();
+  private open = false;
+  private closed = false;
+  private pingTimer: ReturnType<typeof setInterval> | null = null;
+  private readonly id = `hl-${Math.random().toString(36).slice(2, 10)}`;
+
+  // Market subscriptions keyed by Nylium room; rooms that received data
+  private rooms = new Map<string, HlSubscription>();
+  private primed = new Set<string>();
+
+  // Followed wallets keyed by lowercase address
+  private users = new Map<string, string>();
+
+  private posts = new Map<number, PendingPost>();
+  private nextPostId = 1;
+
+  constructor(
+    private url: string,
+    private options: HyperliquidTransportOptions = {}
+  ) {
+    this.assets = new AssetRegistry(options.network ?? "mainnet");
+
+    // Open after the caller attached its handlers, like io()
+    setTimeout(() => this.openSocket(), 0);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // TRANSPORT INTERFACE
+  // ═══════════════════════════════════════════════════════════════════════
+
+  on(event: string, handler: Handler): this {
+    if (!this.handlers.has(event)) {
+      this.handlers.set(event, new Set());
+    }
+    this.handlers.get(event)!.add(handler);
+    return this;
+  }
+
+  off(event: string, handler: Handler): this {
+    this.handlers.get(event)?.delete(handler);
+    return this;
+  }
+
+  onAny(handler: AnyHandler): this {
+    this.anyHandlers.add(handler);
+    return this;
+  }
+
+  /**
+   * Send a Nylium client event. A trailing function is the ack callback.
+   */
+  emit(event: string, ...args: any[]): this {
+    const ack: Handler | undefined =
+      typeof args[args.length - 1] === "function" ? args.pop() : undefined;
+    const payload = args[0] ?? {};
+
+    switch (event) {
+      case "subscribe:price":
+        if (payload.asset) {
+          this.join(`price:${payload.asset}`, {
+            type: "activeAssetCtx",
+            coin: payload.asset,
+          });
+        } else {
+          this.join("prices:all", { type: "allMids" });
+        }
+        break;
+      case "subscribe:orderbook":
+        this.join(`orderbook:${payload.asset}`, { type: "l2Book", coin: payload.asset });
+        break;
+      case "subscribe:trades":
+        this.join(`trades:${payload.asset}`, { type: "trades", coin: payload.asset });
+        break;
+      case "subscribe:candle":
+        this.join(`candle:${payload.coin}:${payload.interval}`, {
+          type: "candle",
+          coin: payload.coin,
+          interval: payload.interval,
+        });
+        break;
+      case "unsubscribe":
+        this.leave(payload.room);
+        break;
+      case "authenticate":
+        this.follow(payload.wallet);
+        break;
+      case "unauthenticate":
+        this.unfollow(payload.wallet);
+        break;
+      case "auth:challenge":
+        ack?.({
+          error: "Signed authentication is not available on Hyperliquid; authenticate with the wallet address",
+        });
+        break;
+      case "get:prices":
+        this.answer(ack, this.fetchPrices(payload.assets ?? []));
+        break;
+      case "get:candles":
+        this.answer(ack, this.fetchCandles(payload));
+        break;
+      case "get:trades":
+        ack?.({ error: "Trade history is not available from Hyperliquid" });
+        break;
+      case "get:userBalance":
+        this.answer(ack, this.fetchBalance(payload.wallet));
+        break;
+      default:
+        ack?.({ error: `Unsupported by the Hyperliquid transport: ${event}` });
+    }
+    return this;
+  }
+
+  disconnect(): this {
+    if (this.closed) return this;
+    const wasOpen = this.open;
+    this.close();
+    if (wasOpen) this.receive("disconnect", CLIENT_DISCONNECT);
+    return this;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // CONNECTION
+  // ═══════════════════════════════════════════════════════════════════════
+
+  private openSocket(): void {
+    if (this.closed) return;
+
+    const WebSocketImpl =
+      this.options.WebSocket ??
+      (globalThis as { WebSocket?: WebSocketConstructor }).WebSocket;
+    if (!WebSocketImpl) {
+      this.fail(new Error("No WebSocket implementation available; pass one in the WebSocket option"));
+      return;
+    }
+
+    try {
+      this.socket = new WebSocketImpl(this.url);
+    } catch (error) {
+      this.fail(error instanceof Error ? error : new Error(String(error)));
+      return;
+    }
+
+    this.socket.onopen = () => {
+      this.open = true;
+      this.pingTimer = setInterval(
+        () => this.send({ method: "ping" }),
+        this.options.pingInterval ?? DEFAULT_PING_INTERVAL
+      );
+      this.receive("connected", { clientId: this.id, timestamp: Date.now() });
+    };
+
+    this.socket.onmessage = (event: { data: unknown }) => {
+      this.handleMessage(String(event.data));
+    };
+
+    this.socket.onclose = () => {
+      if (this.closed) return;
+      if (this.open) {
+        this.close();
+        this.receive("disconnect", "transport close");
+      } else {
+        this.fail(new Error(`WebSocket connection to ${this.url} failed`));
+      }
+    };
+
+    // Errors are followed by a close event
+    this.socket.onerror = () => {};
+  }
+
+  private fail(error: Error): void {
+    this.close();
+    this.receive("connect_error", error);
+  }
+
+  private close(): void {
+    this.closed = true;
+    this.open = false;
+
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+
+    if (this.socket) {
+      this.socket.onopen = this.socket.onmessage = this.socket.onclose = null;
+      this.socket.close();
+      this.socket = null;
+    }
+
+    this.posts.forEach((post) => post.reject(new Error("Connection closed")));
+    this.posts.clear();
+  }
+
+  private send(message: unknown): void {
+    if (this.open) {
+      this.socket?.send(JSON.stringify(message));
+    }
+  }
+
+  /**
+   * Hand an event to the client's handlers
+   */
+  private receive(event: string, ...args: unknown[]): void {
+    this.handlers.get(event)?.forEach((handler) => handler(...args));
+    if (event !== "connect_error" && event !== "disconnect") {
+      this.anyHandlers.forEach((handler) => handler(event, ...args));
+    }
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // SUBSCRIPTIONS
+  // ═══════════════════════════════════════════════════════════════════════
+
+  private join(room: string, subscription: HlSubscription): void {
+    this.rooms.set(room, subscription);
+    this.primed.delete(room);
+    this.send({ method: "subscribe", subscription });
+  }
+
+  private leave(room: string): void {
+    const subscription = this.rooms.get(room);
+    if (!subscription) return;
+
+    this.rooms.delete(room);
+    this.send({ method: "unsubscribe", subscription });
+  }
+
+  private follow(wallet: unknown): void {
+    if (typeof wallet !== "string" || !WALLET_PATTERN.test(wallet)) {
+      this.receive("auth:error", { wallet, message: "Invalid wallet address" });
+      return;
+    }
+
+    // "authenticated" follows the webData2 subscription response
+    this.users.set(wallet.toLowerCase(), wallet);
+    USER_FEEDS.forEach((type) =>
+      this.send({ method: "subscribe", subscription: { type, user: wallet.toLowerCase() } })
+    );
+  }
+
+  private unfollow(wallet: unknown): void {
+    if (typeof wallet !== "string" || !this.users.delete(wallet.toLowerCase())) {
+      return;
+    }
+    USER_FEEDS.forEach((type) =>
+      this.send({ method: "unsubscribe", subscription: { type, user: wallet.toLowerCase() } })
+    );
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // INBOUND MESSAGES
+  // ═══════════════════════════════════════════════════════════════════════
+
+  private handleMessage(raw: string): void {
+    let message: { channel?: string; data?: any };
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      return;
+    }
+
+    const { channel, data } = message;
+
+    // A payload the normalizers do not expect must not escape onmessage
+    try {
+      this.dispatch(channel, data);
+    } catch (error) {
+      this.receive("error", {
+        code: "MALFORMED_MESSAGE",
+        message: `Malformed ${channel} message: ${(error as Error).message}`,
+      });
+    }
+  }
+
+  private dispatch(channel: string | undefined, data: any): void {
+    switch (channel) {
+      case "allMids":
+        if (this.rooms.has("prices:all")) {
+          this.deliverMarket("prices:all", "prices", normalizeMids(data, this.assets));
+        }
+        break;
+
+      case "activeAssetCtx":
+      case "activeSpotAssetCtx": {
+        const { coin, ctx } = data as HlActiveAssetCtx;
+        const room = `price:${coin}`;
+        if (this.rooms.has(room)) {
+          this.deliverMarket(room, "price", normalizeAssetContext(coin, ctx, this.assets));
+        }
+        break;
+      }
+
+      case "l2Book":
+        this.deliverMarket(`orderbook:${data.coin}`, "orderbook", normalizeBook(data, this.assets));
+        break;
+
+      case "trades":
+        if (data.length > 0) {
+          const asset = data[0].coin;
+          this.deliverMarket(`trades:${asset}`, "trades", {
+            asset,
+            trades: normalizeTrades(data, this.assets),
+          });
+        }
+        break;
+
+      case "candle":
+        this.receive("candle:update", normalizeCandle(data));
+        break;
+
+      case "webData2":
+        this.handleWebData(data);
+        break;
+
+      case "userFills": {
+        const { user, isSnapshot, fills } = data as HlUserFills;
+        const history = fills.map((fill) => normalizeFill(fill, this.assets));
+        if (isSnapshot) {
+          this.deliverUser(user, "orderHistory:snapshot", history);
+        } else {
+          history.forEach((fill) => this.deliverUser(user, "orderHistory:update", fill));
+        }
+        break;
+      }
+
+      case "userFundings": {
+        const { user, isSnapshot, fundings } = data as HlUserFundings;
+        const payments = fundings.map(normalizeFunding);
+        if (isSnapshot) {
+          this.deliverUser(user, "funding:snapshot", payments);
+        } else {
+          payments.forEach((funding) => this.deliverUser(user, "funding:update", funding));
+        }
+        break;
+      }
+
+      case "subscriptionResponse":
+        this.handleSubscriptionResponse(data);
+        break;
+
+      case "post":
+        this.handlePostResponse(data);
+        break;
+
+      case "error":
+        this.receive("error", { code: "SERVER_ERROR", message: String(data) });
+        break;
+    }
+  }
+
+  /**
+   * Emit market data: the first message of a room as its snapshot
+   */
+  private deliverMarket(room: string, prefix: string, data: unknown): void {
+    const kind = this.primed.has(room) ? "update" : "snapshot";
+    this.primed.add(room);
+    this.receive(`${prefix}:${kind}`, data);
+  }
+
+  /**
+   * Emit user data tagged with the wallet as it was authenticated
+   */
+  private deliverUser(user: string, event: string, data: unknown): void {
+    const wallet = this.users.get(user.toLowerCase());
+    if (wallet) this.receive(event, data, { wallet });
+  }
+
+  private handleWebData({ user, clearinghouseState, openOrders }: HlWebData2): void {
+    this.deliverUser(
+      user,
+      "position:snapshot",
+      normalizePositions(clearinghouseState, this.assets)
+    );
+    this.deliverUser(
+      user,
+      "openOrder:snapshot",
+      openOrders.map((order) => normalizeOpenOrder(order, this.assets))
+    );
+    this.deliverUser(user, "balance:update", {
+      balance: normalizeBalance(clearinghouseState),
+    });
+  }
+
+  private handleSubscriptionResponse({
+    method,
+    subscription,
+  }: {
+    method: string;
+    subscription: HlSubscription;
+  }): void {
+    if (subscription.type === "webData2" && subscription.user) {
+      const wallet = this.users.get(subscription.user.toLowerCase());
+      if (method === "subscribe" && wallet) this.receive("authenticated", { wallet });
+      return;
+    }
+
+    const type = SUBSCRIBED_TYPES[subscription.type];
+    if (!type) return;
+
+    if (method === "subscribe") {
+      this.receive("subscribed", { type, asset: subscription.coin });
+    } else {
+      this.receive("unsubscribed", { room: roomOf(subscription) });
+    }
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // REQUESTS
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Send an info request over the socket
+   */
+  private post<T>(payload: Record<string, unknown>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (!this.open) {
+        reject(new Error("Not connected"));
+        return;
+      }
+      const id = this.nextPostId++;
+      this.posts.set(id, { resolve, reject });
+      this.send({ method: "post", id, request: { type: "info", payload } });
+    });
+  }
+
+  private handlePostResponse({ id, response }: PostResponse): void {
+    const pending = this.posts.get(id);
+    if (!pending) return;
+    this.posts.delete(id);
+
+    if (response.type === "error") {
+      pending.reject(new Error(String(response.payload)));
+    } else {
+      pending.resolve(response.payload?.data);
+    }
+  }
+
+  /**
+   * Answer an ack with a result, or `{ error }` if it fails
+   */
+  private answer(ack: Handler | undefined, result: Promise<unknown>): void {
+    result.then(
+      (data) => ack?.(data),
+      (error: Error) => ack?.({ error: error.message })
+    );
+  }
+
+  private async fetchPrices(assets: string[]): Promise<PriceData[]> {
+    const symbols = new Set(assets.map((asset) => this.assets.get(asset)?.symbol ?? asset));
+    const [perps, spots] = await Promise.all([
+      this.post<HlMetaAndAssetCtxs>({ type: "metaAndAssetCtxs" }),
+      this.post<HlSpotMetaAndAssetCtxs>({ type: "spotMetaAndAssetCtxs" }),
+    ]);
+
+    return [
+      ...normalizePerpContexts(perps, this.assets),
+      ...normalizeSpotContexts(spots, this.assets),
+    ].filter((price) => symbols.has(price.symbol));
+  }
+
+  private async fetchCandles(request: {
+    coin: string;
+    interval: string;
+    startTime: number;
+    endTime: number;
+  }): Promise<Candle[]> {
+    const candles = await this.post<HlCandle[]>({ type: "candleSnapshot", req: request });
+    return candles.map(normalizeCandle);
+  }
+
+  private async fetchBalance(wallet?: string): Promise<number> {
+    const user = wallet ?? this.users.values().next().value;
+    if (!user) {
+      throw new Error("Not authenticated");
+    }
+    const state = await this.post<HlClearinghouseState>({
+      type: "clearinghouseState",
+      user: user.toLowerCase(),
+    });
+    return normalizeBalance(state);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Nylium room of a market subscription
+ */
+function roomOf({ type, coin, interval }: HlSubscription): string {
+  switch (type) {
+    case "allMids":
+      return "prices:all";
+    case "activeAssetCtx":
+      return `price:${coin}`;
+    case "l2Book":
+      return `orderbook:${coin}`;
+    case "candle":
+      return `candle:${coin}:${interval}`;
+    default:
+      return `${type}:${coin}`;
+  }
+}
@@ -36,6 +36,32 @@ export interface PriceData {
   lastUpdate: number;
 }
 
+/**
+ * What changed in one symbol's price data
+ */
+export interface PriceChange {
+  /** Asset symbol */
+  symbol: string;
+  /** Latest data */
+  current: PriceData;
+  /** Changed fields, or every field the first time; lastUpdate is not compared */
+  fields: Array<keyof PriceData>;
+  /** Previous values of the changed fields (empty the first time) */
+  previous: Partial<PriceData>;
+  /** True the first time the symbol is seen */
+  added: boolean;
+}
+
+/**
+ * MarketCache event map
+ */
+export interface MarketCacheEvents {
+  /** One symbol changed */
+  change: PriceChange;
+  /** Every symbol that changed in one batch of prices */
+  update: PriceChange[];
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // ORDER BOOK TYPES
 // ═══════════════════════════════════════════════════════════════════════════
@@ -82,6 +108,69 @@ export interface OrderBook {
   lastUpdate: number;
 }
 
+/**
+ * Side of the book a query walks ("buy" consumes asks, "sell" consumes bids)
+ */
+export type BookSide = "buy" | "sell";
+
+/**
+ * Cumulative liquidity within a distance of the mid price
+ */
+export interface DepthSummary {
+  /** Asset symbol */
+  asset: string;
+  /** Distance from mid in basis points */
+  bps: number;
+  /** Total bid size within range */
+  bidSize: number;
+  /** Total ask size within range */
+  askSize: number;
+  /** Total bid value in USD within range */
+  bidNotional: number;
+  /** Total ask value in USD within range */
+  askNotional: number;
+}
+
+/**
+ * Estimated execution of a market order against the current book
+ */
+export interface FillEstimate {
+  /** Asset symbol */
+  asset: string;
+  /** Order side */
+  side: BookSide;
+  /** Requested size */
+  size: number;
+  /** Size the visible book can fill */
+  filledSize: number;
+  /** Whether the book had enough liquidity for the full size */
+  complete: boolean;
+  /** Volume-weighted average fill price */
+  averagePrice: number;
+  /** Price of the last level touched */
+  worstPrice: number;
+  /** Total value in USD */
+  notional: number;
+  /** Price impact vs mid in USD (always >= 0) */
+  slippage: number;
+  /** Price impact vs mid in basis points */
+  slippageBps: number;
+}
+
+/**
+ * Order book levels aggregated into price buckets
+ */
+export interface GroupedOrderBook {
+  /** Asset symbol */
+  asset: string;
+  /** Bucket size in USD */
+  tickSize: number;
+  /** Bid buckets (sorted high to low) */
+  bids: OrderBookLevel[];
+  /** Ask buckets (sorted low to high) */
+  asks: OrderBookLevel[];
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // TRADE TYPES
 // ═══════════════════════════════════════════════════════════════════════════
@@ -114,6 +203,93 @@ export interface Trade {
   hash?: string;
 }
 
+// ═══════════════════════════════════════════════════════════════════════════
+// TRADE FLOW TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * TradeFlow options
+ */
+export interface TradeFlowOptions {
+  /** Asset symbol (e.g., "BTC") */
+  asset: string;
+  /** Rolling window length in ms, ending at the newest trade (default: 60000) */
+  window?: number;
+  /** Fixed large trade threshold in USD (default: adaptive) */
+  largeTradeValue?: number;
+  /** Adaptive threshold: multiple of the window's average trade value (default: 10) */
+  largeTradeMultiplier?: number;
+  /** Trades the window must hold before the adaptive threshold applies (default: 50) */
+  minTrades?: number;
+}
+
+/**
+ * Rolling trade flow statistics
+ */
+export interface TradeFlowStats {
+  /** Asset symbol */
+  asset: string;
+  /** Window length in ms */
+  window: number;
+  /** Trades in the window */
+  trades: number;
+  /** Trades per second over the window */
+  tradesPerSecond: number;
+  /** Size bought by takers in the window */
+  buyVolume: number;
+  /** Size sold by takers in the window */
+  sellVolume: number;
+  /** USD value bought by takers in the window */
+  buyValue: number;
+  /** USD value sold by takers in the window */
+  sellValue: number;
+  /** Buy volume minus sell volume in the window */
+  delta: number;
+  /** Cumulative volume delta since creation or reset() */
+  cvd: number;
+  /** Volume weighted price over the window (undefined when empty) */
+  vwap?: number;
+  /** Current large trade threshold in USD (undefined while the adaptive one warms up) */
+  largeTradeThreshold?: number;
+  /** Timestamp of the newest trade */
+  timestamp: number;
+}
+
+/**
+ * One large trade, or several trades of the same user and side from one
+ * batch (e.g., an order sweeping several levels)
+ */
+export interface LargeTrade {
+  /** Asset symbol */
+  asset: string;
+  /** Taker side */
+  side: "buy" | "sell";
+  /** Trader address, when the trades carry one */
+  user?: string;
+  /** Volume weighted price */
+  price: number;
+  /** Total size */
+  size: number;
+  /** Total USD value */
+  value: number;
+  /** Threshold that was exceeded */
+  threshold: number;
+  /** Timestamp of the last trade */
+  timestamp: number;
+  /** Trades grouped into this one */
+  trades: Trade[];
+}
+
+/**
+ * TradeFlow event map
+ */
+export interface TradeFlowEvents {
+  /** Stats after a batch of trades */
+  update: TradeFlowStats;
+  /** A trade (or user group) exceeded the large trade threshold */
+  largeTrade: LargeTrade;
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // USER DATA TYPES
 // ═══════════════════════════════════════════════════════════════════════════
@@ -234,6 +410,156 @@ export interface UserFunding {
   fundingRate: string;
 }
 
+/**
+ * Account-wide totals derived from positions, marks and balance
+ */
+export interface AccountTotals {
+  /** Sum of unrealized PnL in USD */
+  unrealizedPnl: number;
+  /** Gross notional exposure in USD (sum of |size| * mark) */
+  notional: number;
+  /** Net notional exposure in USD (long - short) */
+  netNotional: number;
+  /** Gross notional / balance (null until a positive balance is known) */
+  effectiveLeverage: number | null;
+  /** Sum of funding payments in the ledger in USDC */
+  totalFunding: number;
+}
+
+/**
+ * Point-in-time view of an account
+ */
+export interface AccountSnapshot {
+  /** Open positions */
+  positions: Position[];
+  /** Open orders */
+  openOrders: OpenOrder[];
+  /** Latest balance (null until received) */
+  balance: number | null;
+  /** Funding payments received so far */
+  fundings: UserFunding[];
+  /** Derived totals */
+  totals: AccountTotals;
+}
+
+/**
+ * What caused an account change
+ */
+export type AccountChangeReason =
+  | "positions"
+  | "orders"
+  | "balance"
+  | "funding"
+  | "prices"
+  | "reset";
+
+/**
+ * Account state event map
+ */
+export interface AccountStateEvents {
+  accountChanged: { reason: AccountChangeReason; account: AccountSnapshot };
+}
+
+/**
+ * Account state options
+ */
+export interface AccountStateOptions {
+  /** Only follow user data tagged with this wallet (clients tracking several wallets) */
+  wallet?: string;
+}
+
+/**
+ * Client user data events that are also emitted tagged by wallet
+ */
+export type UserDataEventName =
+  | "positions"
+  | "position"
+  | "positionClosed"
+  | "openOrders"
+  | "openOrder"
+  | "orderRemoved"
+  | "orderHistory"
+  | "orderFill"
+  | "fundings"
+  | "funding"
+  | "balance";
+
+/**
+ * User data event tagged with the wallet it belongs to.
+ * `wallet` is null when the server did not tag the event and the client
+ * tracks more than one wallet.
+ */
+export type WalletDataEvent = {
+  [K in UserDataEventName]: {
+    wallet: string | null;
+    event: K;
+    data: ClientEvents[K];
+  };
+}[UserDataEventName];
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PORTFOLIO TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Position tagged with its wallet
+ */
+export interface WalletPosition extends Position {
+  /** Wallet holding the position */
+  wallet: string;
+}
+
+/**
+ * Net exposure to one asset across wallets
+ */
+export interface AssetExposure {
+  /** Asset symbol */
+  asset: string;
+  /** Net size (long positive, short negative) */
+  netSize: number;
+  /** Gross notional at mark price */
+  notional: number;
+  /** Long notional minus short notional */
+  netNotional: number;
+  /** Unrealized PnL */
+  unrealizedPnl: number;
+  /** Wallets holding a position in the asset */
+  wallets: string[];
+}
+
+/**
+ * Totals across every wallet
+ */
+export interface PortfolioTotals extends AccountTotals {
+  /** Sum of known wallet balances */
+  balance: number;
+}
+
+/**
+ * Point-in-time view of every tracked wallet
+ */
+export interface PortfolioSnapshot {
+  /** Account snapshot per wallet */
+  accounts: Record<string, AccountSnapshot>;
+  /** Positions across wallets */
+  positions: WalletPosition[];
+  /** Net exposure per asset */
+  exposure: AssetExposure[];
+  /** Cross-wallet totals */
+  totals: PortfolioTotals;
+}
+
+/**
+ * Portfolio state event map
+ */
+export interface PortfolioEvents {
+  portfolioChanged: {
+    wallet: string;
+    reason: AccountChangeReason;
+    portfolio: PortfolioSnapshot;
+  };
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // CANDLE TYPES
 // ═══════════════════════════════════════════════════════════════════════════
@@ -254,6 +580,832 @@ export interface Candle {
   close: number;
   /** Volume */
   volume: number;
+  /** Asset symbol (if provided by the server) */
+  coin?: string;
+  /** Candle interval (if provided by the server) */
+  interval?: string;
+}
+
+/**
+ * Candle series options
+ */
+export interface CandleSeriesOptions {
+  /** Asset symbol (e.g., "BTC") */
+  asset: string;
+  /** Candle interval (e.g., "1m", "1h", "1d") */
+  interval: string;
+  /** Start of the initial backfill in ms (default: 500 intervals ago) */
+  start?: number;
+  /** Maximum candles kept; the oldest are dropped first (default: 5000) */
+  maxCandles?: number;
+}
+
+/**
+ * Range of candles missing from a series
+ */
+export interface CandleGap {
+  /** Open time of the first missing candle */
+  from: number;
+  /** End of the range fetched again */
+  to: number;
+  /** What revealed the gap */
+  reason: "reconnect" | "skipped";
+}
+
+/**
+ * Candle series event map
+ */
+export interface CandleSeriesEvents {
+  /** A candle was added or updated by the live stream */
+  candle: Candle;
+  /** Candles are missing and are being fetched */
+  gap: CandleGap;
+  /** History was merged (initial load or gap fill) */
+  backfill: { from: number; to: number; candles: Candle[] };
+  /** A history request failed */
+  error: { code: string; message: string };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// INDICATOR TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Candle price an indicator reads
+ * - hl2: (high + low) / 2
+ * - hlc3: (high + low + close) / 3
+ * - ohlc4: (open + high + low + close) / 4
+ */
+export type CandleSource = "open" | "high" | "low" | "close" | "hl2" | "hlc3" | "ohlc4";
+
+/**
+ * SMA / EMA options
+ */
+export interface MovingAverageOptions {
+  /** Number of candles averaged */
+  period: number;
+  /** Price read from each candle (default: "close") */
+  source?: CandleSource;
+}
+
+/**
+ * RSI options (Wilder smoothing)
+ */
+export interface RsiOptions {
+  /** Number of price changes averaged (default: 14) */
+  period?: number;
+  /** Price read from each candle (default: "close") */
+  source?: CandleSource;
+}
+
+/**
+ * MACD options
+ */
+export interface MacdOptions {
+  /** Fast EMA period (default: 12) */
+  fast?: number;
+  /** Slow EMA period (default: 26) */
+  slow?: number;
+  /** Signal line EMA period (default: 9) */
+  signal?: number;
+  /** Price read from each candle (default: "close") */
+  source?: CandleSource;
+}
+
+/**
+ * MACD value
+ */
+export interface MacdValue {
+  /** Fast EMA minus slow EMA */
+  macd: number;
+  /** EMA of the MACD line */
+  signal: number;
+  /** MACD minus signal */
+  histogram: number;
+}
+
+/**
+ * Bollinger Bands options
+ */
+export interface BollingerOptions {
+  /** Number of candles in the moving average (default: 20) */
+  period?: number;
+  /** Band width in standard deviations (default: 2) */
+  multiplier?: number;
+  /** Price read from each candle (default: "close") */
+  source?: CandleSource;
+}
+
+/**
+ * Bollinger Bands value
+ */
+export interface BollingerValue {
+  upper: number;
+  middle: number;
+  lower: number;
+}
+
+/**
+ * ATR options (Wilder smoothing)
+ */
+export interface AtrOptions {
+  /** Number of true ranges averaged (default: 14) */
+  period?: number;
+}
+
+/**
+ * VWAP options
+ */
+export interface VwapOptions {
+  /**
+   * When the running sums restart (default: "day")
+   * - day: at 00:00 UTC
+   * - none: never (VWAP of every candle seen)
+   */
+  session?: "day" | "none";
+}
+
+/**
+ * Indicator definition for CandleIndicators
+ */
+export type IndicatorConfig =
+  | ({ type: "sma" } & MovingAverageOptions)
+  | ({ type: "ema" } & MovingAverageOptions)
+  | ({ type: "rsi" } & RsiOptions)
+  | ({ type: "macd" } & MacdOptions)
+  | ({ type: "bollinger" } & BollingerOptions)
+  | ({ type: "atr" } & AtrOptions)
+  | ({ type: "vwap" } & VwapOptions);
+
+/**
+ * Value produced by an indicator definition
+ */
+export type IndicatorValue<C extends IndicatorConfig> = C extends { type: "macd" }
+  ? MacdValue
+  : C extends { type: "bollinger" }
+    ? BollingerValue
+    : number;
+
+/**
+ * Current value of each named indicator (undefined while warming up)
+ */
+export type IndicatorValues<T extends Record<string, IndicatorConfig>> = {
+  [K in keyof T]: IndicatorValue<T[K]> | undefined;
+};
+
+/**
+ * CandleIndicators options
+ */
+export interface CandleIndicatorsOptions<T extends Record<string, IndicatorConfig>> {
+  /** Asset symbol (e.g., "BTC") */
+  asset: string;
+  /** Candle interval (e.g., "1m", "1h") */
+  interval: string;
+  /** Indicators by name (e.g., { rsi: { type: "rsi" } }) */
+  indicators: T;
+}
+
+/**
+ * CandleIndicators event map
+ */
+export interface CandleIndicatorsEvents<T extends Record<string, IndicatorConfig>> {
+  /** The forming candle changed or a new one opened */
+  update: { candle: Candle; values: IndicatorValues<T> };
+  /** A candle closed; values are final for it */
+  close: { candle: Candle; values: IndicatorValues<T> };
+  /** Indicators were rebuilt from a candles snapshot */
+  snapshot: { candles: Candle[]; values: IndicatorValues<T> };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ASSET TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Static asset metadata from the bundled network registry
+ */
+export interface AssetInfo {
+  /** Asset symbol used by the server (e.g., "BTC", "@107", "PURR/USDC") */
+  symbol: string;
+  /** Display name (e.g., "BTC", "HYPE/USDC") */
+  displayName: string;
+  /** Asset type */
+  type: "perp" | "spot";
+  /** Exchange asset id (perp index, or 10000 + spot index) */
+  assetId: number;
+  /** Size decimals allowed for orders */
+  szDecimals: number;
+  /** Maximum leverage allowed (perps only) */
+  maxLeverage?: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SUBSCRIPTION TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Kind of market data subscription
+ */
+export type SubscriptionType = "prices" | "orderbook" | "trades" | "candles";
+
+/**
+ * Active subscription tracked by the client and replayed after reconnects
+ */
+export interface Subscription {
+  /** Server room name (e.g., "prices:all", "orderbook:BTC", "candle:BTC:1h") */
+  room: string;
+  /** Subscription kind */
+  type: SubscriptionType;
+  /** Asset symbol (omitted when subscribed to all prices) */
+  asset?: string;
+  /** Candle interval (candles only) */
+  interval?: string;
+}
+
+/**
+ * Parameters of a retained subscription (see HyperliquidClient.retain)
+ */
+export interface SubscriptionParams {
+  /** Asset name; omit with "prices" for all prices */
+  asset?: string;
+  /** Candle interval (required for "candles") */
+  interval?: string;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FEED MONITOR TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Recovery action for a feed that stays stale
+ * - none: only emit events
+ * - resubscribe: unsubscribe and subscribe again to the room
+ * - reconnect: reconnect the client
+ */
+export type FeedRecoveryAction = "none" | "resubscribe" | "reconnect";
+
+/**
+ * Feed monitor options
+ */
+export interface FeedMonitorOptions {
+  /** Silence in ms before a feed is stale (default: 10000) */
+  staleAfter?: number;
+  /** Per subscription type overrides of staleAfter (e.g., { candles: 120000 }) */
+  thresholds?: Partial<Record<SubscriptionType, number>>;
+  /** How often feeds are checked in ms (default: 1000) */
+  checkInterval?: number;
+  /** Action when a feed stays stale (default: "none") */
+  recovery?: FeedRecoveryAction;
+  /** Time in ms a feed must stay stale before recovery (default: 30000) */
+  recoverAfter?: number;
+  /** Latency samples kept per subscription type (default: 1000) */
+  latencySamples?: number;
+}
+
+/**
+ * Health of a single subscription
+ */
+export interface FeedHealth {
+  /** Room name */
+  room: string;
+  /** Subscription kind */
+  type: SubscriptionType;
+  /** Last time data arrived (or monitoring started) */
+  lastMessageAt: number;
+  /** Messages received */
+  messages: number;
+  /** Whether the feed is currently stale */
+  stale: boolean;
+}
+
+/**
+ * Server-to-client latency statistics in ms, derived from payload
+ * timestamps (PriceData.lastUpdate, OrderBook.lastUpdate, Trade.timestamp).
+ * Includes any clock offset between server and client.
+ */
+export interface LatencyStats {
+  /** Number of samples */
+  count: number;
+  /** Mean latency */
+  mean: number;
+  /** Median latency */
+  p50: number;
+  /** 99th percentile latency */
+  p99: number;
+  /** Maximum latency */
+  max: number;
+}
+
+/**
+ * Feed monitor event map
+ */
+export interface FeedMonitorEvents {
+  stale: { room: string; type: SubscriptionType; silentFor: number };
+  fresh: { room: string; type: SubscriptionType };
+  recovery: { room: string; action: Exclude<FeedRecoveryAction, "none"> };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ALERT TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Value an alert rule watches
+ * - price: PriceData.price
+ * - changePercent24h: PriceData.changePercent24h
+ * - fundingRate: PriceData.fundingRate (a fraction: 0.0005 = 0.05%)
+ * - spreadBps: order book spread in basis points of the mid price
+ * - liquidationDistance: distance from mark to liquidation price, in percent of mark
+ */
+export type AlertMetric =
+  | "price"
+  | "changePercent24h"
+  | "fundingRate"
+  | "spreadBps"
+  | "liquidationDistance";
+
+/**
+ * - above / below: fires when the value is past the threshold
+ * - crossesAbove / crossesBelow: fires when the value moves from one side
+ *   of the threshold to the other
+ */
+export type AlertOperator = "above" | "below" | "crossesAbove" | "crossesBelow";
+
+/**
+ * - once: the rule is disabled after firing
+ * - repeat: the rule re-arms once the value moves back past the threshold
+ */
+export type AlertMode = "once" | "repeat";
+
+/**
+ * Serializable alert rule
+ */
+export interface AlertRule {
+  /** Unique rule id */
+  id: string;
+  /** Label carried into alerts */
+  name?: string;
+  /** Watched value */
+  metric: AlertMetric;
+  /** Asset symbol (omitted: every asset, or every position) */
+  asset?: string;
+  /** Wallet whose positions are watched (liquidationDistance only; omitted: all) */
+  wallet?: string;
+  /** Comparison against the threshold */
+  operator: AlertOperator;
+  /** Threshold in the metric's unit */
+  threshold: number;
+  /** Fire once or repeatedly (default: "once") */
+  mode?: AlertMode;
+  /** How far the value must move back past the threshold to re-arm (default: 0) */
+  hysteresis?: number;
+  /** Minimum ms between two alerts of a repeating rule, per asset (default: 60000) */
+  cooldown?: number;
+  /** Disabled rules are not evaluated (default: true) */
+  enabled?: boolean;
+}
+
+/**
+ * Alert rule as passed to addRule (id generated when omitted)
+ */
+export type AlertRuleInput = Omit<AlertRule, "id"> & { id?: string };
+
+/**
+ * Fired alert
+ */
+export interface AlertEvent {
+  /** Rule that fired */
+  rule: AlertRule;
+  /** Asset the value belongs to */
+  asset: string;
+  /** Wallet of the position (liquidationDistance only) */
+  wallet?: string | null;
+  /** Value that triggered the rule */
+  value: number;
+  /** Value before this update, if one was seen */
+  previousValue?: number;
+  /** Fire timestamp */
+  timestamp: number;
+  /** Payload the value was read from */
+  data: PriceData | OrderBook | Position;
+}
+
+/**
+ * Alert engine options
+ */
+export interface AlertEngineOptions {
+  /** Rules to start with (e.g., loaded from storage) */
+  rules?: AlertRuleInput[];
+}
+
+/**
+ * Alert engine event map
+ */
+export interface AlertEngineEvents {
+  alert: AlertEvent;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// AUTH TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Signs authentication challenges on behalf of a wallet
+ */
+export interface Signer {
+  /** Wallet address the signer controls */
+  getAddress(): Promise<string>;
+  /** EIP-191 personal_sign signature of a message (0x-prefixed, 65 bytes) */
+  signMessage(message: string): Promise<string>;
+  /** EIP-712 signature of typed data (required for exchange actions) */
+  signTypedData?(typedData: TypedData): Promise<string>;
+}
+
+/**
+ * Field of an EIP-712 struct type
+ */
+export interface TypedDataField {
+  name: string;
+  type: string;
+}
+
+/**
+ * EIP-712 typed data. `types` excludes EIP712Domain, which is derived
+ * from the fields present in `domain`.
+ */
+export interface TypedData {
+  domain: {
+    name?: string;
+    version?: string;
+    chainId?: number;
+    verifyingContract?: string;
+  };
+  types: Record<string, TypedDataField[]>;
+  primaryType: string;
+  message: Record<string, unknown>;
+}
+
+/**
+ * EIP-1193 provider injected by browser wallets (e.g., `window.ethereum`)
+ */
+export interface Eip1193Provider {
+  request(args: { method: string; params?: unknown[] }): Promise<unknown>;
+}
+
+/**
+ * Challenge issued by the server for signed authentication
+ */
+export interface AuthChallenge {
+  /** One-time nonce */
+  nonce: string;
+  /** Message to sign (contains the nonce) */
+  message: string;
+}
+
+/**
+ * Session token issued after signed authentication
+ */
+export interface AuthToken {
+  /** Opaque token sent instead of a new signature */
+  token: string;
+  /** Expiry timestamp (ms), if the server sets one */
+  expiresAt?: number;
+}
+
+/**
+ * Where session tokens are cached between connections
+ * (e.g., backed by localStorage to survive page reloads)
+ */
+export interface AuthTokenStore {
+  get(wallet: string): AuthToken | undefined;
+  set(wallet: string, token: AuthToken): void;
+  delete(wallet: string): void;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// EXCHANGE TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Order type (matches OpenOrder.type)
+ */
+export type OrderType = "limit" | "market" | "stop" | "stop_limit";
+
+/**
+ * Time in force for limit orders
+ * - Gtc: good til canceled
+ * - Ioc: immediate or cancel
+ * - Alo: add liquidity only (post-only)
+ */
+export type TimeInForce = "Gtc" | "Ioc" | "Alo";
+
+/**
+ * Order to place or modify
+ */
+export interface OrderRequest {
+  /** Asset symbol, spot index or display name */
+  asset: string;
+  /** Order side */
+  side: "buy" | "sell";
+  /** Order size in base units (rounded to szDecimals) */
+  size: number;
+  /** Order type (default: "limit") */
+  type?: OrderType;
+  /**
+   * Limit price (limit, stop_limit). For market orders, an optional
+   * reference price; the mid price is fetched when omitted.
+   */
+  price?: number;
+  /** Trigger price (stop, stop_limit) */
+  triggerPrice?: number;
+  /** Trigger kind: take profit or stop loss (default: "sl") */
+  tpsl?: "tp" | "sl";
+  /** Only reduce an existing position (default: false) */
+  reduceOnly?: boolean;
+  /** Time in force for limit orders (default: "Gtc") */
+  timeInForce?: TimeInForce;
+  /** Client order id (0x-prefixed 16-byte hex) */
+  clientOrderId?: string;
+  /** Max slippage for market and stop orders, as a fraction (default: client setting) */
+  slippage?: number;
+}
+
+/**
+ * Outcome of one placed or modified order
+ */
+export interface OrderResult {
+  /** resting: on the book; filled: executed immediately; error: rejected */
+  status: "resting" | "filled" | "error";
+  /** Exchange order id */
+  orderId?: string;
+  /** Client order id, if set */
+  clientOrderId?: string;
+  /** Filled size (filled orders) */
+  filledSize?: number;
+  /** Average fill price (filled orders) */
+  avgPrice?: number;
+  /** Rejection reason (error) */
+  error?: string;
+}
+
+/**
+ * Order to cancel, by exchange order id or client order id
+ */
+export interface CancelRequest {
+  /** Asset symbol */
+  asset: string;
+  /** Exchange order id, or a 0x-prefixed client order id */
+  orderId: string | number;
+}
+
+/**
+ * Outcome of one cancel
+ */
+export interface CancelResult {
+  orderId: string;
+  success: boolean;
+  /** Rejection reason */
+  error?: string;
+}
+
+/**
+ * Margin mode for leverage updates
+ */
+export type MarginMode = "cross" | "isolated";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// STREAM TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Parameters for each stream feed
+ */
+export interface StreamParams {
+  prices: Record<string, never>;
+  price: { asset: string };
+  orderbook: { asset: string };
+  trades: { asset: string };
+  candles: { asset: string; interval: string };
+  positions: Record<string, never>;
+  fills: Record<string, never>;
+}
+
+/**
+ * Item yielded by each stream feed
+ */
+export interface StreamItems {
+  /** Full price list on every update */
+  prices: PriceData[];
+  /** Price updates for one asset */
+  price: PriceData;
+  /** Order book snapshots for one asset */
+  orderbook: OrderBook;
+  /** Individual trades for one asset */
+  trades: Trade;
+  /** Candles for one asset and interval (snapshot first, then updates) */
+  candles: Candle;
+  /** Position snapshots and updates (requires authentication) */
+  positions: Position;
+  /** Order fills (requires authentication) */
+  fills: OrderHistory;
+}
+
+/**
+ * Name of a stream feed
+ */
+export type StreamKind = keyof StreamItems;
+
+/**
+ * Arguments to `client.stream()` - params are optional for feeds without any
+ */
+export type StreamArgs<K extends StreamKind> =
+  StreamParams[K] extends Record<string, never>
+    ? [params?: StreamParams[K], options?: StreamOptions]
+    : [params: StreamParams[K], options?: StreamOptions];
+
+/**
+ * What to do when a stream's buffer is full
+ * - dropOldest: discard the oldest buffered item
+ * - dropNewest: discard the incoming item
+ * - error: end the stream with an error
+ */
+export type StreamOverflowPolicy = "dropOldest" | "dropNewest" | "error";
+
+/**
+ * Stream buffering options
+ */
+export interface StreamOptions {
+  /** Maximum buffered items not yet consumed (default: 1000) */
+  bufferSize?: number;
+  /** Behaviour when the buffer is full (default: "dropOldest") */
+  overflow?: StreamOverflowPolicy;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DELIVERY TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * When a listener with a delivery policy is called. Without either option,
+ * events are held until the current task ends.
+ */
+export interface DeliverySchedule {
+  /** Deliver at most once per interval in ms; an idle listener gets the first event at once */
+  throttleMs?: number;
+  /** Deliver on the next animation frame in browsers; elsewhere throttle to throttleMs or 16ms */
+  animationFrame?: boolean;
+}
+
+/**
+ * Latest-value delivery: events held between deliveries are conflated to
+ * the newest one, or the newest one per key
+ */
+export interface DeliveryOptions<T = unknown> extends DeliverySchedule {
+  /** Conflate per key instead of overall, e.g. `(book) => book.asset` */
+  key?: (data: T) => string;
+}
+
+/**
+ * Batched delivery: events held between deliveries arrive as one array
+ */
+export interface BatchOptions extends DeliverySchedule {
+  /** Most events held; the oldest are dropped beyond it (default: 1000) */
+  maxSize?: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TRANSPORT TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Connection speaking the Nylium event protocol. A socket.io client socket
+ * satisfies it; HyperliquidTransport translates the same events to
+ * Hyperliquid's public WebSocket.
+ *
+ * Besides server events, a transport emits "connected" ({ clientId,
+ * timestamp }) once open, "connect_error" (Error) if opening fails and
+ * "disconnect" (reason) when closed - with "io client disconnect" when
+ * closed through disconnect(). A trailing function argument to emit() is
+ * an acknowledgement callback.
+ */
+export interface Transport {
+  on(event: string, handler: (...args: any[]) => void): unknown;
+  off(event: string, handler: (...args: any[]) => void): unknown;
+  /** Receive every server event (not connect_error/disconnect) */
+  onAny(handler: (event: string, ...args: any[]) => void): unknown;
+  emit(event: string, ...args: any[]): unknown;
+  disconnect(): unknown;
+}
+
+/**
+ * Opens a transport to a server URL
+ */
+export type TransportFactory = (url: string, network: Network) => Transport;
+
+/**
+ * Built-in data backends
+ * - nylium: the Nylium socket.io relay
+ * - hyperliquid: Hyperliquid's public WebSocket, no relay involved
+ */
+export type TransportKind = "nylium" | "hyperliquid";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// OBSERVABILITY TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Log severity, lowest first. "silent" only applies as a threshold.
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error" | "silent";
+
+/**
+ * Structured context attached to a log record
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Receives the client's log records. Adapters for pino, winston or the
+ * like only need to forward each call.
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+/**
+ * Receives measurements from the client as they happen.
+ * MetricsCollector implements it and keeps the totals.
+ */
+export interface MetricsRecorder {
+  /** A server event arrived; `chars` is the length of its JSON serialization */
+  messageReceived(event: string, chars: number): void;
+  /** Every handler of a client event ran, or a scheduled handler was delivered */
+  handlerCompleted(event: string, durationMs: number): void;
+  /** A handler of a client event threw */
+  handlerFailed(event: string, error: unknown): void;
+  /** A reconnect attempt was scheduled */
+  reconnecting(attempt: number): void;
+  /** The connection state changed at `timestamp` (ms) */
+  stateChanged(state: ConnectionState, timestamp: number): void;
+  /** The subscription registry changed */
+  subscriptionsChanged(subscriptions: Subscription[]): void;
+}
+
+/**
+ * Inbound traffic of one server event
+ */
+export interface MessageMetrics {
+  count: number;
+  /** Characters in the JSON serialization of the payloads, not wire bytes */
+  chars: number;
+}
+
+/**
+ * Handler timings of one client event
+ */
+export interface HandlerMetrics {
+  /** Times the event was emitted, plus scheduled (throttled or batched) deliveries */
+  calls: number;
+  /** Handlers that threw */
+  errors: number;
+  /** Time spent in handlers in ms */
+  totalMs: number;
+  /** Slowest emit in ms */
+  maxMs: number;
+}
+
+/**
+ * Totals kept by a MetricsCollector
+ */
+export interface MetricsSnapshot {
+  /** Inbound traffic keyed by server event (e.g., "trades:update") */
+  messages: Record<string, MessageMetrics>;
+  /** Handler timings keyed by client event (e.g., "trades") */
+  handlers: Record<string, HandlerMetrics>;
+  /** Reconnect attempts */
+  reconnects: number;
+  /** Current connection state */
+  state: ConnectionState;
+  /** Time in the current state in ms */
+  stateDuration: number;
+  /** Total time spent in each state in ms, including the current one */
+  stateDurations: Record<ConnectionState, number>;
+  /** Active subscriptions by kind */
+  subscriptions: Record<SubscriptionType, number>;
+  /** When the snapshot was taken (ms) */
+  timestamp: number;
+}
+
+/**
+ * Prometheus exposition options
+ */
+export interface PrometheusOptions {
+  /** Metric name prefix (default: "hyperliquid") */
+  prefix?: string;
+  /** Labels added to every sample (e.g., { network: "mainnet" }) */
+  labels?: Record<string, string>;
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -273,14 +1425,76 @@ export interface ClientOptions {
   network?: Network;
   /** WebSocket server URL (overrides network default) */
   url?: string;
+  /** Data backend, or a factory for a custom transport (default: "nylium") */
+  transport?: TransportKind | TransportFactory;
   /** Auto-reconnect on disconnect (default: true) */
   autoReconnect?: boolean;
   /** Reconnection delay in ms (default: 1000) */
   reconnectDelay?: number;
   /** Maximum reconnection attempts (default: 10) */
   maxReconnectAttempts?: number;
-  /** Enable debug logging (default: false) */
+  /** Timeout for one-shot requests in ms (default: 10000) */
+  requestTimeout?: number;
+  /** Most candles or trades the server returns per history request (default: 500) */
+  historyPageSize?: number;
+  /** Reject unknown assets before subscribing (default: true) */
+  validateAssets?: boolean;
+  /** Runtime validation of inbound payloads (default: "off") */
+  validation?: ValidationMode;
+  /** Cache for signed authentication tokens (default: in memory) */
+  tokenStore?: AuthTokenStore;
+  /** Enable debug logging on the default console logger (default: false) */
   debug?: boolean;
+  /** Receives log records (default: console, warnings and errors unless `debug`) */
+  logger?: Logger;
+  /** Receives connection, traffic and handler measurements (e.g., a MetricsCollector) */
+  metrics?: MetricsRecorder;
+}
+
+/**
+ * Runtime payload validation mode
+ * - off: trust every payload
+ * - strict: drop invalid payloads and emit "validationError"
+ * - lenient: emit "validationError", log a warning and pass payloads through
+ */
+export type ValidationMode = "off" | "strict" | "lenient";
+
+/**
+ * Invalid inbound payload
+ */
+export interface ValidationErrorEvent {
+  /** Server event name (e.g., "orderbook:update") */
+  event: string;
+  /** Path to the offending value (e.g., "bids[0].price", "" for the payload itself) */
+  path: string;
+  /** What was wrong */
+  message: string;
+  /** Payload as received */
+  data: unknown;
+}
+
+/**
+ * Options for a single one-shot request
+ */
+export interface RequestOptions {
+  /** Timeout in ms (default: the client's requestTimeout) */
+  timeout?: number;
+}
+
+/**
+ * Options for a trade history request
+ */
+export interface TradeHistoryOptions extends RequestOptions {
+  /** End of the range in ms (default: now) */
+  until?: number;
+}
+
+/**
+ * Options for a balance request
+ */
+export interface BalanceRequestOptions extends RequestOptions {
+  /** Wallet to query (default: the first authenticated wallet) */
+  wallet?: string;
 }
 
 /**
@@ -294,11 +1508,83 @@ export type ConnectionState =
   | "error";
 
 /**
- * Client event types
+ * Raw event received from the server
+ */
+export interface InboundMessage {
+  /** Server event name (e.g., "orderbook:update") */
+  event: string;
+  /** Event payload as received */
+  data: unknown;
+  /** Receive timestamp (ms) */
+  receivedAt: number;
+  /** Wallet the server tagged a user data event with */
+  wallet?: string;
+}
+
+/**
+ * Replay playback options
+ */
+export interface ReplayOptions {
+  /** Playback speed: 1 = real time, 10 = 10x, Infinity = no delays (default: 1) */
+  speed?: number;
+  /** Only advance when step() is called (default: false) */
+  stepped?: boolean;
+}
+
+/**
+ * Client event map - event name to payload type.
+ * Used by `on`, `off` and `removeAllListeners` to type handlers.
  */
 export interface ClientEvents {
+  // Connection events
   connected: { clientId: string; timestamp: number };
   disconnected: { reason: string };
   error: { code: string; message: string };
   reconnecting: { attempt: number; maxAttempts: number };
+  stateChange: ConnectionState;
+  /** Every raw inbound server event, before it is re-emitted (invalid ones are dropped in strict mode) */
+  message: InboundMessage;
+  validationError: ValidationErrorEvent;
+
+  // Price events
+  prices: PriceData[];
+  price: PriceData;
+
+  // Order book events
+  orderbook: OrderBook;
+
+  // Trade events
+  trades: { asset: string; trades: Trade[] };
+
+  // Candle events
+  candles: { coin: string; interval: string; candles: Candle[] };
+  candle: Candle;
+
+  // User data events
+  authenticated: { wallet: string };
+  unauthenticated: { wallet: string };
+  positions: Position[];
+  position: Position;
+  positionClosed: { asset: string };
+  openOrders: OpenOrder[];
+  openOrder: OpenOrder;
+  orderRemoved: { orderId: string };
+  orderHistory: OrderHistory[];
+  orderFill: OrderHistory;
+  fundings: UserFunding[];
+  funding: UserFunding;
+  balance: number;
+  /** Every user data event above, tagged with its wallet */
+  walletData: WalletDataEvent;
+
+  // Subscription events
+  subscribed: { type: string; asset: string };
+  unsubscribed: { room: string };
+  "asset:subscribed": { asset: string; candleInterval: string };
+  "asset:unsubscribed": { asset: string };
 }
+
+/**
+ * Name of any event emitted by the client
+ */
+export type ClientEventName = keyof ClientEvents;
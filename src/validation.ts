@@ -0,0 +1,265 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// SCHEMA VALIDATORS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * First problem found in a payload
+ */
+export interface ValidationIssue {
+  /** Path to the offending value ("[3].price", "trades[0].side", "" for the payload itself) */
+  path: string;
+  /** What was wrong */
+  message: string;
+}
+
+/**
+ * Checks a value, returning the first issue or null if valid
+ */
+type Validator = (value: unknown, path: string) => ValidationIssue | null;
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+const string: Validator = (value, path) =>
+  typeof value === "string"
+    ? null
+    : { path, message: `expected string, got ${describe(value)}` };
+
+const number: Validator = (value, path) =>
+  typeof value === "number" && !Number.isNaN(value)
+    ? null
+    : { path, message: `expected number, got ${describe(value)}` };
+
+function optional(validator: Validator): Validator {
+  return (value, path) =>
+    value === undefined || value === null ? null : validator(value, path);
+}
+
+function oneOf(...options: string[]): Validator {
+  return (value, path) =>
+    typeof value === "string" && options.includes(value)
+      ? null
+      : {
+          path,
+          message: `expected one of ${options.join(", ")}, got ${JSON.stringify(value)}`,
+        };
+}
+
+function array(item: Validator): Validator {
+  return (value, path) => {
+    if (!Array.isArray(value)) {
+      return { path, message: `expected array, got ${describe(value)}` };
+    }
+    for (let i = 0; i < value.length; i++) {
+      const issue = item(value[i], `${path}[${i}]`);
+      if (issue) return issue;
+    }
+    return null;
+  };
+}
+
+function object(shape: Record<string, Validator>): Validator {
+  return (value, path) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      return { path, message: `expected object, got ${describe(value)}` };
+    }
+    const record = value as Record<string, unknown>;
+    for (const key of Object.keys(shape)) {
+      const issue = shape[key](record[key], join(path, key));
+      if (issue) return issue;
+    }
+    return null;
+  };
+}
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PAYLOAD SCHEMAS
+// ═══════════════════════════════════════════════════════════════════════════
+
+const assetType = oneOf("perp", "spot");
+const orderType = oneOf("limit", "market", "stop", "stop_limit");
+const tradeSide = oneOf("buy", "sell");
+
+const priceData = object({
+  symbol: string,
+  displayName: string,
+  type: assetType,
+  price: number,
+  oraclePrice: optional(number),
+  volume24h: number,
+  high24h: number,
+  low24h: number,
+  change24h: number,
+  changePercent24h: number,
+  fundingRate: number,
+  openInterest: number,
+  maxLeverage: optional(number),
+  lastUpdate: number,
+});
+
+const orderBookLevel = object({
+  price: number,
+  size: number,
+  total: number,
+  orders: number,
+});
+
+const orderBook = object({
+  asset: string,
+  displayName: string,
+  type: assetType,
+  bids: array(orderBookLevel),
+  asks: array(orderBookLevel),
+  spread: number,
+  spreadPercent: number,
+  midPrice: number,
+  bestBid: number,
+  bestAsk: number,
+  lastUpdate: number,
+});
+
+const trade = object({
+  id: string,
+  asset: string,
+  displayName: string,
+  type: assetType,
+  price: number,
+  size: number,
+  side: tradeSide,
+  value: number,
+  timestamp: number,
+  user: optional(string),
+  hash: optional(string),
+});
+
+const tradeBatch = object({ asset: string, trades: array(trade) });
+
+const candle = object({
+  time: number,
+  open: number,
+  high: number,
+  low: number,
+  close: number,
+  volume: number,
+  coin: optional(string),
+  interval: optional(string),
+});
+
+const position = object({
+  asset: string,
+  displayName: string,
+  side: oneOf("long", "short"),
+  size: number,
+  entryPrice: number,
+  markPrice: number,
+  pnl: number,
+  pnlPercent: number,
+  leverage: number,
+  liqPrice: optional(number),
+  timestamp: number,
+});
+
+const openOrder = object({
+  id: string,
+  asset: string,
+  displayName: string,
+  side: tradeSide,
+  type: orderType,
+  price: number,
+  amount: number,
+  filled: number,
+  remaining: number,
+  timestamp: number,
+});
+
+const orderHistory = object({
+  id: string,
+  asset: string,
+  displayName: string,
+  side: tradeSide,
+  direction: optional(
+    oneOf(
+      "open_long",
+      "open_short",
+      "close_long",
+      "close_short",
+      "liquidation",
+      "buy",
+      "sell"
+    )
+  ),
+  type: orderType,
+  price: number,
+  amount: number,
+  filled: number,
+  status: oneOf(
+    "filled",
+    "canceled",
+    "partially_filled",
+    "rejected",
+    "liquidated"
+  ),
+  timestamp: number,
+  txHash: optional(string),
+  closedPnl: optional(number),
+  fee: number,
+});
+
+const userFunding = object({
+  time: number,
+  coin: string,
+  usdc: string,
+  szi: string,
+  fundingRate: string,
+});
+
+/**
+ * Schema for every server data event the client re-emits
+ */
+const SERVER_EVENT_SCHEMAS: Record<string, Validator> = {
+  "prices:snapshot": array(priceData),
+  "prices:update": array(priceData),
+  "price:snapshot": priceData,
+  "price:update": priceData,
+  "orderbook:snapshot": orderBook,
+  "orderbook:update": orderBook,
+  "trades:snapshot": tradeBatch,
+  "trades:update": tradeBatch,
+  "candle:snapshot": object({
+    coin: string,
+    interval: string,
+    candles: array(candle),
+  }),
+  "candle:update": candle,
+  "position:snapshot": array(position),
+  "position:update": position,
+  "position:closed": object({ asset: string }),
+  "openOrder:snapshot": array(openOrder),
+  "openOrder:update": openOrder,
+  "openOrder:removed": object({ orderId: string }),
+  "orderHistory:snapshot": array(orderHistory),
+  "orderHistory:update": orderHistory,
+  "funding:snapshot": array(userFunding),
+  "funding:update": userFunding,
+  "balance:update": object({ balance: number }),
+};
+
+/**
+ * Validate a server event payload against its expected shape.
+ * Events without a schema are always valid.
+ * @returns The first issue found, or null if the payload is valid
+ */
+export function validateServerEvent(
+  event: string,
+  data: unknown
+): ValidationIssue | null {
+  const validator = SERVER_EVENT_SCHEMAS[event];
+  return validator ? validator(data, "") : null;
+}
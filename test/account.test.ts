@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { AccountState } from "../src/account";
+import { AccountStateEvents, Position, UserFunding } from "../src/types";
+import { position as openPosition, price, WALLET } from "./fixtures";
+import { FeedClient } from "./helpers";
+
+const position: Position = {
+  asset: "BTC",
+  displayName: "BTC",
+  side: "long",
+  size: 0.2,
+  entryPrice: 95000,
+  markPrice: 97000,
+  pnl: 400,
+  pnlPercent: 42.1,
+  leverage: 20,
+  timestamp: 1737123456789,
+};
+
+const funding = (time: number, coin: string, usdc: string): UserFunding => ({
+  time,
+  coin,
+  usdc,
+  szi: "0.2",
+  fundingRate: "0.0001",
+});
+
+describe("AccountState", () => {
+  it("emits accountChanged with the reset reason when reset", () => {
+    const account = new AccountState();
+    account.setPositions([position]);
+    account.setBalance(1500);
+
+    const changes: AccountStateEvents["accountChanged"][] = [];
+    account.on("accountChanged", (change) => changes.push(change));
+    account.reset();
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0].reason).toBe("reset");
+    expect(changes[0].account).toMatchObject({
+      positions: [],
+      openOrders: [],
+      balance: null,
+      fundings: [],
+    });
+    expect(account.getSnapshot()).toEqual(changes[0].account);
+  });
+
+  it("re-marks positions to live prices, with PnL on margin", () => {
+    const client = new FeedClient();
+    const account = new AccountState(client);
+    account.setPositions([position, openPosition("ETH", "short", 2, 3600, 3500)]);
+    const reasons: string[] = [];
+    account.on("accountChanged", ({ reason }) => reasons.push(reason));
+
+    client.receive("prices:update", [price("BTC", 98000), price("ETH", 3700), price("SOL", 187)]);
+
+    expect(account.getPosition("BTC")).toMatchObject({ markPrice: 98000, pnl: 600 });
+    // 600 on a margin of 0.2 * 95000 / 20
+    expect(account.getPosition("BTC")?.pnlPercent).toBeCloseTo(63.1579, 4);
+    expect(account.getPosition("ETH")).toMatchObject({ markPrice: 3700, pnl: -200 });
+    expect(reasons).toEqual(["prices"]);
+
+    // Unchanged marks and unrelated assets change nothing
+    client.receive("price:update", price("BTC", 98000));
+    client.receive("price:update", price("SOL", 190));
+    expect(reasons).toEqual(["prices"]);
+  });
+
+  it("totals exposure, leverage and funding", () => {
+    const account = new AccountState();
+    account.setPositions([
+      openPosition("BTC", "long", 0.2, 95000, 97000),
+      openPosition("ETH", "short", 2, 3600, 3500),
+    ]);
+    account.setFundings([funding(1, "BTC", "-1.5"), funding(2, "ETH", "0.5")]);
+
+    expect(account.getTotals().effectiveLeverage).toBeNull();
+
+    account.setBalance(10000);
+    const totals = account.getTotals();
+    expect(totals.unrealizedPnl).toBeCloseTo(400 + 200, 8);
+    expect(totals.notional).toBeCloseTo(19400 + 7000, 8);
+    expect(totals.netNotional).toBeCloseTo(19400 - 7000, 8);
+    expect(totals.effectiveLeverage).toBeCloseTo(2.64, 8);
+    expect(totals.totalFunding).toBe(-1);
+  });
+
+  it("ignores a funding payment already in the ledger", () => {
+    const account = new AccountState();
+    account.setFundings([funding(1, "BTC", "-1.5")]);
+    let changes = 0;
+    account.on("accountChanged", () => changes++);
+
+    account.addFunding(funding(1, "BTC", "-1.5"));
+    account.addFunding(funding(1, "ETH", "0.5"));
+    account.addFunding(funding(2, "BTC", "-1"));
+
+    expect(account.getFundings().map(({ time, coin }) => `${coin}@${time}`)).toEqual([
+      "BTC@1",
+      "ETH@1",
+      "BTC@2",
+    ]);
+    expect(changes).toBe(2);
+  });
+
+  it("follows only the data of its wallet", () => {
+    const vault = "0xABCDEFABCDEFABCDEFABCDEFABCDEFABCDEFABCD";
+    const client = new FeedClient();
+    const account = new AccountState(client, { wallet: vault });
+
+    client.receiveFor(WALLET, "balance:update", { balance: 10000 });
+    client.receiveFor(WALLET, "position:snapshot", [position]);
+    expect(account.getBalance()).toBeNull();
+
+    client.receiveFor(vault.toLowerCase(), "balance:update", { balance: 5000 });
+    client.receiveFor(vault.toLowerCase(), "position:update", openPosition("ETH", "short", 1, 3600, 3500));
+    // Untagged, with no sole authenticated wallet to attribute it to
+    client.receive("position:closed", { asset: "ETH" });
+
+    expect(account.getBalance()).toBe(5000);
+    expect(account.getPositions().map((p) => p.asset)).toEqual(["ETH"]);
+  });
+});
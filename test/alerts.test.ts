@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AlertEngine } from "../src/alerts";
+import { AlertEvent, AlertRuleInput } from "../src/types";
+import { book, position, price, WALLET } from "./fixtures";
+import { FeedClient } from "./helpers";
+
+describe("AlertEngine", () => {
+  let client: FeedClient;
+  let engine: AlertEngine;
+  let alerts: AlertEvent[];
+
+  const pushPrice = (asset: string, value: number) =>
+    client.receive("price:update", price(asset, value));
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: 1_700_000_000_000 });
+    client = new FeedClient();
+    engine = new AlertEngine(client);
+    alerts = [];
+    engine.on("alert", (alert) => alerts.push(alert));
+  });
+
+  afterEach(() => {
+    engine.destroy();
+    vi.useRealTimers();
+  });
+
+  it("fires a crossing rule only when the value crosses the threshold", () => {
+    engine.addRule({ metric: "price", asset: "BTC", operator: "crossesAbove", threshold: 100 });
+
+    // Already above on the first value: no crossing seen
+    pushPrice("BTC", 105);
+    pushPrice("BTC", 95);
+    pushPrice("ETH", 120);
+    expect(alerts).toEqual([]);
+
+    pushPrice("BTC", 100);
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({ asset: "BTC", value: 100, previousValue: 95 });
+  });
+
+  it("re-arms a repeating rule once the value moves back past the hysteresis", () => {
+    engine.addRule({
+      metric: "price",
+      asset: "BTC",
+      operator: "crossesAbove",
+      threshold: 100,
+      hysteresis: 5,
+      cooldown: 0,
+      mode: "repeat",
+    });
+
+    [99, 101, 97, 101].forEach((value) => pushPrice("BTC", value));
+    expect(alerts.map((a) => a.value)).toEqual([101]);
+
+    // Below 95 re-arms; the next crossing fires
+    [94, 101].forEach((value) => pushPrice("BTC", value));
+    expect(alerts.map((a) => a.value)).toEqual([101, 101]);
+  });
+
+  it("waits the cooldown between alerts of a repeating rule, per asset", () => {
+    engine.addRule({ metric: "price", operator: "above", threshold: 100, cooldown: 1000, mode: "repeat" });
+
+    pushPrice("BTC", 101);
+    pushPrice("ETH", 101);
+    expect(alerts.map((a) => a.asset)).toEqual(["BTC", "ETH"]);
+
+    vi.advanceTimersByTime(500);
+    pushPrice("BTC", 99);
+    pushPrice("BTC", 102);
+    expect(alerts).toHaveLength(2);
+
+    vi.advanceTimersByTime(500);
+    pushPrice("BTC", 103);
+    expect(alerts.map((a) => [a.asset, a.value])).toEqual([
+      ["BTC", 101],
+      ["ETH", 101],
+      ["BTC", 103],
+    ]);
+  });
+
+  it("disables a one-shot rule when it fires, without touching the caller's rule", () => {
+    const input: AlertRuleInput = { id: "btc", metric: "price", asset: "BTC", operator: "above", threshold: 100 };
+    const stored = engine.addRule(input);
+
+    pushPrice("BTC", 101);
+    pushPrice("BTC", 99);
+    pushPrice("BTC", 102);
+
+    expect(alerts).toHaveLength(1);
+    expect(engine.getRule("btc")?.enabled).toBe(false);
+    expect(input.enabled).toBeUndefined();
+    expect(stored.enabled).toBeUndefined();
+
+    // Enabling re-arms it
+    engine.setEnabled("btc", true);
+    pushPrice("BTC", 103);
+    expect(alerts).toHaveLength(2);
+  });
+
+  it("watches spreads and liquidation distances", () => {
+    engine.addRule({ metric: "spreadBps", asset: "ETH", operator: "above", threshold: 10 });
+    engine.addRule({ metric: "liquidationDistance", wallet: WALLET, operator: "below", threshold: 5 });
+
+    client.receive("orderbook:update", book("ETH", [[3000, 1]], [[3001, 1]]));
+    client.receive("orderbook:update", book("ETH", [[3000, 1]], [[3006, 1]]));
+    client.receiveFor(WALLET, "position:update", position("BTC", "long", 1, 100, 100, { liqPrice: 90 }));
+    client.receive("price:update", price("BTC", 94));
+
+    expect(alerts.map((a) => [a.rule.metric, a.asset])).toEqual([
+      ["spreadBps", "ETH"],
+      ["liquidationDistance", "BTC"],
+    ]);
+    expect(alerts[0].value).toBeCloseTo((6 / 3003) * 10_000, 8);
+    expect(alerts[1]).toMatchObject({ wallet: WALLET });
+    expect(alerts[1].value).toBeCloseTo((4 / 94) * 100, 8);
+  });
+
+  it("rejects invalid rules", () => {
+    expect(() => engine.addRule({ metric: "volume" as any, operator: "above", threshold: 1 })).toThrow(
+      "Unknown alert metric: volume"
+    );
+    expect(() => engine.addRule({ metric: "price", operator: "above", threshold: NaN })).toThrow(
+      "Alert threshold must be a finite number"
+    );
+    expect(() => engine.setEnabled("missing", true)).toThrow("Unknown alert rule: missing");
+  });
+});
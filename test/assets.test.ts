@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { AssetRegistry } from "../src/assets";
+
+describe("AssetRegistry", () => {
+  const mainnet = new AssetRegistry("mainnet");
+  const testnet = new AssetRegistry("testnet");
+
+  it("resolves perps by symbol, case-insensitively, on each network", () => {
+    expect(mainnet.resolve("BTC")).toMatchObject({ symbol: "BTC", type: "perp", assetId: 0, szDecimals: 5 });
+    expect(testnet.resolve("BTC")).toMatchObject({ symbol: "BTC", type: "perp", assetId: 3 });
+    expect(mainnet.get(" btc ")?.symbol).toBe("BTC");
+    expect(mainnet.getNetwork()).toBe("mainnet");
+  });
+
+  it("resolves spot pairs by index and display name, per network", () => {
+    expect(mainnet.resolve("@107")).toMatchObject({
+      symbol: "@107",
+      displayName: "HYPE/USDC",
+      type: "spot",
+      assetId: 10107,
+    });
+    expect(mainnet.resolve("hype/usdc").symbol).toBe("@107");
+
+    // Same index, another pair: HYPE/USDC has its own index on testnet
+    expect(testnet.resolve("@107").displayName).toBe("FQ/USDC");
+    expect(testnet.resolve("HYPE/USDC")).toMatchObject({ symbol: "@1035", assetId: 11035 });
+  });
+
+  it("gives the first spot pair, named by its symbol, the first spot asset id", () => {
+    expect(mainnet.resolve("PURR/USDC")).toMatchObject({ type: "spot", assetId: 10000 });
+    expect(testnet.resolve("purr/usdc").assetId).toBe(10000);
+  });
+
+  it("throws for assets unknown on the network", () => {
+    expect(mainnet.get("NOT_AN_ASSET")).toBeUndefined();
+    expect(mainnet.has("NOT_AN_ASSET")).toBe(false);
+    expect(() => mainnet.resolve("NOT_AN_ASSET")).toThrow("Unknown asset on mainnet: NOT_AN_ASSET");
+    expect(() => testnet.resolve("@99999")).toThrow("Unknown asset on testnet: @99999");
+    expect(() => mainnet.roundSize("NOT_AN_ASSET", 1)).toThrow(/Unknown asset on mainnet/);
+  });
+
+  it("splits assets into perps and spot pairs", () => {
+    [mainnet, testnet].forEach((registry) => {
+      const perps = registry.getPerps();
+      const spots = registry.getSpots();
+      expect(perps.length + spots.length).toBe(registry.getAll().length);
+      expect(perps.every((asset) => asset.type === "perp")).toBe(true);
+      expect(spots.every((asset) => asset.type === "spot")).toBe(true);
+    });
+  });
+
+  it("rounds sizes to szDecimals and prices to 5 significant figures", () => {
+    expect(mainnet.roundSize("BTC", 0.123456789)).toBe(0.12346);
+    expect(mainnet.roundPrice("BTC", 97123.45)).toBe(97123);
+    expect(mainnet.roundPrice("BTC", 97123)).toBe(97123);
+    // Spot: 8 - szDecimals decimals at most
+    expect(mainnet.roundPrice("HYPE/USDC", 0.0000123456)).toBe(0.000012);
+  });
+});
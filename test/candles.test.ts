@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { CandleSeries } from "../src/candles";
+import { HyperliquidClient } from "../src/client";
+import { MockNyliumServer } from "../src/testing";
+import { Candle } from "../src/types";
+import { candle } from "./fixtures";
+import { eventually, nextEvent } from "./helpers";
+
+const MINUTE = 60_000;
+
+describe("CandleSeries", () => {
+  let server: MockNyliumServer;
+  let client: HyperliquidClient;
+  let series: CandleSeries;
+  let now: number;
+
+  /** Candle opening `minutesAgo` minutes before the current one */
+  const at = (minutesAgo: number, close: number, volume: number = 1) =>
+    candle(now - minutesAgo * MINUTE, close, close, close, close, volume);
+
+  const live = (c: Candle) =>
+    server.emitToRoom("candle:BTC:1m", "candle:update", { ...c, coin: "BTC", interval: "1m" });
+
+  const closes = () => series.getCandles().map((c) => c.close);
+
+  beforeEach(async () => {
+    now = Math.floor(Date.now() / MINUTE) * MINUTE;
+    server = new MockNyliumServer();
+    await server.start();
+    server.setCandleHistory("BTC", "1m", [at(4, 100), at(3, 101), at(2, 102)]);
+
+    client = new HyperliquidClient({ url: server.url, reconnectDelay: 10 });
+    await client.connect();
+    client.subscribeCandles("BTC", "1m");
+    await eventually(() => expect(server.getRooms()).toContain("candle:BTC:1m"));
+  });
+
+  afterEach(async () => {
+    series?.destroy();
+    client.disconnect();
+    await server.stop();
+  });
+
+  it("backfills from the start time and tags every candle", async () => {
+    series = new CandleSeries(client, { asset: "BTC", interval: "1m", start: now - 3 * MINUTE });
+    const backfill = nextEvent(series, "backfill");
+
+    const candles = await series.load();
+
+    expect(candles.map((c) => c.close)).toEqual([101, 102]);
+    expect(candles.every((c) => c.coin === "BTC" && c.interval === "1m")).toBe(true);
+    expect((await backfill).from).toBe(now - 3 * MINUTE);
+  });
+
+  it("merges live updates on top, ignoring older versions of a candle", async () => {
+    series = new CandleSeries(client, { asset: "BTC", interval: "1m", start: now - 10 * MINUTE });
+    await series.load();
+
+    const update = nextEvent(series, "candle");
+    live(at(2, 105, 5));
+    expect((await update).close).toBe(105);
+
+    // Lower volume: an earlier version of the same candle
+    live(at(2, 103, 2));
+    const next = nextEvent(series, "candle");
+    live(at(1, 106));
+    await next;
+
+    expect(closes()).toEqual([100, 101, 105, 106]);
+  });
+
+  it("fetches the candles a live update skipped", async () => {
+    series = new CandleSeries(client, { asset: "BTC", interval: "1m", start: now - 10 * MINUTE });
+    await series.load();
+    server.setCandleHistory("BTC", "1m", [at(4, 100), at(3, 101), at(2, 102), at(1, 103), at(0, 104)]);
+
+    const gap = nextEvent(series, "gap");
+    const backfill = nextEvent(series, "backfill");
+    live(at(0, 104));
+
+    expect(await gap).toEqual({ from: now - MINUTE, to: now, reason: "skipped" });
+    expect((await backfill).candles.map((c: Candle) => c.close)).toEqual([103, 104]);
+    expect(closes()).toEqual([100, 101, 102, 103, 104]);
+  });
+
+  it("fetches the last candle and anything after it again after a reconnect", async () => {
+    series = new CandleSeries(client, { asset: "BTC", interval: "1m", start: now - 10 * MINUTE });
+    await series.load();
+    // Missed while disconnected: the last candle kept trading, and a new one opened
+    server.setCandleHistory("BTC", "1m", [at(4, 100), at(3, 101), at(2, 107, 9), at(1, 108)]);
+
+    const gap = nextEvent(series, "gap");
+    const backfill = nextEvent(series, "backfill");
+    server.dropConnections();
+
+    expect(await gap).toMatchObject({ from: now - 2 * MINUTE, reason: "reconnect" });
+    expect((await backfill).candles.map((c: Candle) => c.close)).toEqual([107, 108]);
+    expect(closes()).toEqual([100, 101, 107, 108]);
+  });
+
+  it("keeps at most maxCandles, dropping the oldest", async () => {
+    series = new CandleSeries(client, {
+      asset: "BTC",
+      interval: "1m",
+      start: now - 10 * MINUTE,
+      maxCandles: 2,
+    });
+
+    expect((await series.load()).map((c) => c.close)).toEqual([101, 102]);
+  });
+
+  it("reports a failed backfill", async () => {
+    series = new CandleSeries(client, { asset: "NOT_AN_ASSET", interval: "1m" });
+    const error = nextEvent(series, "error");
+
+    await expect(series.load()).rejects.toThrow(/Unknown asset/);
+    expect((await error).code).toBe("BACKFILL_ERROR");
+  });
+
+  it("rejects unknown intervals", () => {
+    expect(() => new CandleSeries(client, { asset: "BTC", interval: "7m" })).toThrow(
+      "Unknown candle interval: 7m"
+    );
+  });
+});
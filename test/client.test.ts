@@ -0,0 +1,399 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { HyperliquidClient } from "../src/client";
+import { PrivateKeySigner } from "../src/auth";
+import { MockNyliumServer } from "../src/testing";
+import type { ClientOptions, PriceData } from "../src/types";
+import { book, candle, price, PRIVATE_KEY, trade, WALLET } from "./fixtures";
+import { eventually, nextEvent } from "./helpers";
+
+describe("HyperliquidClient", () => {
+  let server: MockNyliumServer;
+  let client: HyperliquidClient;
+
+  const createClient = (options?: ClientOptions) => {
+    client = new HyperliquidClient({ url: server.url, reconnectDelay: 10, ...options });
+    return client;
+  };
+
+  beforeEach(async () => {
+    server = new MockNyliumServer();
+    await server.start();
+  });
+
+  afterEach(async () => {
+    client?.disconnect();
+    await server.stop();
+  });
+
+  describe("connect", () => {
+    it("connects and reports the server's client id", async () => {
+      createClient();
+      const connected = nextEvent(client, "connected");
+
+      await client.connect();
+
+      expect(client.isConnected()).toBe(true);
+      expect(client.getState()).toBe("connected");
+      expect((await connected).clientId).toBe(server.getClients()[0]);
+    });
+
+    it("goes through connecting to connected, and back to disconnected", async () => {
+      createClient();
+      const states: string[] = [];
+      client.on("stateChange", (state) => states.push(state));
+
+      await client.connect();
+      client.disconnect();
+
+      expect(states).toEqual(["connecting", "connected", "disconnected"]);
+    });
+  });
+
+  describe("subscribe", () => {
+    it("sends subscriptions and re-emits room data", async () => {
+      createClient();
+      await client.connect();
+
+      client.subscribeOrderBook("BTC");
+      await server.waitFor("subscribe:orderbook", (m) => m.payload.asset === "BTC");
+      await eventually(() => expect(server.getRooms()).toContain("orderbook:BTC"));
+
+      const received = nextEvent(client, "orderbook");
+      server.emitToRoom("orderbook:BTC", "orderbook:update", book("BTC", [[100, 1]], [[101, 1]]));
+      expect((await received).bids[0].price).toBe(100);
+    });
+
+    it("sends subscriptions declared before connecting once connected", async () => {
+      createClient();
+      client.subscribePrices();
+      client.subscribeCandles("ETH", "1h");
+
+      await client.connect();
+
+      await server.waitFor("subscribe:price");
+      await server.waitFor("subscribe:candle", (m) => m.payload.coin === "ETH");
+      await eventually(() =>
+        expect(server.getRooms()).toEqual(expect.arrayContaining(["prices:all", "candle:ETH:1h"]))
+      );
+    });
+
+    it("sends the initial snapshot of a room", async () => {
+      server.setPrices([price("BTC", 97000), price("ETH", 3500)]);
+      createClient();
+      const snapshot = nextEvent(client, "prices");
+
+      client.subscribePrices();
+      await client.connect();
+
+      expect((await snapshot).map((p: PriceData) => p.symbol)).toEqual(["BTC", "ETH"]);
+    });
+
+    it("unsubscribes and forgets the room", async () => {
+      createClient();
+      client.subscribeTrades("SOL");
+      await client.connect();
+      await eventually(() => expect(server.getRooms()).toContain("trades:SOL"));
+
+      client.unsubscribe("trades:SOL");
+
+      await server.waitFor("unsubscribe", (m) => m.payload.room === "trades:SOL");
+      await eventually(() => expect(server.getRooms()).not.toContain("trades:SOL"));
+      expect(client.getSubscriptions()).toEqual([]);
+    });
+
+    it("rejects unknown assets", () => {
+      createClient();
+      expect(() => client.subscribeOrderBook("NOT_AN_ASSET")).toThrow(/Unknown asset/);
+    });
+  });
+
+  describe("restoreSession", () => {
+    it("replays every subscription after the connection drops", async () => {
+      createClient();
+      client.subscribePrices("BTC");
+      client.subscribeOrderBook("ETH");
+      await client.connect();
+      await eventually(() => expect(server.getRooms()).toHaveLength(2));
+
+      server.clearReceived();
+      const reconnected = nextEvent(client, "connected");
+      server.dropConnections();
+      await reconnected;
+
+      await server.waitFor("subscribe:price", (m) => m.payload.asset === "BTC");
+      await server.waitFor("subscribe:orderbook", (m) => m.payload.asset === "ETH");
+      await eventually(() =>
+        expect(server.getRooms().sort()).toEqual(["orderbook:ETH", "price:BTC"])
+      );
+    });
+
+    it("does not replay rooms unsubscribed before the reconnect", async () => {
+      createClient();
+      client.subscribeTrades("BTC");
+      client.subscribeTrades("ETH");
+      await client.connect();
+      client.unsubscribe("trades:BTC");
+
+      server.clearReceived();
+      const reconnected = nextEvent(client, "connected");
+      server.disconnectAll();
+      await reconnected;
+
+      await server.waitFor("subscribe:trades");
+      expect(server.getReceived("subscribe:trades").map((m) => m.payload.asset)).toEqual(["ETH"]);
+    });
+
+    it("re-authenticates wallets after the connection drops", async () => {
+      createClient();
+      await client.connect();
+      await client.authenticate(WALLET);
+
+      server.clearReceived();
+      const authenticated = nextEvent(client, "authenticated");
+      server.dropConnections();
+
+      expect((await authenticated).wallet).toBe(WALLET);
+      expect(server.getReceived("authenticate")[0].payload).toEqual({ wallet: WALLET });
+      expect(client.getAuthenticatedWallets()).toEqual([WALLET]);
+    });
+  });
+
+  describe("requests", () => {
+    it("answers one-shot requests", async () => {
+      server.setPrices([price("BTC", 97000), price("ETH", 3500)]);
+      createClient();
+      await client.connect();
+
+      const prices = await client.getPrices(["ETH"]);
+
+      expect(prices.map((p) => p.symbol)).toEqual(["ETH"]);
+    });
+
+    describe("getPrices from servers that reply with prices:snapshot", () => {
+      beforeEach(async () => {
+        await server.stop();
+        server = new MockNyliumServer({ legacyPriceResponses: true });
+        await server.start();
+        server.setPrices([price("BTC", 97000), price("ETH", 3500)]);
+        createClient({ requestTimeout: 1000 });
+        await client.connect();
+      });
+
+      it("answers from the snapshot when no ack arrives", async () => {
+        const snapshot = nextEvent(client, "prices");
+
+        const prices = await client.getPrices(["ETH"]);
+
+        expect(prices.map((p) => [p.symbol, p.price])).toEqual([["ETH", 3500]]);
+        // The snapshot is still delivered as an event
+        expect((await snapshot).map((p: PriceData) => p.symbol)).toEqual(["ETH"]);
+      });
+
+      it("ignores broadcast snapshots of other assets", async () => {
+        client.subscribePrices();
+        await eventually(() => expect(server.getRooms()).toContain("prices:all"));
+        server.setLatency(50);
+
+        const request = client.getPrices(["ETH"]);
+        server.emitToRoom("prices:all", "prices:snapshot", [price("BTC", 97100), price("ETH", 3600)]);
+
+        expect((await request).map((p) => [p.symbol, p.price])).toEqual([["ETH", 3500]]);
+      });
+    });
+
+    it("requests assets by their server symbol", async () => {
+      server.setPrices([price("BTC", 97000), price("@107", 24)]);
+      createClient();
+      await client.connect();
+
+      const prices = await client.getPrices(["HYPE/USDC"]);
+
+      expect(prices.map((p) => p.symbol)).toEqual(["@107"]);
+      expect(server.getReceived("get:prices")[0].payload).toEqual({ assets: ["@107"] });
+    });
+
+    it("rejects a request the server does not answer in time", async () => {
+      createClient({ requestTimeout: 50 });
+      await client.connect();
+      server.setLatency(200);
+
+      await expect(client.getPrices(["BTC"])).rejects.toThrow(
+        "Request timeout: get:prices (50ms)"
+      );
+    });
+
+    it("applies a per-request timeout over the client default", async () => {
+      createClient({ requestTimeout: 5000 });
+      await client.connect();
+      server.setLatency(200);
+
+      await expect(client.getPrices(["BTC"], { timeout: 20 })).rejects.toThrow(
+        "Request timeout: get:prices (20ms)"
+      );
+    });
+
+    it("rejects in-flight requests when disconnecting", async () => {
+      createClient();
+      await client.connect();
+      server.setLatency(200);
+
+      const request = client.getPrices(["BTC"]);
+      client.disconnect();
+
+      await expect(request).rejects.toThrow("Disconnected during request: get:prices");
+    });
+
+    it("refuses requests while disconnected", async () => {
+      createClient();
+      await expect(client.getPrices(["BTC"])).rejects.toThrow(/Not connected/);
+    });
+  });
+
+  describe("history", () => {
+    beforeEach(async () => {
+      await server.stop();
+      server = new MockNyliumServer({ historyPageSize: 3 });
+      await server.start();
+      createClient({ historyPageSize: 3 });
+      await client.connect();
+    });
+
+    const requests = (event: string) => server.getReceived(event).map((m) => m.payload);
+
+    it("pages through a range and stops at a short page", async () => {
+      server.setCandleHistory(
+        "BTC",
+        "1m",
+        [0, 1, 2, 3, 4, 5].map((minute) => candle(minute * 60_000, 1, 1, 1, 1))
+      );
+
+      const candles = await client.getCandleHistory("BTC", "1m", 0, 10 * 60_000);
+
+      expect(candles.map((c) => c.time / 60_000)).toEqual([0, 1, 2, 3, 4, 5]);
+      expect(candles[0]).toMatchObject({ coin: "BTC", interval: "1m" });
+      // Each page starts at the boundary of the last; [4, 5] ends the range
+      expect(requests("get:candles").map((p) => p.startTime / 60_000)).toEqual([0, 2, 4]);
+    });
+
+    it("keeps the items sharing a boundary timestamp, without duplicates", async () => {
+      server.setTradeHistory("ETH", [
+        trade("a", "ETH", 1, 1, 1),
+        trade("b", "ETH", 1, 1, 2),
+        trade("c", "ETH", 1, 1, 3),
+        trade("d", "ETH", 1, 1, 3),
+        trade("e", "ETH", 1, 1, 4),
+      ]);
+
+      const trades = await client.getTradeHistory("ETH", 0, { until: 10 });
+
+      expect(trades.map((t) => t.id)).toEqual(["a", "b", "c", "d", "e"]);
+      expect(requests("get:trades").map((p) => p.since)).toEqual([0, 3, 4]);
+    });
+
+    it("steps past a full page within one timestamp", async () => {
+      server.setTradeHistory("ETH", [
+        trade("a", "ETH", 1, 1, 1),
+        trade("b", "ETH", 1, 1, 2),
+        trade("c", "ETH", 1, 1, 2),
+        trade("d", "ETH", 1, 1, 2),
+        trade("e", "ETH", 1, 1, 2),
+        trade("f", "ETH", 1, 1, 5),
+      ]);
+
+      const trades = await client.getTradeHistory("ETH", 0, { until: 10 });
+
+      // "e" is past the server limit at its timestamp and cannot be paged to
+      expect(trades.map((t) => t.id)).toEqual(["a", "b", "c", "d", "f"]);
+      expect(requests("get:trades").map((p) => p.since)).toEqual([0, 2, 3]);
+    });
+  });
+
+  describe("authenticate", () => {
+    it("authenticates a wallet and answers its balance", async () => {
+      server.setBalance(WALLET, 1234.5);
+      createClient();
+      await client.connect();
+
+      await client.authenticate(WALLET);
+
+      expect(client.getAuthenticatedWallet()).toBe(WALLET);
+      expect(await client.getBalance()).toBe(1234.5);
+    });
+
+    it("rejects wallets the server refuses", async () => {
+      server.setAuthHandler((wallet) => (wallet === WALLET ? "Banned" : null));
+      createClient();
+      await client.connect();
+
+      await expect(client.authenticate(WALLET)).rejects.toThrow("Banned");
+      expect(client.getAuthenticatedWallets()).toEqual([]);
+    });
+
+    it("sends queued authentication once connected", async () => {
+      createClient();
+      const authenticated = client.authenticate(WALLET);
+
+      await client.connect();
+
+      await expect(authenticated).resolves.toBeUndefined();
+      expect(client.getAuthenticatedWallet()).toBe(WALLET);
+    });
+
+    it("signs a challenge and reuses the session token after a reconnect", async () => {
+      await server.stop();
+      server = new MockNyliumServer({ requireSignature: true });
+      await server.start();
+
+      const signer = new PrivateKeySigner(PRIVATE_KEY);
+      const address = await signer.getAddress();
+      createClient();
+      await client.connect();
+
+      await client.authenticate(signer);
+      expect(server.getReceived("auth:challenge")).toHaveLength(1);
+      expect(server.getReceived("authenticate")[0].payload.signature).toMatch(/^0x/);
+      expect(client.getAuthenticatedWallet()).toBe(address);
+
+      server.clearReceived();
+      const reauthenticated = nextEvent(client, "authenticated");
+      server.dropConnections();
+      await reauthenticated;
+
+      expect(server.getReceived("auth:challenge")).toHaveLength(0);
+      expect(server.getReceived("authenticate")[0].payload.token).toBeTypeOf("string");
+    });
+
+    it("requires a signature when the server does", async () => {
+      await server.stop();
+      server = new MockNyliumServer({ requireSignature: true });
+      await server.start();
+      createClient();
+      await client.connect();
+
+      await expect(client.authenticate(WALLET)).rejects.toThrow("Signature required");
+    });
+
+    it("routes user data to the wallet it is tagged with", async () => {
+      createClient();
+      await client.connect();
+      await client.authenticate(WALLET);
+
+      const tagged = nextEvent(client, "walletData");
+      server.emitToWallet(WALLET, "balance:update", { balance: 42 });
+
+      expect(await tagged).toEqual({ wallet: WALLET, event: "balance", data: 42 });
+    });
+
+    it("stops user data after unauthenticate", async () => {
+      createClient();
+      await client.connect();
+      await client.authenticate(WALLET);
+
+      client.unauthenticate(WALLET);
+
+      await server.waitFor("unauthenticate");
+      expect(client.getAuthenticatedWallets()).toEqual([]);
+      await expect(client.getBalance()).rejects.toThrow(/Not authenticated/);
+    });
+  });
+});
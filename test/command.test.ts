@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { checkCommand, clientOptions, createWriter, numberFlag, parseArgs } from "../src/command";
+
+describe("parseArgs", () => {
+  it("splits positional arguments from flags", () => {
+    expect(parseArgs(["dump", "book", "BTC", "--depth", "5", "--format=csv", "--debug"])).toEqual({
+      positional: ["dump", "book", "BTC"],
+      flags: { depth: "5", format: "csv", debug: true },
+    });
+    expect(parseArgs(["-h"]).flags).toEqual({ help: true });
+    expect(parseArgs(["--url=ws://host?a=b"]).flags.url).toBe("ws://host?a=b");
+  });
+
+  it("rejects unknown options and missing values", () => {
+    expect(() => parseArgs(["watch", "prices", "--lmit", "10"])).toThrow(/^Unknown option: --lmit/);
+    expect(() => parseArgs(["book", "BTC", "--depth"])).toThrow("Missing value for --depth");
+  });
+
+  it("validates flag values", () => {
+    expect(numberFlag(parseArgs([]), "depth", 10)).toBe(10);
+    expect(() => numberFlag(parseArgs(["--depth", "0"]), "depth", 10)).toThrow(
+      "--depth must be a positive integer"
+    );
+    expect(clientOptions(parseArgs(["--network", "testnet", "--debug"]))).toMatchObject({
+      network: "testnet",
+      debug: true,
+    });
+    expect(() => clientOptions(parseArgs(["--transport", "carrier-pigeon"]))).toThrow(
+      "Unknown transport: carrier-pigeon"
+    );
+  });
+});
+
+describe("checkCommand", () => {
+  it("accepts complete commands", () => {
+    expect(() => checkCommand("watch", ["prices"])).not.toThrow();
+    expect(() => checkCommand("watch", ["prices", "BTC", "ETH"])).not.toThrow();
+    expect(() => checkCommand("candles", ["SOL", "5m"])).not.toThrow();
+    expect(() => checkCommand("dump", ["account", "0x1234"])).not.toThrow();
+  });
+
+  it("names unknown commands and missing arguments", () => {
+    expect(() => checkCommand("watch", ["books"])).toThrow(/^Unknown command: watch books\n/);
+    expect(() => checkCommand("plot", [])).toThrow(/^Unknown command: plot\n/);
+    expect(() => checkCommand("candles", ["SOL"])).toThrow(/^Missing INTERVAL for candles\n/);
+    expect(() => checkCommand("dump", ["candles"])).toThrow(
+      /^Missing ASSET and INTERVAL for dump candles\n/
+    );
+  });
+});
+
+describe("createWriter", () => {
+  const capture = (format: string) => {
+    let text = "";
+    const write = createWriter(format, { write: (chunk: string) => (text += chunk) });
+    return { write, text: () => text };
+  };
+
+  it("writes one JSON record per line", () => {
+    const output = capture("ndjson");
+
+    output.write([{ a: 1 }, { b: "x" }]);
+
+    expect(output.text()).toBe('{"a":1}\n{"b":"x"}\n');
+  });
+
+  it("writes CSV with the columns of every record, quoting where needed", () => {
+    const output = capture("csv");
+
+    output.write([{ asset: "BTC", price: 1 }, { asset: "ETH", price: 2, note: 'a "b", c' }]);
+    output.write([{ asset: "SOL", price: 3 }]);
+    output.write([{ asset: "HYPE", levels: [1, 2] }]);
+
+    expect(output.text()).toBe(
+      [
+        "asset,price,note",
+        "BTC,1,",
+        'ETH,2,"a ""b"", c"',
+        "SOL,3,",
+        "asset,price,note,levels",
+        'HYPE,,,"[1,2]"',
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("rejects unknown formats", () => {
+    expect(() => createWriter("xml")).toThrow("Unknown format: xml");
+  });
+});
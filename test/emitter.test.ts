@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ListenerGroup, TypedEmitter } from "../src/emitter";
+
+interface TestEvents {
+  book: { asset: string; version: number };
+  tick: number;
+}
+
+class TestEmitter extends TypedEmitter<TestEvents> {
+  fire<K extends keyof TestEvents>(event: K, data: TestEvents[K]): void {
+    this.emit(event, data);
+  }
+}
+
+describe("TypedEmitter", () => {
+  let emitter: TestEmitter;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: 1_700_000_000_000 });
+    emitter = new TestEmitter();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("calls plain handlers synchronously and keeps going when one throws", () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const received: number[] = [];
+    emitter.on("tick", () => {
+      throw new Error("boom");
+    });
+    emitter.on("tick", (tick) => received.push(tick));
+
+    emitter.fire("tick", 1);
+
+    expect(received).toEqual([1]);
+    expect(error).toHaveBeenCalledTimes(1);
+    error.mockRestore();
+  });
+
+  it("throttles to the first event at once and the newest one after the interval", () => {
+    const received: number[] = [];
+    emitter.on("tick", (tick) => received.push(tick), { throttleMs: 100 });
+
+    emitter.fire("tick", 1);
+    emitter.fire("tick", 2);
+    emitter.fire("tick", 3);
+    expect(received).toEqual([1]);
+
+    vi.advanceTimersByTime(99);
+    expect(received).toEqual([1]);
+    vi.advanceTimersByTime(1);
+    expect(received).toEqual([1, 3]);
+
+    // Idle again: the next event is delivered at once
+    vi.advanceTimersByTime(500);
+    emitter.fire("tick", 4);
+    expect(received).toEqual([1, 3, 4]);
+  });
+
+  it("conflates held events per key", () => {
+    const received: string[] = [];
+    emitter.on("book", ({ asset, version }) => received.push(`${asset}${version}`), {
+      throttleMs: 100,
+      key: (book) => book.asset,
+    });
+
+    emitter.fire("book", { asset: "BTC", version: 1 });
+    emitter.fire("book", { asset: "BTC", version: 2 });
+    emitter.fire("book", { asset: "ETH", version: 1 });
+    emitter.fire("book", { asset: "BTC", version: 3 });
+    emitter.fire("book", { asset: "ETH", version: 2 });
+    vi.advanceTimersByTime(100);
+
+    expect(received).toEqual(["BTC1", "BTC3", "ETH2"]);
+  });
+
+  it("flushes batches in order, dropping the oldest beyond maxSize", () => {
+    const batches: number[][] = [];
+    emitter.onBatch("tick", (ticks) => batches.push(ticks), { throttleMs: 100, maxSize: 3 });
+
+    emitter.fire("tick", 1);
+    [2, 3, 4, 5, 6].forEach((tick) => emitter.fire("tick", tick));
+    vi.advanceTimersByTime(100);
+
+    expect(batches).toEqual([[1], [4, 5, 6]]);
+  });
+
+  it("flushes a batch without a schedule on the next tick", () => {
+    const batches: number[][] = [];
+    emitter.onBatch("tick", (ticks) => batches.push(ticks));
+
+    emitter.fire("tick", 1);
+    emitter.fire("tick", 2);
+    expect(batches).toEqual([]);
+
+    vi.advanceTimersByTime(0);
+    expect(batches).toEqual([[1, 2]]);
+  });
+
+  it("rejects invalid schedules", () => {
+    expect(() => emitter.on("tick", () => {}, { throttleMs: -1 })).toThrow(/throttleMs/);
+    expect(() => emitter.onBatch("tick", () => {}, { maxSize: 0 })).toThrow(/maxSize/);
+  });
+
+  it("cancels a pending delivery on off()", () => {
+    const handler = vi.fn();
+    const batch = vi.fn();
+    emitter.on("tick", handler, { throttleMs: 100 });
+    emitter.onBatch("tick", batch, { throttleMs: 100 });
+
+    emitter.fire("tick", 1);
+    emitter.fire("tick", 2);
+    emitter.off("tick", handler);
+    emitter.off("tick", batch);
+    vi.advanceTimersByTime(1000);
+
+    expect(handler.mock.calls).toEqual([[1]]);
+    expect(batch.mock.calls).toEqual([[[1]]]);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it("cancels pending deliveries on removeAllListeners()", () => {
+    const handler = vi.fn();
+    emitter.on("tick", handler, { throttleMs: 100 });
+    emitter.fire("tick", 1);
+    emitter.fire("tick", 2);
+
+    emitter.removeAllListeners();
+    vi.advanceTimersByTime(1000);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not keep the process alive for a held event", () => {
+    const unref = vi.fn();
+    const setTimeout = vi.spyOn(globalThis, "setTimeout").mockReturnValue({ unref } as any);
+    emitter.on("tick", () => {}, { throttleMs: 100 });
+
+    emitter.fire("tick", 1);
+    emitter.fire("tick", 2);
+
+    expect(setTimeout).toHaveBeenCalledTimes(1);
+    expect(unref).toHaveBeenCalledTimes(1);
+    setTimeout.mockRestore();
+  });
+});
+
+describe("ListenerGroup", () => {
+  it("detaches every handler it attached, and only those", () => {
+    const emitter = new TestEmitter();
+    const group = new ListenerGroup(emitter);
+    const grouped = vi.fn();
+    const batched = vi.fn();
+    const other = vi.fn();
+    group.on("tick", grouped);
+    group.onBatch("tick", batched);
+    emitter.on("tick", other);
+
+    group.removeAll();
+    emitter.fire("tick", 1);
+
+    expect(grouped).not.toHaveBeenCalled();
+    expect(batched).not.toHaveBeenCalled();
+    expect(other).toHaveBeenCalledWith(1);
+  });
+});
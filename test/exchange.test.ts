@@ -0,0 +1,335 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { bytesToHex } from "@noble/hashes/utils";
+import { hashTypedData, PrivateKeySigner, recoverTypedDataAddress, splitSignature } from "../src/auth";
+import { ExchangeClient, l1ActionTypedData, userSignedActionTypedData } from "../src/exchange";
+import { MockNyliumServer } from "../src/testing";
+import type { Network } from "../src/types";
+import { PRIVATE_KEY } from "./fixtures";
+
+/** Address of PRIVATE_KEY */
+const ADDRESS = "0x14791697260E4c9A71f18484C9f997B308e59325";
+
+const signer = new PrivateKeySigner(PRIVATE_KEY);
+
+const joinSignature = ({ r, s, v }: { r: string; s: string; v: number }) =>
+  `${r}${s.slice(2)}${v.toString(16)}`;
+
+const sign = async (typedData: Parameters<typeof hashTypedData>[0]) =>
+  splitSignature(await signer.signTypedData!(typedData));
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Vectors from the official Python SDK's signing tests.
+// The Python SDK prints r and s without leading zeros; they are padded here.
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe("L1 action signing (Python SDK vectors)", () => {
+  const order = {
+    type: "order",
+    orders: [{ a: 1, b: true, p: "100", s: "100", r: false, t: { limit: { tif: "Gtc" } } }],
+    grouping: "na",
+  };
+
+  it("hashes an order into the phantom agent's connectionId", () => {
+    const action = {
+      type: "order",
+      orders: [{ a: 4, b: true, p: "1670.1", s: "0.0147", r: false, t: { limit: { tif: "Ioc" } } }],
+      grouping: "na",
+    };
+
+    expect(l1ActionTypedData(action, 1677777606040, null, "mainnet").message).toEqual({
+      source: "a",
+      connectionId: "0x0fcbeda5ae3c4950a548021552a4fea2226858c4453571bf3f24ba017eac2908",
+    });
+  });
+
+  it("signs an order on mainnet and testnet", async () => {
+    const mainnet = l1ActionTypedData(order, 0, null, "mainnet");
+    const testnet = l1ActionTypedData(order, 0, null, "testnet");
+
+    expect(await sign(mainnet)).toEqual({
+      r: "0xd65369825a9df5d80099e513cce430311d7d26ddf477f5b3a33d2806b100d78e",
+      s: "0x2b54116ff64054968aa237c20ca9ff68000f977c93289157748a3162b6ea940e",
+      v: 28,
+    });
+    expect(await sign(testnet)).toEqual({
+      r: "0x82b2ba28e76b3d761093aaded1b1cdad4960b3af30212b343fb2e6cdfa4e3d54",
+      s: "0x6b53878fc99d26047f4d7e8c90eb98955a109f44209163f52d8dc4278cbbd9f5",
+      v: 27,
+    });
+    expect(recoverTypedDataAddress(mainnet, joinSignature(await sign(mainnet)))).toBe(ADDRESS);
+  });
+
+  it("signs an order with a client order id", async () => {
+    const action = {
+      ...order,
+      orders: [{ ...order.orders[0], c: "0x00000000000000000000000000000001" }],
+    };
+
+    expect(await sign(l1ActionTypedData(action, 0, null, "mainnet"))).toEqual({
+      r: "0x041ae18e8239a56cacbc5dad94d45d0b747e5da11ad564077fcac71277a946e3",
+      s: "0x3c61f667e747404fe7eea8f90ab0e76cc12ce60270438b2058324681a00116da",
+      v: 27,
+    });
+  });
+
+  it("signs an action for a vault", async () => {
+    // float_to_int_for_hashing(1000): a uint64 in the msgpack encoding
+    const action = { type: "dummy", num: 100000000000 };
+
+    expect(await sign(l1ActionTypedData(action, 0, null, "mainnet"))).toEqual({
+      r: "0x053749d5b30552aeb2fca34b530185976545bb22d0b3ce6f62e31be961a59298",
+      s: "0x755c40ba9bf05223521753995abb2f73ab3229be8ec921f350cb447e384d8ed8",
+      v: 27,
+    });
+    expect(
+      await sign(
+        l1ActionTypedData(action, 0, "0x1719884eb866cb12b2287399b15f7db5e7d775ea", "mainnet")
+      )
+    ).toEqual({
+      r: "0x003c548db75e479f8012acf3000ca3a6b05606bc2ec0c29c50c515066a326239",
+      s: "0x4d402be7396ce74fbba3795769cda45aec00dc3125a984f2a9f23177b190da2c",
+      v: 28,
+    });
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Actions built by ExchangeClient. The Python SDK's tests have no vectors
+// for these; the expected values follow its signing code and were computed
+// with viem and @msgpack/msgpack, which reproduce the vectors above.
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe("ExchangeClient signatures", () => {
+  const NONCE = 1700000000000;
+
+  const capture = (network: Network) => {
+    const bodies: any[] = [];
+    const fetch = vi.fn(async (_url: string | URL | Request, init?: RequestInit) => {
+      bodies.push(JSON.parse(String(init!.body)));
+      return new Response(JSON.stringify({ status: "ok", response: { type: "default" } }));
+    });
+    const exchange = new ExchangeClient(signer, { network, fetch: fetch as typeof globalThis.fetch });
+    return { exchange, bodies };
+  };
+
+  const verify = (body: any, typedData: Parameters<typeof hashTypedData>[0]) =>
+    expect(recoverTypedDataAddress(typedData, joinSignature(body.signature))).toBe(ADDRESS);
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(NONCE);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("cancel", async () => {
+    const vectors = [
+      {
+        network: "mainnet",
+        action: { type: "cancel", cancels: [{ a: 1, o: 123456789 }] },
+        connectionId: "0x9375cdf74004a5fdeb2f4e21e14d7ba2c1db0329fe61515982945f157d3f0069",
+        signature: {
+          r: "0x0921c4ea675ba8c76d384a63acf2adb50aab08a9b44269c8aed1cd03917fcd40",
+          s: "0x417d3845b5f3d95d60fea4ab67207a3bf281de88ae89b8ccf72af029163a8c6a",
+          v: 27,
+        },
+      },
+      {
+        // ETH is asset 4 on testnet
+        network: "testnet",
+        action: { type: "cancel", cancels: [{ a: 4, o: 123456789 }] },
+        connectionId: "0x28850c8105e7d927147b1aeac52b9d3a899034f7bb96797878bcf893e971b410",
+        signature: {
+          r: "0xd4e78df36f8ee19ecfe254abb4874eae4d5cff6d52a5286a0feda59f52b76876",
+          s: "0x0dff8c34f404d557b3e52ca90aa5231b1498a0d8221f1c6ecf4ffbd68566b6cb",
+          v: 28,
+        },
+      },
+    ] as const;
+
+    for (const { network, action, connectionId, signature } of vectors) {
+      const { exchange, bodies } = capture(network);
+      await exchange.cancelOrder("ETH", 123456789);
+
+      const typedData = l1ActionTypedData(action, NONCE, null, network);
+      expect(bodies[0]).toEqual({ action, nonce: NONCE, signature, vaultAddress: null });
+      expect(typedData.message.connectionId).toBe(connectionId);
+      verify(bodies[0], typedData);
+    }
+  });
+
+  it("modify", async () => {
+    const { exchange, bodies } = capture("mainnet");
+    await exchange.modifyOrder(123456789, {
+      asset: "ETH",
+      side: "sell",
+      size: 0.0147,
+      price: 1670.1,
+      reduceOnly: true,
+      timeInForce: "Alo",
+    });
+
+    const action = {
+      type: "batchModify",
+      modifies: [
+        {
+          oid: 123456789,
+          order: { a: 1, b: false, p: "1670.1", s: "0.0147", r: true, t: { limit: { tif: "Alo" } } },
+        },
+      ],
+    };
+    const typedData = l1ActionTypedData(action, NONCE, null, "mainnet");
+
+    expect(bodies[0]).toEqual({
+      action,
+      nonce: NONCE,
+      signature: {
+        r: "0xeae2b48f0861e1b92a06eb10999bd83c8953280f7de588c973be224376b5862f",
+        s: "0x3f9d9316ae72a15975df9344f6ba47413c473147a9b2b322225983c21e0aa3c8",
+        v: 28,
+      },
+      vaultAddress: null,
+    });
+    expect(typedData.message.connectionId).toBe(
+      "0xfe5419c5ae32ce2911e8dbcdfc3d0204d5e6ac7dd384e787692b17c00fba7ec8"
+    );
+    verify(bodies[0], typedData);
+  });
+
+  it("usdClassTransfer", async () => {
+    const { exchange, bodies } = capture("mainnet");
+    await exchange.transferUsd(12.5, "perp");
+
+    const action = {
+      type: "usdClassTransfer",
+      signatureChainId: "0x66eee",
+      hyperliquidChain: "Mainnet",
+      amount: "12.5",
+      toPerp: true,
+      nonce: NONCE,
+    };
+    const typedData = userSignedActionTypedData(action);
+
+    expect(bodies[0]).toEqual({
+      action,
+      nonce: NONCE,
+      signature: {
+        r: "0x6a69433fd308348c335fe24717037ce26b2ea06a7fec94ef1cbb04663023a499",
+        s: "0x09a52fbad7515b05cfdf757c0af11b408884fda32e356bafd2c96a64a383cbf8",
+        v: 28,
+      },
+      vaultAddress: null,
+    });
+    expect(`0x${bytesToHex(hashTypedData(typedData))}`).toBe(
+      "0x3a048e18cdde4ad2acd9bd4ce8ff1e03bfcf90bc8a45826138b87e6e348c932e"
+    );
+    verify(bodies[0], typedData);
+  });
+
+  it("usdClassTransfer on testnet", async () => {
+    const { exchange, bodies } = capture("testnet");
+    await exchange.transferUsd(12.5, "perp");
+
+    expect(bodies[0].action.hyperliquidChain).toBe("Testnet");
+    expect(bodies[0].signature).toEqual({
+      r: "0x86f2a7d14a8d8ed060868c4a481e5d05456c078b5d19599e9ce2888fafe51886",
+      s: "0x3693e14f697892765d321dc9a0a36f6e04461b886a150db29439b782c226b8ef",
+      v: 28,
+    });
+  });
+});
+
+describe("ExchangeClient against MockNyliumServer", () => {
+  let server: MockNyliumServer;
+  let exchange: ExchangeClient;
+
+  beforeEach(async () => {
+    server = new MockNyliumServer();
+    await server.start();
+    exchange = new ExchangeClient(signer, { url: server.url });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it("places, modifies and cancels an order", async () => {
+    const placed = await exchange.placeOrder({ asset: "BTC", side: "buy", size: 0.01, price: 95000 });
+    expect(placed.status).toBe("resting");
+
+    const modified = await exchange.modifyOrder(placed.orderId!, {
+      asset: "BTC",
+      side: "buy",
+      size: 0.02,
+      price: 94500,
+    });
+    expect(modified).toMatchObject({ status: "resting", orderId: placed.orderId });
+
+    const cancelled = await exchange.cancelOrder("BTC", placed.orderId!);
+    expect(cancelled).toEqual({ orderId: placed.orderId, success: true });
+
+    const requests = server.getExchangeRequests();
+    expect(requests.map((request) => request.action.type)).toEqual(["order", "batchModify", "cancel"]);
+    expect(requests.every((request) => request.signer === ADDRESS)).toBe(true);
+    expect(requests[0].action.orders[0]).toEqual({
+      a: 0,
+      b: true,
+      p: "95000",
+      s: "0.01",
+      r: false,
+      t: { limit: { tif: "Gtc" } },
+    });
+  });
+
+  it("fills IOC orders", async () => {
+    const result = await exchange.placeOrder({
+      asset: "ETH",
+      side: "sell",
+      size: 0.5,
+      price: 3500,
+      timeInForce: "Ioc",
+    });
+
+    expect(result).toMatchObject({ status: "filled", filledSize: 0.5, avgPrice: 3500 });
+  });
+
+  it("signs user-signed actions", async () => {
+    await exchange.transferUsd(100, "spot");
+
+    const [request] = server.getExchangeRequests("usdClassTransfer");
+    expect(request.signer).toBe(ADDRESS);
+    expect(request.action).toMatchObject({ amount: "100", toPerp: false });
+  });
+
+  it("rejects exchange errors", async () => {
+    server.setExchangeHandler(() => ({ status: "err", response: "Insufficient margin" }));
+
+    await expect(
+      exchange.placeOrder({ asset: "BTC", side: "buy", size: 1, price: 95000 })
+    ).rejects.toThrow("Exchange error: Insufficient margin");
+  });
+
+  it("resolves order rejections with status error", async () => {
+    server.setExchangeHandler(() => ({
+      status: "ok",
+      response: { type: "order", data: { statuses: [{ error: "Order must have minimum value of $10" }] } },
+    }));
+
+    const result = await exchange.placeOrder({ asset: "BTC", side: "buy", size: 0.0001, price: 95000 });
+
+    expect(result).toEqual({
+      status: "error",
+      clientOrderId: undefined,
+      error: "Order must have minimum value of $10",
+    });
+  });
+
+  it("recovers a different signer when the networks differ", async () => {
+    const testnet = new ExchangeClient(signer, { url: server.url, network: "testnet" });
+    await testnet.setLeverage("BTC", 10);
+
+    expect(server.getExchangeRequests("updateLeverage")[0].signer).not.toBe(ADDRESS);
+  });
+});
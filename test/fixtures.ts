@@ -0,0 +1,103 @@
+import type { Candle, OrderBook, OrderBookLevel, Position, PriceData, Trade } from "../src/types";
+
+export const WALLET = "0x1234567890abcdef1234567890abcdef12345678";
+
+/** Private key used by the official Python SDK's signing tests */
+export const PRIVATE_KEY = "0x0123456789012345678901234567890123456789012345678901234567890123";
+
+export function price(symbol: string, value: number, fields?: Partial<PriceData>): PriceData {
+  return {
+    symbol,
+    displayName: symbol,
+    type: "perp",
+    price: value,
+    volume24h: 0,
+    high24h: value,
+    low24h: value,
+    change24h: 0,
+    changePercent24h: 0,
+    fundingRate: 0,
+    openInterest: 0,
+    lastUpdate: 1,
+    ...fields,
+  };
+}
+
+/**
+ * Order book from [price, size] pairs, bids high to low and asks low to high
+ */
+export function book(
+  asset: string,
+  bids: Array<[number, number]>,
+  asks: Array<[number, number]>
+): OrderBook {
+  const level = ([price, size]: [number, number]): OrderBookLevel => ({
+    price,
+    size,
+    total: price * size,
+    orders: 1,
+  });
+  const bestBid = bids[0]?.[0] ?? 0;
+  const bestAsk = asks[0]?.[0] ?? 0;
+
+  return {
+    asset,
+    displayName: asset,
+    type: "perp",
+    bids: bids.map(level),
+    asks: asks.map(level),
+    spread: bestBid && bestAsk ? bestAsk - bestBid : 0,
+    spreadPercent: bestBid && bestAsk ? ((bestAsk - bestBid) / bestBid) * 100 : 0,
+    midPrice: bestBid && bestAsk ? (bestBid + bestAsk) / 2 : bestBid || bestAsk,
+    bestBid,
+    bestAsk,
+    lastUpdate: 1,
+  };
+}
+
+export function trade(id: string, asset: string, price: number, size: number, timestamp: number): Trade {
+  return {
+    id,
+    asset,
+    displayName: asset,
+    type: "perp",
+    price,
+    size,
+    side: "buy",
+    value: price * size,
+    timestamp,
+  };
+}
+
+export function candle(time: number, open: number, high: number, low: number, close: number, volume: number = 1): Candle {
+  return { time, open, high, low, close, volume };
+}
+
+/**
+ * Position marked at `markPrice`, with PnL on margin at 10x unless given
+ */
+export function position(
+  asset: string,
+  side: "long" | "short",
+  size: number,
+  entryPrice: number,
+  markPrice: number,
+  fields?: Partial<Position>
+): Position {
+  const leverage = fields?.leverage ?? 10;
+  const pnl = (markPrice - entryPrice) * size * (side === "long" ? 1 : -1);
+
+  return {
+    asset,
+    displayName: asset,
+    side,
+    size,
+    entryPrice,
+    markPrice,
+    pnl,
+    pnlPercent: (pnl / ((entryPrice * size) / leverage)) * 100,
+    leverage,
+    timestamp: 1,
+    ...fields,
+  };
+}
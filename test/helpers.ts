@@ -0,0 +1,63 @@
+import { HyperliquidClient } from "../src/client";
+import type { TypedEmitter } from "../src/emitter";
+
+/**
+ * Resolve with the next payload of an event, optionally the next matching one
+ */
+export function nextEvent<Events extends object, K extends keyof Events>(
+  emitter: TypedEmitter<Events>,
+  event: K,
+  predicate: (data: Events[K]) => boolean = () => true,
+  timeout: number = 2000
+): Promise<Events[K]> {
+  return new Promise((resolve, reject) => {
+    const handler = (data: Events[K]) => {
+      if (!predicate(data)) return;
+      clearTimeout(timer);
+      emitter.off(event, handler);
+      resolve(data);
+    };
+    const timer = setTimeout(() => {
+      emitter.off(event, handler);
+      reject(new Error(`Timed out waiting for ${String(event)}`));
+    }, timeout);
+    emitter.on(event, handler);
+  });
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Retry an assertion until it passes or the timeout expires
+ */
+export async function eventually(assertion: () => void, timeout: number = 2000): Promise<void> {
+  const deadline = Date.now() + timeout;
+  for (;;) {
+    try {
+      assertion();
+      return;
+    } catch (error) {
+      if (Date.now() > deadline) throw error;
+      await sleep(10);
+    }
+  }
+}
+
+/**
+ * Client the test feeds directly: receive() goes through the same dispatch
+ * as server events, without a socket
+ */
+export class FeedClient extends HyperliquidClient {
+  receive(event: string, data: unknown, receivedAt: number = Date.now()): void {
+    this.dispatch({ event, data, receivedAt });
+  }
+
+  /**
+   * Receive user data tagged with a wallet
+   */
+  receiveFor(wallet: string, event: string, data: unknown): void {
+    this.dispatch({ event, data, receivedAt: Date.now(), wallet });
+  }
+}
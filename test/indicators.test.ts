@@ -0,0 +1,180 @@
+import { describe, expect, it } from "vitest";
+import { BollingerBands, EMA, Indicator, MACD, RSI } from "../src/indicators";
+import { BollingerValue, Candle, MacdValue } from "../src/types";
+import { candle } from "./fixtures";
+
+// Each indicator is fed candle by candle, with the forming candle revised
+// before it closes, and compared against a batch computation over the
+// closes seen so far
+
+const MINUTE = 60_000;
+const START = 1737120000000;
+
+/** Deterministic closes that trend, reverse and repeat */
+const CLOSES = Array.from({ length: 80 }, (_, i) =>
+  Number((100 + 10 * Math.sin(i / 6) + 3 * Math.cos(i * 1.7) + (i % 5 === 0 ? 0 : i / 20)).toFixed(2))
+);
+
+const bar = (i: number, close: number): Candle =>
+  candle(START + i * MINUTE, close, close + 1, close - 1, close);
+
+// ═══════════════════════════════════════════════════════════════════════════
+// BATCH REFERENCES
+// ═══════════════════════════════════════════════════════════════════════════
+
+function batchEma(values: number[], period: number): (number | undefined)[] {
+  const k = 2 / (period + 1);
+  const result: (number | undefined)[] = [];
+  let ema: number | undefined;
+
+  values.forEach((value, i) => {
+    if (i === period - 1) {
+      ema = values.slice(0, period).reduce((sum, v) => sum + v, 0) / period;
+    } else if (ema !== undefined) {
+      ema = value * k + ema * (1 - k);
+    }
+    result.push(ema);
+  });
+  return result;
+}
+
+function batchRsi(values: number[], period: number): (number | undefined)[] {
+  const result: (number | undefined)[] = [undefined];
+  let avgGain = 0;
+  let avgLoss = 0;
+
+  for (let i = 1; i < values.length; i++) {
+    const gain = Math.max(values[i] - values[i - 1], 0);
+    const loss = Math.max(values[i - 1] - values[i], 0);
+
+    if (i <= period) {
+      avgGain += gain / period;
+      avgLoss += loss / period;
+    } else {
+      avgGain = (avgGain * (period - 1) + gain) / period;
+      avgLoss = (avgLoss * (period - 1) + loss) / period;
+    }
+
+    if (i < period) result.push(undefined);
+    else if (avgLoss === 0) result.push(avgGain === 0 ? 50 : 100);
+    else result.push(100 - 100 / (1 + avgGain / avgLoss));
+  }
+  return result;
+}
+
+function batchMacd(
+  values: number[],
+  fast: number,
+  slow: number,
+  signal: number
+): (MacdValue | undefined)[] {
+  const fastEma = batchEma(values, fast);
+  const slowEma = batchEma(values, slow);
+  const line = values.map((_, i) =>
+    fastEma[i] === undefined || slowEma[i] === undefined ? undefined : fastEma[i]! - slowEma[i]!
+  );
+
+  // The signal line is an EMA over the defined part of the MACD line
+  const offset = slow - 1;
+  const signalEma = batchEma(line.slice(offset) as number[], signal);
+
+  return line.map((macd, i) => {
+    const s = i < offset ? undefined : signalEma[i - offset];
+    return macd === undefined || s === undefined ? undefined : { macd, signal: s, histogram: macd - s };
+  });
+}
+
+function batchBollinger(
+  values: number[],
+  period: number,
+  multiplier: number
+): (BollingerValue | undefined)[] {
+  return values.map((_, i) => {
+    if (i < period - 1) return undefined;
+
+    const window = values.slice(i - period + 1, i + 1);
+    const middle = window.reduce((sum, v) => sum + v, 0) / period;
+    const variance = window.reduce((sum, v) => sum + (v - middle) ** 2, 0) / period;
+    const width = Math.sqrt(variance) * multiplier;
+    return { upper: middle + width, middle, lower: middle - width };
+  });
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// COMPARISON
+// ═══════════════════════════════════════════════════════════════════════════
+
+function expectSame(actual: unknown, expected: unknown): void {
+  if (expected === undefined || typeof expected === "number") {
+    if (expected === undefined) expect(actual).toBeUndefined();
+    else expect(actual).toBeCloseTo(expected, 9);
+    return;
+  }
+
+  expect(actual).toBeDefined();
+  Object.entries(expected as Record<string, number>).forEach(([key, value]) => {
+    expect((actual as Record<string, number>)[key]).toBeCloseTo(value, 9);
+  });
+}
+
+/**
+ * Feed CLOSES candle by candle. Each candle first arrives with a revised
+ * close, which must match the batch over the history ending in it, then
+ * is replaced by its final version.
+ */
+function checkIncremental<V>(
+  indicator: Indicator<V>,
+  batch: (values: number[]) => (V | undefined)[]
+): void {
+  const expected = batch(CLOSES);
+
+  CLOSES.forEach((close, i) => {
+    const forming = close + (i % 2 === 0 ? 2.5 : -1.75);
+    const history = [...CLOSES.slice(0, i), forming];
+    expectSame(indicator.update(bar(i, forming)), batch(history)[i]);
+
+    expectSame(indicator.update(bar(i, close)), expected[i]);
+    expectSame(indicator.getValue(), expected[i]);
+  });
+
+  expect(expected[expected.length - 1]).toBeDefined();
+}
+
+describe("incremental indicators match a batch computation", () => {
+  it("EMA", () => {
+    checkIncremental(new EMA({ period: 10 }), (values) => batchEma(values, 10));
+  });
+
+  it("RSI", () => {
+    checkIncremental(new RSI({ period: 14 }), (values) => batchRsi(values, 14));
+  });
+
+  it("MACD", () => {
+    checkIncremental(new MACD({ fast: 12, slow: 26, signal: 9 }), (values) =>
+      batchMacd(values, 12, 26, 9)
+    );
+  });
+
+  it("Bollinger Bands", () => {
+    checkIncremental(new BollingerBands({ period: 20, multiplier: 2 }), (values) =>
+      batchBollinger(values, 20, 2)
+    );
+  });
+
+  it("reset() over a history equals the batch value for its last candle", () => {
+    const candles = CLOSES.map((close, i) => bar(i, close));
+    const last = CLOSES.length - 1;
+
+    expectSame(new EMA({ period: 10 }).reset(candles), batchEma(CLOSES, 10)[last]);
+    expectSame(new RSI().reset(candles), batchRsi(CLOSES, 14)[last]);
+    expectSame(new MACD().reset(candles), batchMacd(CLOSES, 12, 26, 9)[last]);
+    expectSame(new BollingerBands().reset(candles), batchBollinger(CLOSES, 20, 2)[last]);
+  });
+
+  it("ignores candles older than the forming one", () => {
+    const ema = new EMA({ period: 3 });
+    CLOSES.slice(0, 5).forEach((close, i) => ema.update(bar(i, close)));
+
+    expect(ema.update(bar(2, 1_000))).toBe(batchEma(CLOSES.slice(0, 5), 3)[4]);
+  });
+});
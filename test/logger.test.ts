@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ConsoleLogger } from "../src/logger";
+
+describe("ConsoleLogger", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const spyConsole = () => ({
+    debug: vi.spyOn(console, "debug").mockImplementation(() => {}),
+    info: vi.spyOn(console, "info").mockImplementation(() => {}),
+    warn: vi.spyOn(console, "warn").mockImplementation(() => {}),
+    error: vi.spyOn(console, "error").mockImplementation(() => {}),
+  });
+
+  it("prints at or above its level, with the prefix and fields", () => {
+    const output = spyConsole();
+    const logger = new ConsoleLogger({ level: "warn", prefix: "[feed]" });
+
+    logger.debug("Connecting");
+    logger.info("Connected", { clientId: "1" });
+    logger.warn("Invalid payload", { event: "prices:update" });
+    logger.error("Event handler threw");
+
+    expect(output.debug).not.toHaveBeenCalled();
+    expect(output.info).not.toHaveBeenCalled();
+    expect(output.warn).toHaveBeenCalledWith("[feed] Invalid payload", { event: "prices:update" });
+    expect(output.error).toHaveBeenCalledWith("[feed] Event handler threw");
+  });
+
+  it("defaults to info without a prefix and omits empty fields", () => {
+    const output = spyConsole();
+    const logger = new ConsoleLogger();
+
+    logger.debug("Connecting");
+    logger.info("Connected", {});
+
+    expect(output.debug).not.toHaveBeenCalled();
+    expect(output.info).toHaveBeenCalledWith("Connected");
+  });
+
+  it("prints nothing when silent", () => {
+    const output = spyConsole();
+    const logger = new ConsoleLogger({ level: "silent" });
+
+    logger.error("Event handler threw");
+
+    expect(output.error).not.toHaveBeenCalled();
+  });
+});
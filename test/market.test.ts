@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MarketCache } from "../src/market";
+import { PriceChange } from "../src/types";
+import { price } from "./fixtures";
+import { FeedClient } from "./helpers";
+
+/** HYPE/USDC spot pair on mainnet */
+const hype = (value: number) => price("@107", value, { displayName: "HYPE/USDC", type: "spot" });
+
+describe("MarketCache", () => {
+  let client: FeedClient;
+  let market: MarketCache;
+  let changes: PriceChange[];
+  let batches: PriceChange[][];
+
+  beforeEach(() => {
+    client = new FeedClient();
+    market = new MarketCache(client);
+    changes = [];
+    batches = [];
+    market.on("change", (change) => changes.push(change));
+    market.on("update", (batch) => batches.push(batch));
+  });
+
+  afterEach(() => {
+    market.destroy();
+    vi.restoreAllMocks();
+  });
+
+  it("reports new symbols as added with every field", () => {
+    const returned = market.update([price("BTC", 100), price("ETH", 10)]);
+
+    expect(returned).toEqual(changes);
+    expect(changes.map((c) => [c.symbol, c.added])).toEqual([
+      ["BTC", true],
+      ["ETH", true],
+    ]);
+    expect(changes[0].fields).toEqual(Object.keys(price("BTC", 100)));
+    expect(changes[0].previous).toEqual({});
+    expect(batches).toEqual([changes]);
+  });
+
+  it("reports only the fields that changed, with their previous values", () => {
+    market.update([price("BTC", 100), price("ETH", 10)]);
+    changes = [];
+    batches = [];
+
+    market.update([
+      price("BTC", 101, { fundingRate: 0.0001, lastUpdate: 2 }),
+      price("ETH", 10, { lastUpdate: 2 }),
+    ]);
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({
+      symbol: "BTC",
+      added: false,
+      fields: ["price", "high24h", "low24h", "fundingRate"],
+      previous: { price: 100, high24h: 100, low24h: 100, fundingRate: 0 },
+    });
+    expect(batches).toEqual([changes]);
+    expect(market.get("ETH")?.lastUpdate).toBe(2);
+  });
+
+  it("emits nothing when a batch changes nothing", () => {
+    market.update(price("BTC", 100));
+    changes = [];
+    batches = [];
+
+    expect(market.update(price("BTC", 100, { lastUpdate: 5 }))).toEqual([]);
+    expect(changes).toEqual([]);
+    expect(batches).toEqual([]);
+  });
+
+  it("follows the client's price snapshots and updates", () => {
+    client.receive("prices:snapshot", [price("BTC", 100), hype(30)]);
+    client.receive("price:update", price("BTC", 102));
+
+    expect(market.getPrice("BTC")).toBe(102);
+    expect(market.size).toBe(2);
+    expect(market.getSymbols()).toEqual(["BTC", "@107"]);
+    expect(market.getPerps().map((p) => p.symbol)).toEqual(["BTC"]);
+    expect(market.getSpots().map((p) => p.symbol)).toEqual(["@107"]);
+    expect(changes.map((c) => [c.symbol, c.current.price])).toEqual([
+      ["BTC", 100],
+      ["@107", 30],
+      ["BTC", 102],
+    ]);
+  });
+
+  it("looks assets up by display name through the client's registry", () => {
+    market.update(hype(30));
+
+    expect(market.has("hype/usdc")).toBe(true);
+    expect(market.get("HYPE/USDC")?.symbol).toBe("@107");
+
+    const standalone = new MarketCache();
+    standalone.update(hype(30));
+    expect(standalone.has("@107")).toBe(true);
+    expect(standalone.has("HYPE/USDC")).toBe(false);
+  });
+
+  it("calls watchers of one asset until removed, even when one throws", () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const seen: number[] = [];
+    market.watch("@107", () => {
+      throw new Error("boom");
+    });
+    const unwatch = market.watch("HYPE/USDC", ({ current }) => seen.push(current.price));
+
+    market.update([hype(30), price("BTC", 100)]);
+    market.update(hype(31));
+    unwatch();
+    market.update(hype(32));
+
+    expect(seen).toEqual([30, 31]);
+    expect(error).toHaveBeenCalledTimes(3);
+  });
+
+  it("reports a cleared asset as added when it arrives again", () => {
+    market.update([price("BTC", 100), price("ETH", 10)]);
+
+    market.clear("BTC");
+    expect(market.has("BTC")).toBe(false);
+    market.update(price("BTC", 100));
+    expect(changes.at(-1)).toMatchObject({ symbol: "BTC", added: true });
+
+    market.clear();
+    expect(market.size).toBe(0);
+  });
+
+  it("stops following the client on destroy()", () => {
+    market.destroy();
+
+    client.receive("price:update", price("BTC", 100));
+
+    expect(market.size).toBe(0);
+    expect(changes).toEqual([]);
+  });
+});
@@ -0,0 +1,191 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { formatPrometheus, MetricsCollector } from "../src/metrics";
+import { Logger, MetricsSnapshot } from "../src/types";
+import { price } from "./fixtures";
+import { FeedClient } from "./helpers";
+
+const silent: Logger = { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+
+describe("MetricsCollector", () => {
+  let metrics: MetricsCollector;
+  let client: FeedClient;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: 1_700_000_000_000 });
+    metrics = new MetricsCollector();
+    client = new FeedClient({ metrics, logger: silent });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it("counts server events and the length of their serialization", () => {
+    const prices = [price("BTC", 97000)];
+    client.receive("prices:update", prices);
+    client.receive("prices:update", prices);
+    client.receive("balance:update", { balance: 1 });
+
+    expect(metrics.getSnapshot().messages).toEqual({
+      "prices:update": { count: 2, chars: 2 * JSON.stringify(prices).length },
+      "balance:update": { count: 1, chars: '{"balance":1}'.length },
+    });
+  });
+
+  it("times each emit across its handlers and counts the ones that throw", () => {
+    let now = 0;
+    vi.spyOn(performance, "now").mockImplementation(() => now);
+    client.on("prices", () => (now += 3));
+    client.on("prices", () => {
+      now += 2;
+      throw new Error("boom");
+    });
+
+    client.receive("prices:update", [price("BTC", 97000)]);
+    client.receive("prices:update", [price("BTC", 97001)]);
+
+    expect(metrics.getSnapshot().handlers.prices).toEqual({
+      calls: 2,
+      errors: 2,
+      totalMs: 10,
+      maxMs: 5,
+    });
+  });
+
+  it("times throttled handlers when they are delivered", () => {
+    let now = 0;
+    vi.spyOn(performance, "now").mockImplementation(() => now);
+    const slow = vi.fn(() => (now += 50));
+    client.on("prices", slow, { throttleMs: 100 });
+
+    // The first event of a burst is delivered within emit(), and timed once
+    client.receive("prices:update", [price("BTC", 1)]);
+    expect(metrics.getSnapshot().handlers.prices).toMatchObject({ calls: 1, totalMs: 50 });
+
+    // Held: the emit takes no handler time
+    client.receive("prices:update", [price("BTC", 2)]);
+    expect(metrics.getSnapshot().handlers.prices).toMatchObject({ calls: 2, totalMs: 50 });
+
+    vi.advanceTimersByTime(100);
+    expect(slow).toHaveBeenCalledTimes(2);
+    expect(metrics.getSnapshot().handlers.prices).toEqual({
+      calls: 3,
+      errors: 0,
+      totalMs: 100,
+      maxMs: 50,
+    });
+  });
+
+  it("accumulates time per connection state", () => {
+    metrics.stateChanged("connecting", Date.now());
+    vi.advanceTimersByTime(200);
+    metrics.stateChanged("connected", Date.now());
+    vi.advanceTimersByTime(5000);
+    metrics.reconnecting();
+
+    const snapshot = metrics.getSnapshot();
+    expect(snapshot.state).toBe("connected");
+    expect(snapshot.stateDuration).toBe(5000);
+    expect(snapshot.stateDurations).toMatchObject({ connecting: 200, connected: 5000 });
+    expect(snapshot.reconnects).toBe(1);
+  });
+
+  it("counts subscriptions by kind", () => {
+    client.subscribePrices();
+    client.subscribeOrderBook("BTC");
+    client.subscribeOrderBook("ETH");
+
+    expect(metrics.getSnapshot().subscriptions).toEqual({
+      prices: 1,
+      orderbook: 2,
+      trades: 0,
+      candles: 0,
+    });
+  });
+
+  it("zeroes counters on reset() but keeps the state and subscriptions", () => {
+    client.subscribeTrades("BTC");
+    client.receive("balance:update", { balance: 1 });
+    metrics.stateChanged("connected", Date.now());
+    metrics.reconnecting();
+    vi.advanceTimersByTime(1000);
+
+    metrics.reset();
+
+    const snapshot = metrics.getSnapshot();
+    expect(snapshot.messages).toEqual({});
+    expect(snapshot.handlers).toEqual({});
+    expect(snapshot.reconnects).toBe(0);
+    expect(snapshot.state).toBe("connected");
+    expect(snapshot.stateDuration).toBe(0);
+    expect(snapshot.subscriptions.trades).toBe(1);
+  });
+});
+
+describe("formatPrometheus", () => {
+  const snapshot: MetricsSnapshot = {
+    messages: { "trades:update": { count: 3, chars: 1200 } },
+    handlers: { trades: { calls: 3, errors: 1, totalMs: 4.5, maxMs: 2 } },
+    reconnects: 2,
+    state: "connected",
+    stateDuration: 1500,
+    stateDurations: { disconnected: 0, connecting: 250, connected: 1500, reconnecting: 0, error: 0 },
+    subscriptions: { prices: 1, orderbook: 0, trades: 2, candles: 0 },
+    timestamp: 0,
+  };
+
+  it("renders the text exposition format", () => {
+    expect(formatPrometheus(snapshot, { prefix: "feed", labels: { network: 'main"net' } }))
+      .toBe(`# HELP feed_messages_received_total Server events received
+# TYPE feed_messages_received_total counter
+feed_messages_received_total{network="main\\"net",event="trades:update"} 3
+# HELP feed_received_serialized_chars_total Characters in the JSON serialization of the server events received
+# TYPE feed_received_serialized_chars_total counter
+feed_received_serialized_chars_total{network="main\\"net",event="trades:update"} 1200
+# HELP feed_handler_errors_total Client event handlers that threw
+# TYPE feed_handler_errors_total counter
+feed_handler_errors_total{network="main\\"net",event="trades"} 1
+# HELP feed_handler_duration_seconds Time spent in client event handlers
+# TYPE feed_handler_duration_seconds summary
+feed_handler_duration_seconds_sum{network="main\\"net",event="trades"} 0.0045
+feed_handler_duration_seconds_count{network="main\\"net",event="trades"} 3
+# HELP feed_handler_duration_max_seconds Slowest emit of each client event
+# TYPE feed_handler_duration_max_seconds gauge
+feed_handler_duration_max_seconds{network="main\\"net",event="trades"} 0.002
+# HELP feed_reconnects_total Reconnect attempts
+# TYPE feed_reconnects_total counter
+feed_reconnects_total{network="main\\"net"} 2
+# HELP feed_connection_state 1 for the current connection state
+# TYPE feed_connection_state gauge
+feed_connection_state{network="main\\"net",state="disconnected"} 0
+feed_connection_state{network="main\\"net",state="connecting"} 0
+feed_connection_state{network="main\\"net",state="connected"} 1
+feed_connection_state{network="main\\"net",state="reconnecting"} 0
+feed_connection_state{network="main\\"net",state="error"} 0
+# HELP feed_connection_state_duration_seconds Time in the current connection state
+# TYPE feed_connection_state_duration_seconds gauge
+feed_connection_state_duration_seconds{network="main\\"net",state="connected"} 1.5
+# HELP feed_connection_state_seconds_total Total time spent in each connection state
+# TYPE feed_connection_state_seconds_total counter
+feed_connection_state_seconds_total{network="main\\"net",state="disconnected"} 0
+feed_connection_state_seconds_total{network="main\\"net",state="connecting"} 0.25
+feed_connection_state_seconds_total{network="main\\"net",state="connected"} 1.5
+feed_connection_state_seconds_total{network="main\\"net",state="reconnecting"} 0
+feed_connection_state_seconds_total{network="main\\"net",state="error"} 0
+# HELP feed_subscriptions Active subscriptions by kind
+# TYPE feed_subscriptions gauge
+feed_subscriptions{network="main\\"net",type="prices"} 1
+feed_subscriptions{network="main\\"net",type="orderbook"} 0
+feed_subscriptions{network="main\\"net",type="trades"} 2
+feed_subscriptions{network="main\\"net",type="candles"} 0
+`);
+  });
+
+  it("uses the hyperliquid prefix and no labels by default", () => {
+    const text = formatPrometheus(snapshot);
+
+    expect(text).toContain("hyperliquid_reconnects_total 2\n");
+    expect(text).toContain('hyperliquid_subscriptions{type="trades"} 2\n');
+  });
+});
@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { FeedMonitor } from "../src/monitor";
+import { FeedMonitorEvents, FeedMonitorOptions } from "../src/types";
+import { book, price, trade } from "./fixtures";
+import { FeedClient } from "./helpers";
+
+describe("FeedMonitor", () => {
+  let client: FeedClient;
+  let monitor: FeedMonitor;
+  let events: Array<[keyof FeedMonitorEvents, unknown]>;
+
+  const start = (options?: FeedMonitorOptions) => {
+    monitor = new FeedMonitor(client, { staleAfter: 5000, checkInterval: 1000, ...options });
+    (["stale", "fresh", "recovery"] as const).forEach((event) =>
+      monitor.on(event, (data) => events.push([event, data]))
+    );
+  };
+
+  const pushBook = () =>
+    client.receive("orderbook:update", book("BTC", [[100, 1]], [[101, 1]]));
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: 1_700_000_000_000 });
+    client = new FeedClient();
+    vi.spyOn(client, "isConnected").mockReturnValue(true);
+    client.subscribeOrderBook("BTC");
+    client.subscribeCandles("ETH", "1h");
+    events = [];
+  });
+
+  afterEach(() => {
+    monitor.destroy();
+    vi.useRealTimers();
+  });
+
+  it("marks a silent feed stale and fresh again on its next message", () => {
+    start({ thresholds: { candles: 60_000 } });
+
+    vi.advanceTimersByTime(4000);
+    pushBook();
+    vi.advanceTimersByTime(4000);
+    expect(events).toEqual([]);
+
+    vi.advanceTimersByTime(1000);
+    expect(events).toEqual([["stale", { room: "orderbook:BTC", type: "orderbook", silentFor: 5000 }]]);
+    expect(monitor.getFeeds().find((feed) => feed.room === "orderbook:BTC")).toMatchObject({
+      messages: 1,
+      stale: true,
+    });
+
+    pushBook();
+    expect(events[1]).toEqual(["fresh", { room: "orderbook:BTC", type: "orderbook" }]);
+
+    // The candle threshold is longer
+    vi.advanceTimersByTime(50_000);
+    expect(events.map(([, data]) => (data as { room: string }).room)).not.toContain("candle:ETH:1h");
+    vi.advanceTimersByTime(10_000);
+    expect(events).toContainEqual([
+      "stale",
+      { room: "candle:ETH:1h", type: "candles", silentFor: 60_000 },
+    ]);
+  });
+
+  it("does not check while disconnected", () => {
+    start();
+    vi.mocked(client.isConnected).mockReturnValue(false);
+
+    vi.advanceTimersByTime(20_000);
+
+    expect(events).toEqual([]);
+  });
+
+  it("does not recover by default", () => {
+    const resubscribe = vi.spyOn(client, "resubscribe");
+    start();
+
+    vi.advanceTimersByTime(120_000);
+
+    expect(events.map(([event]) => event)).toEqual(["stale", "stale"]);
+    expect(resubscribe).not.toHaveBeenCalled();
+  });
+
+  it("resubscribes a feed that stays stale, again every recoverAfter", () => {
+    const resubscribe = vi.spyOn(client, "resubscribe").mockImplementation(() => {});
+    start({ recovery: "resubscribe", recoverAfter: 10_000, thresholds: { candles: 3_600_000 } });
+
+    // Feeds are first seen by the check at 1s, and stale from 6s
+    vi.advanceTimersByTime(15_000);
+    expect(resubscribe).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1000);
+    expect(resubscribe).toHaveBeenCalledTimes(1);
+    expect(resubscribe).toHaveBeenCalledWith("orderbook:BTC");
+    expect(events).toContainEqual(["recovery", { room: "orderbook:BTC", action: "resubscribe" }]);
+
+    vi.advanceTimersByTime(10_000);
+    expect(resubscribe).toHaveBeenCalledTimes(2);
+
+    // Data again: no further recovery
+    pushBook();
+    vi.advanceTimersByTime(4000);
+    expect(resubscribe).toHaveBeenCalledTimes(2);
+  });
+
+  it("reconnects once for several stale feeds", () => {
+    const reconnect = vi.spyOn(client, "reconnect").mockResolvedValue();
+    start({ recovery: "reconnect", recoverAfter: 10_000 });
+
+    vi.advanceTimersByTime(16_000);
+
+    expect(reconnect).toHaveBeenCalledTimes(1);
+    expect(events.filter(([event]) => event === "recovery")).toEqual([
+      ["recovery", { room: "orderbook:BTC", action: "reconnect" }],
+      ["recovery", { room: "candle:ETH:1h", action: "reconnect" }],
+    ]);
+  });
+
+  it("syncs subscriptions once per message, however many symbols it names", () => {
+    client.subscribePrices("SOL");
+    start();
+    const getSubscriptions = vi.spyOn(client, "getSubscriptions");
+
+    client.receive(
+      "prices:update",
+      Array.from({ length: 200 }, (_, i) => price(i === 0 ? "SOL" : `COIN${i}`, 1))
+    );
+
+    expect(getSubscriptions.mock.calls.length).toBeLessThanOrEqual(1);
+    expect(monitor.getFeeds().find((feed) => feed.room === "price:SOL")?.messages).toBe(1);
+  });
+
+  it("measures latency from update timestamps", () => {
+    start();
+    const now = Date.now();
+
+    client.receive("trades:update", { asset: "BTC", trades: [trade("1", "BTC", 1, 1, now - 40)] }, now);
+    client.receive("trades:update", { asset: "BTC", trades: [trade("2", "BTC", 1, 1, now - 20)] }, now);
+    // Snapshots carry historical data
+    client.receive("trades:snapshot", { asset: "BTC", trades: [trade("0", "BTC", 1, 1, now - 9999)] }, now);
+
+    expect(monitor.getLatency("trades")).toEqual({ count: 2, mean: 30, p50: 40, p99: 40, max: 40 });
+  });
+});
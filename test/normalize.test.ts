@@ -0,0 +1,307 @@
+import { describe, expect, it } from "vitest";
+import { AssetRegistry } from "../src/assets";
+import {
+  HlActiveAssetCtx,
+  HlAllMids,
+  HlCandle,
+  HlL2Book,
+  HlMetaAndAssetCtxs,
+  HlSpotMetaAndAssetCtxs,
+  HlTrade,
+  HlUserFills,
+  HlUserFundings,
+  HlWebData2,
+  normalizeAssetContext,
+  normalizeBalance,
+  normalizeBook,
+  normalizeCandle,
+  normalizeFill,
+  normalizeFunding,
+  normalizeMids,
+  normalizeOpenOrder,
+  normalizePerpContexts,
+  normalizePositions,
+  normalizeSpotContexts,
+  normalizeTrades,
+} from "../src/normalize";
+import activeAssetCtxMessage from "./fixtures/hyperliquid/activeAssetCtx.json";
+import activeSpotAssetCtxMessage from "./fixtures/hyperliquid/activeSpotAssetCtx.json";
+import allMidsMessage from "./fixtures/hyperliquid/allMids.json";
+import candleMessage from "./fixtures/hyperliquid/candle.json";
+import l2BookMessage from "./fixtures/hyperliquid/l2Book.json";
+import metaAndAssetCtxs from "./fixtures/hyperliquid/metaAndAssetCtxs.json";
+import spotMetaAndAssetCtxs from "./fixtures/hyperliquid/spotMetaAndAssetCtxs.json";
+import tradesMessage from "./fixtures/hyperliquid/trades.json";
+import userFillsMessage from "./fixtures/hyperliquid/userFills.json";
+import userFundingsMessage from "./fixtures/hyperliquid/userFundings.json";
+import webData2Message from "./fixtures/hyperliquid/webData2.json";
+
+// Fixtures are payloads in Hyperliquid's wire format: WebSocket messages
+// ({ channel, data }) and info responses, numbers as decimal strings
+
+const assets = new AssetRegistry("mainnet");
+const NOW = 1737123456999;
+
+describe("market data", () => {
+  it("normalizeMids", () => {
+    const prices = normalizeMids(allMidsMessage.data as HlAllMids, assets, NOW);
+
+    expect(prices.map((p) => [p.symbol, p.displayName, p.type, p.price])).toEqual([
+      ["BTC", "BTC", "perp", 97012.5],
+      ["ETH", "ETH", "perp", 3521.85],
+      ["SOL", "SOL", "perp", 187.255],
+      ["@107", "HYPE/USDC", "spot", 24.118],
+      ["PURR/USDC", "PURR/USDC", "spot", 0.21053],
+    ]);
+    expect(prices[0]).toMatchObject({
+      volume24h: 0,
+      change24h: 0,
+      fundingRate: 0,
+      openInterest: 0,
+      lastUpdate: NOW,
+    });
+  });
+
+  it("normalizeAssetContext: perp", () => {
+    const { coin, ctx } = activeAssetCtxMessage.data as HlActiveAssetCtx;
+    const price = normalizeAssetContext(coin, ctx, assets, NOW);
+
+    expect(price).toMatchObject({
+      symbol: "ETH",
+      displayName: "ETH",
+      type: "perp",
+      price: 3521.85,
+      oraclePrice: 3519.9,
+      volume24h: 1234567890.12,
+      high24h: 0,
+      low24h: 0,
+      fundingRate: 0.0000125,
+      maxLeverage: 25,
+      lastUpdate: NOW,
+    });
+    expect(price.change24h).toBeCloseTo(121.85, 8);
+    expect(price.changePercent24h).toBeCloseTo((121.85 / 3400) * 100, 8);
+    // Contracts at the mark price
+    expect(price.openInterest).toBeCloseTo(412345.6789 * 3520.4, 4);
+  });
+
+  it("normalizeAssetContext: spot without a mid", () => {
+    const { coin, ctx } = activeSpotAssetCtxMessage.data as HlActiveAssetCtx;
+    const price = normalizeAssetContext(coin, ctx, assets, NOW);
+
+    expect(price).toMatchObject({
+      symbol: "@107",
+      displayName: "HYPE/USDC",
+      type: "spot",
+      price: 24.11,
+      fundingRate: 0,
+      openInterest: 0,
+    });
+    expect(price.change24h).toBeCloseTo(-0.89, 8);
+    expect(price).not.toHaveProperty("oraclePrice");
+  });
+
+  it("normalizePerpContexts", () => {
+    const prices = normalizePerpContexts(
+      metaAndAssetCtxs as unknown as HlMetaAndAssetCtxs,
+      assets,
+      NOW
+    );
+
+    expect(prices.map((p) => [p.symbol, p.price, p.fundingRate])).toEqual([
+      ["BTC", 97012.5, 0.0000125],
+      // No mid: falls back to the mark price
+      ["ETH", 3520.4, -0.000005],
+    ]);
+    expect(prices[1].changePercent24h).toBeCloseTo(((3520.4 - 3600) / 3600) * 100, 8);
+  });
+
+  it("normalizeSpotContexts", () => {
+    const prices = normalizeSpotContexts(
+      spotMetaAndAssetCtxs as unknown as HlSpotMetaAndAssetCtxs,
+      assets,
+      NOW
+    );
+
+    // The context without a coin is skipped
+    expect(prices.map((p) => [p.symbol, p.displayName, p.type, p.price])).toEqual([
+      ["PURR/USDC", "PURR/USDC", "spot", 0.21053],
+      ["@107", "HYPE/USDC", "spot", 24.118],
+    ]);
+  });
+
+  it("normalizeBook", () => {
+    const book = normalizeBook(l2BookMessage.data as HlL2Book, assets);
+
+    expect(book).toMatchObject({
+      asset: "BTC",
+      displayName: "BTC",
+      type: "perp",
+      bestBid: 97010,
+      bestAsk: 97015,
+      midPrice: 97012.5,
+      spread: 5,
+      lastUpdate: 1737123456789,
+    });
+    expect(book.spreadPercent).toBeCloseTo((5 / 97012.5) * 100, 10);
+    expect(book.bids.map((level) => [level.price, level.size, level.orders])).toEqual([
+      [97010, 1.25, 4],
+      [97009, 0.5, 1],
+      [97005, 3.00021, 7],
+    ]);
+    expect(book.asks).toHaveLength(2);
+    expect(book.asks[1].total).toBeCloseTo(97020 * 2.1, 8);
+  });
+
+  it("normalizeBook: one-sided book", () => {
+    const data = l2BookMessage.data as HlL2Book;
+    const book = normalizeBook({ ...data, levels: [data.levels[0], []] }, assets);
+
+    expect(book.asks).toEqual([]);
+    expect(book.bestAsk).toBe(0);
+    expect(book.midPrice).toBe(97010);
+    expect(book.spread).toBe(0);
+    expect(book.spreadPercent).toBe(0);
+  });
+
+  it("normalizeTrades", () => {
+    const trades = normalizeTrades(tradesMessage.data as HlTrade[], assets);
+
+    expect(trades[0]).toEqual({
+      id: "1023456789012345",
+      asset: "SOL",
+      displayName: "SOL",
+      type: "perp",
+      price: 187.25,
+      size: 12.4,
+      side: "buy",
+      value: 187.25 * 12.4,
+      timestamp: 1737123456001,
+      hash: "0x5f1c0a8e7b3d4c2a9e6f1b0d8c7a6e5f4d3c2b1a0f9e8d7c6b5a4f3e2d1c0b9a",
+      // Buyer aggressed
+      user: "0x1111111111111111111111111111111111111111",
+    });
+    expect(trades[1]).toMatchObject({
+      side: "sell",
+      // Seller aggressed
+      user: "0x4444444444444444444444444444444444444444",
+    });
+  });
+
+  it("normalizeCandle", () => {
+    expect(normalizeCandle(candleMessage.data as HlCandle)).toEqual({
+      time: 1737122400000,
+      open: 3510.1,
+      high: 3530,
+      low: 3501.25,
+      close: 3521.9,
+      volume: 10234.5678,
+      coin: "ETH",
+      interval: "1h",
+    });
+  });
+});
+
+describe("user data", () => {
+  const webData = webData2Message.data as unknown as HlWebData2;
+
+  it("normalizePositions", () => {
+    const positions = normalizePositions(webData.clearinghouseState, assets, NOW);
+
+    // The flat SOL position is dropped
+    expect(positions.map((p) => p.asset)).toEqual(["BTC", "ETH"]);
+    expect(positions[0]).toEqual({
+      asset: "BTC",
+      displayName: "BTC",
+      side: "long",
+      size: 0.2,
+      entryPrice: 95000,
+      markPrice: 97010,
+      pnl: 402,
+      pnlPercent: expect.closeTo(42.315789, 6),
+      leverage: 20,
+      liqPrice: 68123.4,
+      timestamp: 1737123456789,
+    });
+    expect(positions[1]).toMatchObject({
+      side: "short",
+      size: 0.5,
+      markPrice: 3520.4,
+      leverage: 5,
+    });
+    expect(positions[1]).not.toHaveProperty("liqPrice");
+  });
+
+  it("normalizePositions: state without a timestamp", () => {
+    const { time: _time, ...state } = webData.clearinghouseState;
+    expect(normalizePositions(state, assets, NOW)[0].timestamp).toBe(NOW);
+  });
+
+  it("normalizeBalance", () => {
+    expect(normalizeBalance(webData.clearinghouseState)).toBe(15234.567891);
+  });
+
+  it("normalizeOpenOrder", () => {
+    const orders = webData.openOrders.map((order) => normalizeOpenOrder(order, assets));
+
+    expect(orders[0]).toEqual({
+      id: "55123456789",
+      asset: "BTC",
+      displayName: "BTC",
+      side: "buy",
+      type: "limit",
+      price: 90000,
+      amount: 0.1,
+      filled: 0.05,
+      remaining: 0.05,
+      timestamp: 1737120000000,
+    });
+    expect(orders.map((order) => [order.side, order.type])).toEqual([
+      ["buy", "limit"],
+      ["sell", "stop"],
+      ["sell", "stop_limit"],
+      // No orderType on orders placed through the API
+      ["buy", "limit"],
+    ]);
+    expect(orders[3].displayName).toBe("HYPE/USDC");
+  });
+
+  it("normalizeFill", () => {
+    const { fills } = userFillsMessage.data as HlUserFills;
+    const history = fills.map((fill) => normalizeFill(fill, assets));
+
+    expect(history[0]).toEqual({
+      id: "55000000001",
+      asset: "BTC",
+      displayName: "BTC",
+      side: "buy",
+      type: "limit",
+      price: 95000,
+      amount: 0.2,
+      filled: 0.2,
+      status: "filled",
+      timestamp: 1737100000000,
+      txHash: "0xa1b2c3d4e5f60718293a4b5c6d7e8f90a1b2c3d4e5f60718293a4b5c6d7e8f90",
+      fee: 8.55,
+      direction: "open_long",
+    });
+    expect(history[1]).toMatchObject({ direction: "close_short", closedPnl: 149.5, fee: -0.1035 });
+    expect(history[2]).toMatchObject({
+      status: "liquidated",
+      direction: "liquidation",
+      closedPnl: -600,
+    });
+    expect(history[3]).toMatchObject({ displayName: "HYPE/USDC", side: "sell", direction: "sell" });
+    expect(history[3]).not.toHaveProperty("closedPnl");
+  });
+
+  it("normalizeFunding", () => {
+    const { fundings } = userFundingsMessage.data as HlUserFundings;
+
+    // Extra wire fields such as nSamples are dropped
+    expect(fundings.map(normalizeFunding)).toEqual([
+      { time: 1737100800000, coin: "BTC", usdc: "-2.425", szi: "0.2", fundingRate: "0.0000125" },
+      { time: 1737104400000, coin: "ETH", usdc: "0.044", szi: "-0.5", fundingRate: "0.000025" },
+    ]);
+  });
+});
@@ -0,0 +1,225 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { OrderBookStore } from "../src/orderbook";
+import { book } from "./fixtures";
+
+describe("OrderBookStore", () => {
+  let books: OrderBookStore;
+
+  beforeEach(() => {
+    books = new OrderBookStore();
+    // Mid 100.5
+    books.update(
+      book(
+        "BTC",
+        [[100, 1], [99, 2], [98, 3]],
+        [[101, 1], [102, 2], [103, 3]]
+      )
+    );
+  });
+
+  it("answers undefined for assets without a book", () => {
+    expect(books.getDepth("ETH", 10)).toBeUndefined();
+    expect(books.estimateFill("ETH", "buy", 1)).toBeUndefined();
+    expect(books.getImbalance("ETH")).toBeUndefined();
+    expect(books.groupLevels("ETH", 1)).toBeUndefined();
+  });
+
+  describe("getDepth", () => {
+    it("sums the levels within the distance from mid", () => {
+      expect(books.getDepth("BTC", 100)).toEqual({
+        asset: "BTC",
+        bps: 100,
+        bidSize: 1,
+        askSize: 1,
+        bidNotional: 100,
+        askNotional: 101,
+      });
+    });
+
+    it("includes every level inside a wide band", () => {
+      expect(books.getDepth("BTC", 300)).toMatchObject({
+        bidSize: 6,
+        askSize: 6,
+        bidNotional: 100 + 198 + 294,
+        askNotional: 101 + 204 + 309,
+      });
+    });
+
+    it("reports an empty side as zero", () => {
+      books.update(book("SOL", [[150, 2]], []));
+
+      expect(books.getDepth("SOL", 50)).toMatchObject({
+        bidSize: 2,
+        askSize: 0,
+        bidNotional: 300,
+        askNotional: 0,
+      });
+    });
+  });
+
+  describe("estimateFill", () => {
+    it("walks the asks for a buy", () => {
+      const fill = books.estimateFill("BTC", "buy", 2)!;
+
+      expect(fill).toMatchObject({
+        side: "buy",
+        size: 2,
+        filledSize: 2,
+        complete: true,
+        averagePrice: 101.5,
+        worstPrice: 102,
+        notional: 203,
+        slippage: 1,
+      });
+      expect(fill.slippageBps).toBeCloseTo((1 / 100.5) * 10_000, 8);
+      expect(books.getVwap("BTC", "buy", 2)).toBe(101.5);
+    });
+
+    it("walks the bids for a sell, partially taking the last level", () => {
+      const fill = books.estimateFill("BTC", "sell", 3.5)!;
+
+      expect(fill).toMatchObject({ filledSize: 3.5, complete: true, worstPrice: 98, notional: 347 });
+      expect(fill.averagePrice).toBeCloseTo(347 / 3.5, 10);
+    });
+
+    it("reports a partial fill when the book is too thin", () => {
+      const fill = books.estimateFill("BTC", "buy", 10)!;
+
+      expect(fill).toMatchObject({
+        size: 10,
+        filledSize: 6,
+        complete: false,
+        worstPrice: 103,
+        notional: 614,
+      });
+      expect(fill.averagePrice).toBeCloseTo(614 / 6, 10);
+    });
+
+    it("fills nothing against an empty side", () => {
+      books.update(book("SOL", [[150, 2]], []));
+
+      expect(books.estimateFill("SOL", "buy", 1)).toEqual({
+        asset: "SOL",
+        side: "buy",
+        size: 1,
+        filledSize: 0,
+        complete: false,
+        averagePrice: 0,
+        worstPrice: 0,
+        notional: 0,
+        slippage: 0,
+        slippageBps: 0,
+      });
+      expect(books.estimateFill("SOL", "sell", 1)).toMatchObject({
+        complete: true,
+        averagePrice: 150,
+        slippage: 0,
+      });
+    });
+  });
+
+  describe("getImbalance", () => {
+    beforeEach(() => {
+      books.update(book("ETH", [[100, 3]], [[101, 1], [102, 1]]));
+    });
+
+    it("compares bid and ask size", () => {
+      expect(books.getImbalance("ETH")).toBeCloseTo(0.2, 10);
+      expect(books.getImbalance("BTC")).toBe(0);
+    });
+
+    it("limits the levels per side", () => {
+      expect(books.getImbalance("ETH", 1)).toBeCloseTo(0.5, 10);
+    });
+
+    it("is 1 or -1 with one side empty and 0 for an empty book", () => {
+      books.update(book("SOL", [[150, 2]], []));
+      books.update(book("DOGE", [], [[0.2, 100]]));
+      books.update(book("EMPTY", [], []));
+
+      expect(books.getImbalance("SOL")).toBe(1);
+      expect(books.getImbalance("DOGE")).toBe(-1);
+      expect(books.getImbalance("EMPTY")).toBe(0);
+    });
+  });
+
+  describe("groupLevels", () => {
+    const levels = (grouped: ReturnType<OrderBookStore["groupLevels"]>, side: "bids" | "asks") =>
+      grouped![side].map((level) => [level.price, level.size, level.orders]);
+
+    it("rounds bids down and asks up to the tick", () => {
+      books.update(
+        book(
+          "BTC",
+          [[97012.5, 1], [97009, 2], [97001, 1], [97000, 0.5], [96999, 4]],
+          [[97013, 1], [97020, 2], [97021, 1]]
+        )
+      );
+
+      const grouped = books.groupLevels("BTC", 10)!;
+
+      expect(grouped.tickSize).toBe(10);
+      expect(levels(grouped, "bids")).toEqual([
+        [97010, 1, 1],
+        // Prices on a boundary keep their bucket
+        [97000, 3.5, 3],
+        [96990, 4, 1],
+      ]);
+      expect(levels(grouped, "asks")).toEqual([
+        [97020, 3, 2],
+        [97030, 1, 1],
+      ]);
+      expect(grouped.bids[1].total).toBeCloseTo(97009 * 2 + 97001 + 97000 * 0.5, 6);
+    });
+
+    it("groups by fractional ticks", () => {
+      books.update(book("SOL", [[187.26, 1], [187.24, 2]], [[187.27, 1], [187.31, 1]]));
+
+      expect(levels(books.groupLevels("SOL", 0.05), "bids")).toEqual([
+        [187.25, 1, 1],
+        [187.2, 2, 1],
+      ]);
+      expect(levels(books.groupLevels("SOL", 0.05), "asks")).toEqual([
+        [187.3, 1, 1],
+        [187.35, 1, 1],
+      ]);
+      expect(levels(books.groupLevels("SOL", 0.5), "bids")).toEqual([[187, 3, 2]]);
+    });
+
+    it("groups by ticks that print in exponent form", () => {
+      books.update(
+        book(
+          "PEPE",
+          [[0.00001234, 10], [0.00001231, 5], [0.00001229, 1]],
+          [[0.00001235, 7], [0.00001241, 3]]
+        )
+      );
+
+      const grouped = books.groupLevels("PEPE", 1e-7)!;
+
+      expect(levels(grouped, "bids")).toEqual([
+        [0.0000123, 15, 2],
+        [0.0000122, 1, 1],
+      ]);
+      expect(levels(grouped, "asks")).toEqual([
+        [0.0000124, 7, 1],
+        [0.0000125, 3, 1],
+      ]);
+      expect(levels(books.groupLevels("PEPE", 2.5e-8), "bids")).toEqual([
+        [0.000012325, 10, 1],
+        [0.0000123, 5, 1],
+        [0.000012275, 1, 1],
+      ]);
+    });
+
+    it("keeps an empty side empty", () => {
+      books.update(book("SOL", [[150, 2]], []));
+      expect(books.groupLevels("SOL", 1)!.asks).toEqual([]);
+    });
+
+    it("rejects ticks that are not positive", () => {
+      expect(() => books.groupLevels("BTC", 0)).toThrow("tickSize must be greater than 0");
+      expect(() => books.groupLevels("BTC", -1)).toThrow("tickSize must be greater than 0");
+    });
+  });
+});
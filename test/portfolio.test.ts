@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { HyperliquidClient } from "../src/client";
+import { PortfolioState } from "../src/portfolio";
+import { MockNyliumServer } from "../src/testing";
+import { position, WALLET } from "./fixtures";
+import { eventually, nextEvent } from "./helpers";
+
+const VAULT = "0xabcdefabcdefabcdefabcdefabcdefabcdefabcd";
+
+describe("PortfolioState", () => {
+  let server: MockNyliumServer;
+  let client: HyperliquidClient;
+  let portfolio: PortfolioState;
+
+  beforeEach(async () => {
+    server = new MockNyliumServer();
+    await server.start();
+    client = new HyperliquidClient({ url: server.url });
+    await client.connect();
+    portfolio = new PortfolioState(client);
+
+    await client.authenticate(WALLET);
+    await client.authenticate(VAULT);
+
+    server.emitToWallet(WALLET, "position:snapshot", [
+      position("BTC", "long", 0.2, 95000, 97000),
+      position("ETH", "short", 2, 3600, 3500),
+    ]);
+    server.emitToWallet(VAULT, "position:snapshot", [position("BTC", "short", 0.1, 98000, 97000)]);
+    server.emitToWallet(WALLET, "balance:update", { balance: 10000 });
+    server.emitToWallet(VAULT, "balance:update", { balance: 5000 });
+    await eventually(() => expect(portfolio.getTotals().balance).toBe(15000));
+  });
+
+  afterEach(async () => {
+    portfolio.destroy();
+    client.disconnect();
+    await server.stop();
+  });
+
+  it("aggregates positions and balances across wallets", () => {
+    expect(portfolio.getWallets()).toEqual([WALLET, VAULT]);
+    expect(portfolio.getPositions().map((p) => [p.wallet, p.asset, p.side])).toEqual([
+      [WALLET, "BTC", "long"],
+      [WALLET, "ETH", "short"],
+      [VAULT, "BTC", "short"],
+    ]);
+    expect(portfolio.getBalances()).toEqual({ [WALLET]: 10000, [VAULT]: 5000 });
+
+    const totals = portfolio.getTotals();
+    expect(totals.unrealizedPnl).toBeCloseTo(400 + 200 + 100, 8);
+    expect(totals.notional).toBeCloseTo(19400 + 7000 + 9700, 8);
+    expect(totals.netNotional).toBeCloseTo(19400 - 7000 - 9700, 8);
+    expect(totals.effectiveLeverage).toBeCloseTo(36100 / 15000, 8);
+  });
+
+  it("nets exposure per asset", () => {
+    const exposure = portfolio.getExposure();
+
+    expect(exposure).toHaveLength(2);
+    expect(exposure[0]).toMatchObject({ asset: "BTC", wallets: [WALLET, VAULT] });
+    expect(exposure[0].netSize).toBeCloseTo(0.1, 10);
+    expect(exposure[0].notional).toBeCloseTo(0.3 * 97000, 8);
+    expect(exposure[0].netNotional).toBeCloseTo(0.1 * 97000, 8);
+    expect(exposure[0].unrealizedPnl).toBeCloseTo(500, 8);
+    expect(exposure[1]).toMatchObject({ asset: "ETH", netSize: -2, netNotional: -7000 });
+  });
+
+  it("reports which wallet changed", async () => {
+    const changed = nextEvent(portfolio, "portfolioChanged");
+    server.emitToWallet(VAULT, "balance:update", { balance: 6000 });
+
+    expect(await changed).toMatchObject({
+      wallet: VAULT,
+      reason: "balance",
+      portfolio: { totals: { balance: 16000 } },
+    });
+  });
+
+  it("drops a wallet on unauthenticate", () => {
+    client.unauthenticate(VAULT);
+
+    expect(portfolio.getWallets()).toEqual([WALLET]);
+    expect(portfolio.getExposure().find((e) => e.asset === "BTC")?.netSize).toBe(0.2);
+    expect(portfolio.getTotals().balance).toBe(10000);
+  });
+
+  it("drops every wallet when the client disconnects", () => {
+    client.disconnect();
+
+    expect(portfolio.getWallets()).toEqual([]);
+    expect(portfolio.getPositions()).toEqual([]);
+    expect(portfolio.getExposure()).toEqual([]);
+    expect(portfolio.getTotals()).toMatchObject({ balance: 0, unrealizedPnl: 0, notional: 0 });
+  });
+
+  it("keeps wallets across reconnect()", async () => {
+    await client.reconnect();
+
+    expect(portfolio.getWallets()).toEqual([WALLET, VAULT]);
+    expect(portfolio.getTotals().balance).toBe(15000);
+  });
+});
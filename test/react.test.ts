@@ -0,0 +1,151 @@
+// @vitest-environment jsdom
+import { cleanup, render, renderHook, waitFor } from "@testing-library/react";
+import { Component, createElement, ReactNode } from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { HyperliquidClient } from "../src/client";
+import { HyperliquidProvider, useCandles, useOrderBook, useTrades } from "../src/react";
+import { MockNyliumServer } from "../src/testing";
+import { OrderBook } from "../src/types";
+import { book, candle } from "./fixtures";
+import { eventually, sleep } from "./helpers";
+
+/** Renders the message of the error thrown below it */
+class Boundary extends Component<{ children?: ReactNode }, { error: string | null }> {
+  state = { error: null };
+
+  static getDerivedStateFromError(error: Error) {
+    return { error: error.message };
+  }
+
+  render() {
+    return this.state.error ?? this.props.children;
+  }
+}
+
+describe("react hooks", () => {
+  let server: MockNyliumServer;
+  let client: HyperliquidClient;
+
+  const wrapper = ({ children }: { children: ReactNode }) =>
+    createElement(HyperliquidProvider, { client }, children);
+
+  const subscribes = () =>
+    server.getReceived("subscribe:orderbook").filter((m) => m.payload.asset === "BTC");
+  const unsubscribes = (room: string) =>
+    server.getReceived("unsubscribe").filter((m) => m.payload.room === room);
+
+  beforeEach(async () => {
+    server = new MockNyliumServer();
+    await server.start();
+    client = new HyperliquidClient({ url: server.url });
+    await client.connect();
+  });
+
+  afterEach(async () => {
+    cleanup();
+    vi.restoreAllMocks();
+    client.disconnect();
+    await server.stop();
+  });
+
+  it("shares one subscription between two components and releases it on unmount", async () => {
+    const seen: Record<string, OrderBook | undefined> = {};
+    const Book = ({ name }: { name: string }) => {
+      seen[name] = useOrderBook("BTC");
+      return null;
+    };
+    const tree = (...names: string[]) =>
+      createElement(
+        HyperliquidProvider,
+        { client },
+        names.map((name) => createElement(Book, { key: name, name }))
+      );
+
+    const { rerender, unmount } = render(tree("first", "second"));
+    await eventually(() => expect(server.getRooms()).toContain("orderbook:BTC"));
+    expect(subscribes()).toHaveLength(1);
+
+    server.emitToRoom("orderbook:BTC", "orderbook:update", book("BTC", [[100, 1]], [[101, 1]]));
+    await waitFor(() => {
+      expect(seen.first?.bestBid).toBe(100);
+      expect(seen.second?.bestBid).toBe(100);
+    });
+
+    // One component unmounts; the other keeps the room
+    rerender(tree("second"));
+    await sleep(50);
+    expect(unsubscribes("orderbook:BTC")).toHaveLength(0);
+
+    unmount();
+    await server.waitFor("unsubscribe", (m) => m.payload.room === "orderbook:BTC");
+    expect(client.getSubscriptions()).toEqual([]);
+  });
+
+  it("counts hooks under separate providers sharing the client", async () => {
+    const first = renderHook(() => useOrderBook("BTC"), { wrapper });
+    const second = renderHook(() => useOrderBook("BTC"), { wrapper });
+    await eventually(() => expect(server.getRooms()).toContain("orderbook:BTC"));
+
+    first.unmount();
+    await sleep(50);
+    expect(unsubscribes("orderbook:BTC")).toHaveLength(0);
+
+    second.unmount();
+    await server.waitFor("unsubscribe", (m) => m.payload.room === "orderbook:BTC");
+    expect(subscribes()).toHaveLength(1);
+  });
+
+  it("keeps a room subscribed directly after the hook unmounts", async () => {
+    client.subscribeTrades("BTC");
+    const { unmount } = renderHook(() => useTrades("BTC"), { wrapper });
+    await eventually(() => expect(server.getRooms()).toContain("trades:BTC"));
+
+    unmount();
+    await sleep(50);
+
+    expect(unsubscribes("trades:BTC")).toHaveLength(0);
+    expect(client.getSubscriptions().map((s) => s.room)).toEqual(["trades:BTC"]);
+  });
+
+  it("starts a feed again after its first start failed", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const Book = () => {
+      useOrderBook("NOT_AN_ASSET");
+      return null;
+    };
+    // A new boundary key retries under the same provider, and so the same feeds
+    const tree = (attempt: number) =>
+      createElement(
+        HyperliquidProvider,
+        { client },
+        createElement(Boundary, { key: attempt }, createElement(Book))
+      );
+
+    const { container, rerender } = render(tree(1));
+    expect(container.textContent).toMatch(/Unknown asset/);
+
+    // No half-started feed was left behind for the retry to join
+    rerender(tree(2));
+    expect(container.textContent).toMatch(/Unknown asset/);
+  });
+
+  it("drops candles without coin/interval while several candle feeds are active", async () => {
+    const btc = renderHook(() => useCandles("BTC", "1m"), { wrapper });
+    await eventually(() => expect(server.getRooms()).toContain("candle:BTC:1m"));
+
+    server.emitToRoom("candle:BTC:1m", "candle:update", candle(60_000, 1, 1, 1, 1));
+    await waitFor(() => expect(btc.result.current.map((c) => c.close)).toEqual([1]));
+
+    const eth = renderHook(() => useCandles("ETH", "1m"), { wrapper });
+    await eventually(() => expect(server.getRooms()).toContain("candle:ETH:1m"));
+
+    server.emitToRoom("candle:BTC:1m", "candle:update", candle(120_000, 2, 2, 2, 2));
+    server.emitToRoom("candle:BTC:1m", "candle:update", {
+      ...candle(120_000, 3, 3, 3, 3),
+      coin: "BTC",
+      interval: "1m",
+    });
+    await waitFor(() => expect(btc.result.current.map((c) => c.close)).toEqual([1, 3]));
+    expect(eth.result.current).toEqual([]);
+  });
+});
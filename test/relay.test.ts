@@ -0,0 +1,156 @@
+import { io, Socket } from "socket.io-client";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { HyperliquidClient } from "../src/client";
+import { NyliumRelay } from "../src/relay";
+import { MockNyliumServer } from "../src/testing";
+import { PriceData } from "../src/types";
+import { book, price } from "./fixtures";
+import { eventually, nextEvent, sleep } from "./helpers";
+
+describe("NyliumRelay", () => {
+  let server: MockNyliumServer;
+  let relay: NyliumRelay;
+  let alice: HyperliquidClient;
+  let bob: HyperliquidClient;
+  let raw: Socket | null;
+
+  const upstream = (event: string, asset: string) =>
+    server.getReceived(event).filter((m) => m.payload?.asset === asset);
+  const upstreamUnsubscribes = (room: string) =>
+    server.getReceived("unsubscribe").filter((m) => m.payload.room === room);
+
+  /** Plain socket.io client, for payloads the SDK would never send */
+  const connectRaw = async () => {
+    raw = io(relay.url, { transports: ["websocket"] });
+    await new Promise((resolve) => raw!.once("connected", resolve));
+    return raw;
+  };
+
+  beforeEach(async () => {
+    server = new MockNyliumServer();
+    await server.start();
+    relay = new NyliumRelay({ clientOptions: { url: server.url } });
+    await relay.start();
+
+    alice = new HyperliquidClient({ url: relay.url });
+    bob = new HyperliquidClient({ url: relay.url });
+    await Promise.all([alice.connect(), bob.connect()]);
+    raw = null;
+  });
+
+  afterEach(async () => {
+    raw?.disconnect();
+    alice.disconnect();
+    bob.disconnect();
+    await relay.stop();
+    await server.stop();
+  });
+
+  it("shares one upstream subscription between downstream clients", async () => {
+    alice.subscribeOrderBook("BTC");
+    bob.subscribeOrderBook("BTC");
+    await eventually(() => expect(relay.getRooms()).toEqual([
+      { room: "orderbook:BTC", clients: 2, cached: false },
+    ]));
+    await eventually(() => expect(server.getRooms()).toContain("orderbook:BTC"));
+    expect(upstream("subscribe:orderbook", "BTC")).toHaveLength(1);
+
+    const toAlice = nextEvent(alice, "orderbook");
+    const toBob = nextEvent(bob, "orderbook");
+    server.emitToRoom("orderbook:BTC", "orderbook:update", book("BTC", [[100, 1]], [[101, 1]]));
+
+    expect((await toAlice).bestBid).toBe(100);
+    expect((await toBob).bestBid).toBe(100);
+  });
+
+  it("sends the cached state to late joiners", async () => {
+    alice.subscribeOrderBook("BTC");
+    await eventually(() => expect(server.getRooms()).toContain("orderbook:BTC"));
+    const received = nextEvent(alice, "orderbook");
+    server.emitToRoom("orderbook:BTC", "orderbook:update", book("BTC", [[100, 1]], [[101, 1]]));
+    await received;
+
+    const snapshot = nextEvent(bob, "orderbook");
+    bob.subscribeOrderBook("BTC");
+
+    expect((await snapshot).bestAsk).toBe(101);
+    expect(upstream("subscribe:orderbook", "BTC")).toHaveLength(1);
+  });
+
+  it("releases the upstream subscription when the last client leaves", async () => {
+    alice.subscribeTrades("ETH");
+    bob.subscribeTrades("ETH");
+    await eventually(() => expect(relay.getRooms()[0]?.clients).toBe(2));
+
+    alice.unsubscribe("trades:ETH");
+    await eventually(() => expect(relay.getRooms()[0]?.clients).toBe(1));
+    await sleep(50);
+    expect(upstreamUnsubscribes("trades:ETH")).toHaveLength(0);
+
+    // Disconnecting counts as leaving
+    bob.disconnect();
+    await server.waitFor("unsubscribe", (m) => m.payload.room === "trades:ETH");
+    expect(relay.getRooms()).toEqual([]);
+  });
+
+  it("keeps the all-prices snapshot whole when a snapshot covers a few assets", async () => {
+    server.setPrices([price("BTC", 97000), price("ETH", 3500), price("SOL", 187)]);
+    const first = nextEvent(alice, "prices");
+    alice.subscribePrices();
+    expect(await first).toHaveLength(3);
+
+    // What a server answering get:prices with an event sends
+    server.emitToRoom("prices:all", "prices:snapshot", [price("ETH", 3600)]);
+    await nextEvent(alice, "prices");
+
+    const snapshot = nextEvent(bob, "prices");
+    bob.subscribePrices();
+    const prices = await snapshot;
+
+    expect(prices.map((p: PriceData) => [p.symbol, p.price])).toEqual([
+      ["BTC", 97000],
+      ["ETH", 3600],
+      ["SOL", 187],
+    ]);
+  });
+
+  it("keys rooms by the server symbol of the asset", async () => {
+    const socket = await connectRaw();
+    socket.emit("subscribe:orderbook", { asset: "HYPE/USDC" });
+    await eventually(() => expect(relay.getRooms().map((r) => r.room)).toEqual(["orderbook:@107"]));
+    await eventually(() => expect(server.getRooms()).toContain("orderbook:@107"));
+
+    const received = new Promise<any>((resolve) => socket.once("orderbook:update", resolve));
+    server.emitToRoom("orderbook:@107", "orderbook:update", book("@107", [[24, 1]], [[24.1, 1]]));
+    expect((await received).asset).toBe("@107");
+
+    socket.emit("unsubscribe", { room: "orderbook:HYPE/USDC" });
+    await server.waitFor("unsubscribe", (m) => m.payload.room === "orderbook:@107");
+  });
+
+  it("answers malformed payloads with errors instead of crashing", async () => {
+    const socket = await connectRaw();
+    const errors: any[] = [];
+    socket.on("error", (error) => errors.push(error));
+    const ack = (event: string, ...args: unknown[]) =>
+      new Promise<any>((resolve) => socket.emit(event, ...args, resolve));
+
+    socket.emit("subscribe:orderbook");
+    socket.emit("subscribe:trades", null);
+    socket.emit("subscribe:candle", { coin: "BTC" });
+    socket.emit("subscribe:price", { asset: 42 });
+    socket.emit("unsubscribe");
+
+    expect(await ack("get:prices")).toEqual({ error: "get:prices requires a list of assets" });
+    expect((await ack("get:candles", { coin: "BTC" })).error).toMatch(/^get:candles requires/);
+    expect((await ack("get:trades", "BTC")).error).toMatch(/^get:trades requires/);
+
+    await eventually(() => expect(errors).toHaveLength(5));
+    expect(errors.every((error) => error.code === "INVALID_SUBSCRIPTION")).toBe(true);
+    expect(relay.getRooms()).toEqual([]);
+
+    // Still serving
+    server.setPrices([price("BTC", 97000)]);
+    expect((await ack("get:prices", { assets: ["BTC"] })).map((p: PriceData) => p.symbol)).toEqual(["BTC"]);
+  });
+});
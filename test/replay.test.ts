@@ -0,0 +1,156 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { parseRecording, ReplayClient, SessionRecorder } from "../src/replay";
+import { InboundMessage, ReplayOptions } from "../src/types";
+import { price } from "./fixtures";
+import { FeedClient } from "./helpers";
+
+const START = 1_700_000_000_000;
+
+/** Price updates of BTC at 1, 2, 3 received 0, 100 and 300ms in */
+const RECORDING: InboundMessage[] = [
+  { event: "prices:update", data: [price("BTC", 1)], receivedAt: START },
+  { event: "prices:update", data: [price("BTC", 2)], receivedAt: START + 100 },
+  { event: "prices:update", data: [price("BTC", 3)], receivedAt: START + 300 },
+];
+
+describe("SessionRecorder", () => {
+  it("writes one NDJSON line per inbound event until stopped", () => {
+    const client = new FeedClient();
+    const lines: string[] = [];
+    const recorder = new SessionRecorder(client, { write: (chunk) => lines.push(chunk) });
+
+    client.receive("prices:update", [price("BTC", 1)], START);
+    client.receive("balance:update", { balance: 10 }, START + 5);
+    recorder.stop();
+    client.receive("balance:update", { balance: 11 }, START + 10);
+
+    expect(recorder.getCount()).toBe(2);
+    expect(lines.every((line) => line.endsWith("\n"))).toBe(true);
+    expect(parseRecording(lines.join(""))).toEqual([
+      { event: "prices:update", data: [price("BTC", 1)], receivedAt: START },
+      { event: "balance:update", data: { balance: 10 }, receivedAt: START + 5 },
+    ]);
+  });
+});
+
+describe("parseRecording", () => {
+  it("skips blank lines and names the line it cannot parse", () => {
+    const line = JSON.stringify(RECORDING[0]);
+
+    expect(parseRecording(`${line}\n\n  \n${line}\n`)).toHaveLength(2);
+    expect(() => parseRecording(`${line}\n{"event":`)).toThrow("Invalid recording line 2");
+  });
+});
+
+describe("ReplayClient", () => {
+  let replay: ReplayClient;
+  let prices: number[];
+  let finished: number;
+
+  const create = (options?: ReplayOptions) => {
+    replay = new ReplayClient(RECORDING, options);
+    replay.on("prices", ([btc]) => prices.push(btc.price));
+    replay.on("disconnected", ({ reason }) => reason === "replay complete" && finished++);
+    return replay;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: START });
+    prices = [];
+    finished = 0;
+  });
+
+  afterEach(() => {
+    replay.disconnect();
+    vi.useRealTimers();
+  });
+
+  it("replays events with their recorded spacing", async () => {
+    await create().connect();
+    expect(prices).toEqual([1]);
+
+    vi.advanceTimersByTime(99);
+    expect(prices).toEqual([1]);
+    vi.advanceTimersByTime(1);
+    expect(prices).toEqual([1, 2]);
+
+    vi.advanceTimersByTime(200);
+    expect(prices).toEqual([1, 2, 3]);
+    expect(finished).toBe(1);
+    expect(replay.getState()).toBe("disconnected");
+    expect(replay.getProgress()).toEqual({ position: 3, total: 3, time: START + 300 });
+  });
+
+  it("divides delays by the speed", async () => {
+    await create({ speed: 10 }).connect();
+
+    vi.advanceTimersByTime(10);
+    expect(prices).toEqual([1, 2]);
+    vi.advanceTimersByTime(20);
+    expect(prices).toEqual([1, 2, 3]);
+  });
+
+  it("replays everything without delays at infinite speed", async () => {
+    await create({ speed: Infinity }).connect();
+
+    vi.advanceTimersByTime(0);
+
+    expect(prices).toEqual([1, 2, 3]);
+    expect(finished).toBe(1);
+  });
+
+  it("only advances on step() when stepped", async () => {
+    create({ stepped: true });
+    expect(() => replay.step()).toThrow(/Not connected/);
+    await replay.connect();
+
+    vi.advanceTimersByTime(1000);
+    expect(prices).toEqual([]);
+
+    expect(replay.step()).toBe(1);
+    expect(prices).toEqual([1]);
+    expect(replay.step(5)).toBe(2);
+    expect(prices).toEqual([1, 2, 3]);
+    expect(finished).toBe(1);
+  });
+
+  it("holds events while paused", async () => {
+    await create().connect();
+    replay.pause();
+
+    vi.advanceTimersByTime(1000);
+    expect(prices).toEqual([1]);
+
+    replay.resume();
+    vi.advanceTimersByTime(100);
+    expect(prices).toEqual([1, 2]);
+  });
+
+  it("plays on after a disconnect while paused", async () => {
+    await create().connect();
+    replay.pause();
+    replay.disconnect();
+
+    await replay.connect();
+    vi.advanceTimersByTime(300);
+
+    expect(prices).toEqual([1, 2, 3]);
+  });
+
+  it("starts over when connected after the recording ended", async () => {
+    await create({ speed: Infinity }).connect();
+    vi.advanceTimersByTime(0);
+
+    await replay.connect();
+    vi.advanceTimersByTime(0);
+
+    expect(prices).toEqual([1, 2, 3, 1, 2, 3]);
+    expect(finished).toBe(2);
+  });
+
+  it("rejects a speed that is not positive", () => {
+    expect(() => create({ speed: 0 })).toThrow("Replay speed must be greater than 0");
+    replay = new ReplayClient([]);
+    expect(() => replay.setSpeed(-1)).toThrow("Replay speed must be greater than 0");
+  });
+});
@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { HyperliquidClient } from "../src/client";
+import { MockNyliumServer } from "../src/testing";
+import { trade } from "./fixtures";
+import { eventually, sleep } from "./helpers";
+
+describe("client.stream", () => {
+  let server: MockNyliumServer;
+  let client: HyperliquidClient;
+
+  const unsubscribes = (room: string) =>
+    server.getReceived("unsubscribe").filter((m) => m.payload.room === room);
+
+  const pushTrade = (id: string) =>
+    server.emitToRoom("trades:BTC", "trades:update", {
+      asset: "BTC",
+      trades: [trade(id, "BTC", 97000, 0.1, Date.now())],
+    });
+
+  beforeEach(async () => {
+    server = new MockNyliumServer();
+    await server.start();
+    client = new HyperliquidClient({ url: server.url });
+    await client.connect();
+  });
+
+  afterEach(async () => {
+    client.disconnect();
+    await server.stop();
+  });
+
+  it("shares one subscription between overlapping streams on the same asset", async () => {
+    const first = client.stream("trades", { asset: "BTC" })[Symbol.asyncIterator]();
+    const second = client.stream("trades", { asset: "BTC" })[Symbol.asyncIterator]();
+
+    const firstTrade = first.next();
+    const secondTrade = second.next();
+    await eventually(() => expect(server.getRooms()).toContain("trades:BTC"));
+    expect(server.getReceived("subscribe:trades")).toHaveLength(1);
+
+    pushTrade("1");
+    expect((await firstTrade).value.id).toBe("1");
+    expect((await secondTrade).value.id).toBe("1");
+
+    // The first stream ends; the second keeps the room
+    await first.return!();
+    await sleep(50);
+    expect(unsubscribes("trades:BTC")).toHaveLength(0);
+    expect(client.getSubscriptions().map((s) => s.room)).toEqual(["trades:BTC"]);
+
+    const next = second.next();
+    pushTrade("2");
+    expect((await next).value.id).toBe("2");
+
+    // The last stream ends
+    await second.return!();
+    await server.waitFor("unsubscribe", (m) => m.payload.room === "trades:BTC");
+    expect(client.getSubscriptions()).toEqual([]);
+  });
+
+  it("keeps a room subscribed directly after a stream on it ends", async () => {
+    client.subscribeTrades("BTC");
+    const stream = client.stream("trades", { asset: "BTC" })[Symbol.asyncIterator]();
+    const item = stream.next();
+    await eventually(() => expect(server.getRooms()).toContain("trades:BTC"));
+    pushTrade("1");
+    await item;
+
+    await stream.return!();
+    await sleep(50);
+
+    expect(unsubscribes("trades:BTC")).toHaveLength(0);
+    expect(client.getSubscriptions().map((s) => s.room)).toEqual(["trades:BTC"]);
+  });
+
+  it("defers unsubscribe() of a streamed room until the stream ends", async () => {
+    client.subscribeTrades("BTC");
+    const stream = client.stream("trades", { asset: "BTC" })[Symbol.asyncIterator]();
+    const item = stream.next();
+
+    client.unsubscribe("trades:BTC");
+    await eventually(() => expect(server.getRooms()).toContain("trades:BTC"));
+    pushTrade("1");
+    expect((await item).value.id).toBe("1");
+    expect(unsubscribes("trades:BTC")).toHaveLength(0);
+
+    await stream.return!();
+    await server.waitFor("unsubscribe", (m) => m.payload.room === "trades:BTC");
+  });
+
+  it("never subscribes a stream returned before its first next()", async () => {
+    const stream = client.stream("trades", { asset: "BTC" })[Symbol.asyncIterator]();
+
+    await stream.return!();
+
+    expect(await stream.next()).toEqual({ value: undefined, done: true });
+    expect(client.getSubscriptions()).toEqual([]);
+  });
+
+  it("rejects every next() of a stream on an unknown asset", async () => {
+    const stream = client.stream("orderbook", { asset: "NOT_AN_ASSET" })[Symbol.asyncIterator]();
+
+    await expect(stream.next()).rejects.toThrow(/Unknown asset/);
+    await expect(stream.next()).rejects.toThrow(/Unknown asset/);
+    expect(client.getSubscriptions()).toEqual([]);
+  });
+
+  it("releases a retained room once, however often release is called", async () => {
+    const release = client.retain("orderbook", { asset: "ETH" });
+    const releaseToo = client.retain("orderbook", { asset: "ETH" });
+
+    release();
+    release();
+    expect(client.getSubscriptions().map((s) => s.room)).toEqual(["orderbook:ETH"]);
+
+    releaseToo();
+    expect(client.getSubscriptions()).toEqual([]);
+  });
+});
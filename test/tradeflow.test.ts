@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { TradeFlow } from "../src/tradeflow";
+import { LargeTrade, Trade, TradeFlowOptions, TradeFlowStats } from "../src/types";
+import { trade } from "./fixtures";
+import { FeedClient } from "./helpers";
+
+const START = 1_700_000_000_000;
+
+describe("TradeFlow", () => {
+  let client: FeedClient;
+  let flow: TradeFlow;
+  let updates: TradeFlowStats[];
+  let large: LargeTrade[];
+
+  const create = (options: Partial<TradeFlowOptions> = {}) => {
+    flow = new TradeFlow(client, { asset: "BTC", window: 60_000, ...options });
+    flow.on("update", (stats) => updates.push(stats));
+    flow.on("largeTrade", (largeTrade) => large.push(largeTrade));
+    return flow;
+  };
+
+  const push = (asset: string, trades: Trade[]) =>
+    client.receive("trades:update", { asset, trades });
+
+  /** BTC buy `seconds` in, with `fields` overriding the defaults */
+  const at = (id: string, seconds: number, price: number, size: number, fields: Partial<Trade> = {}) => ({
+    ...trade(id, "BTC", price, size, START + seconds * 1000),
+    ...fields,
+  });
+
+  beforeEach(() => {
+    client = new FeedClient();
+    updates = [];
+    large = [];
+  });
+
+  afterEach(() => {
+    flow?.destroy();
+  });
+
+  it("sums buy and sell flow over the window", () => {
+    create();
+
+    push("BTC", [at("1", 0, 100, 2), at("2", 1, 110, 1, { side: "sell" })]);
+
+    expect(flow.getStats()).toMatchObject({
+      asset: "BTC",
+      trades: 2,
+      tradesPerSecond: 2 / 60,
+      buyVolume: 2,
+      sellVolume: 1,
+      buyValue: 200,
+      sellValue: 110,
+      delta: 1,
+      cvd: 1,
+      vwap: 310 / 3,
+      timestamp: START + 1000,
+    });
+    expect(updates).toHaveLength(1);
+  });
+
+  it("rolls trades out of the window by trade time, keeping them in the CVD", () => {
+    create();
+    push("BTC", [at("1", 0, 100, 2)]);
+    push("BTC", [at("2", 30, 100, 1, { side: "sell" })]);
+
+    // 60s after the first trade: still in the window
+    push("BTC", [at("3", 60, 100, 1)]);
+    expect(flow.getStats()).toMatchObject({ trades: 3, buyVolume: 3, delta: 2, cvd: 2 });
+
+    push("BTC", [at("4", 61, 100, 1)]);
+    expect(flow.getStats()).toMatchObject({
+      trades: 3,
+      buyVolume: 2,
+      sellVolume: 1,
+      buyValue: 200,
+      delta: 1,
+      cvd: 3,
+    });
+
+    // Everything rolled out
+    push("BTC", [at("5", 200, 100, 1, { side: "sell" })]);
+    expect(flow.getStats()).toMatchObject({ trades: 1, buyVolume: 0, sellVolume: 1, delta: -1, cvd: 2 });
+  });
+
+  it("skips trades already in the window and trades older than it", () => {
+    create();
+    push("BTC", [at("1", 100, 100, 1)]);
+
+    // Snapshot resent after a reconnect, plus one trade from before the window
+    push("BTC", [at("1", 100, 100, 1), at("0", 10, 100, 5)]);
+
+    expect(flow.getStats()).toMatchObject({ trades: 1, buyVolume: 1, cvd: 1 });
+    expect(updates).toHaveLength(1);
+  });
+
+  it("only follows trades of its own asset", () => {
+    create();
+
+    push("ETH", [{ ...trade("1", "ETH", 3000, 1, START), user: "0xabc" }]);
+
+    expect(flow.getStats().trades).toBe(0);
+    expect(updates).toEqual([]);
+  });
+
+  it("reports trades above a fixed threshold, grouping a user's side in one batch", () => {
+    create({ largeTradeValue: 1000 });
+
+    push("BTC", [
+      at("1", 0, 100, 6, { user: "0xABC" }),
+      at("2", 0, 102, 4, { user: "0xabc" }),
+      at("3", 0, 100, 9, { user: "0xabc", side: "sell" }),
+      at("4", 0, 100, 5),
+      at("5", 0, 100, 5),
+    ]);
+
+    expect(large).toHaveLength(1);
+    expect(large[0]).toMatchObject({
+      asset: "BTC",
+      side: "buy",
+      user: "0xabc",
+      size: 10,
+      value: 1008,
+      threshold: 1000,
+      timestamp: START,
+    });
+    expect(large[0].price).toBeCloseTo(100.8, 10);
+    expect(large[0].trades.map((t) => t.id)).toEqual(["1", "2"]);
+  });
+
+  it("warms up the adaptive threshold before reporting", () => {
+    create({ minTrades: 3, largeTradeMultiplier: 5 });
+
+    // Too few trades in the window for a threshold yet
+    push("BTC", [at("1", 0, 100, 1), at("2", 1, 100, 1)]);
+    push("BTC", [at("3", 2, 100, 49)]);
+    expect(large).toEqual([]);
+    expect(updates[0].largeTradeThreshold).toBeUndefined();
+
+    // Average value 1700 now; the next trade is checked against 5x that
+    expect(flow.getStats().largeTradeThreshold).toBe(8500);
+    push("BTC", [at("4", 3, 100, 80), at("5", 3, 100, 90)]);
+
+    expect(large.map((t) => [t.trades[0].id, t.threshold])).toEqual([["5", 8500]]);
+  });
+
+  it("starts over on reset()", () => {
+    create();
+    push("BTC", [at("1", 0, 100, 1)]);
+
+    flow.reset();
+    push("BTC", [at("1", 0, 100, 1)]);
+
+    expect(flow.getStats()).toMatchObject({ trades: 1, cvd: 1 });
+  });
+
+  it("rejects a window that is not positive", () => {
+    expect(() => new TradeFlow(client, { asset: "BTC", window: 0 })).toThrow(
+      "Trade flow window must be positive"
+    );
+  });
+});
@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { HyperliquidClient } from "../src/client";
+import { HyperliquidTransport, WebSocketLike } from "../src/transport";
+import l2BookMessage from "./fixtures/hyperliquid/l2Book.json";
+import tradesMessage from "./fixtures/hyperliquid/trades.json";
+import { nextEvent } from "./helpers";
+
+/**
+ * In-memory WebSocket the test pushes Hyperliquid messages through
+ */
+class FakeWebSocket implements WebSocketLike {
+  static last: FakeWebSocket | null = null;
+
+  sent: any[] = [];
+  onopen: ((event: any) => void) | null = null;
+  onmessage: ((event: any) => void) | null = null;
+  onclose: ((event: any) => void) | null = null;
+  onerror: ((event: any) => void) | null = null;
+
+  constructor(public url: string) {
+    FakeWebSocket.last = this;
+    setTimeout(() => this.onopen?.({}), 0);
+  }
+
+  send(data: string): void {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close(): void {}
+
+  push(message: unknown): void {
+    this.onmessage?.({ data: typeof message === "string" ? message : JSON.stringify(message) });
+  }
+}
+
+describe("HyperliquidTransport", () => {
+  let client: HyperliquidClient;
+
+  const connect = async () => {
+    client = new HyperliquidClient({
+      url: "wss://example.invalid/ws",
+      autoReconnect: false,
+      transport: (url, network) =>
+        new HyperliquidTransport(url, { network, WebSocket: FakeWebSocket }),
+    });
+    await client.connect();
+    return FakeWebSocket.last!;
+  };
+
+  afterEach(() => {
+    client?.disconnect();
+  });
+
+  it("translates channel messages into client events", async () => {
+    const socket = await connect();
+    client.subscribeOrderBook("BTC");
+    expect(socket.sent).toContainEqual({
+      method: "subscribe",
+      subscription: { type: "l2Book", coin: "BTC" },
+    });
+
+    const book = nextEvent(client, "orderbook");
+    socket.push(l2BookMessage);
+
+    expect((await book).bestBid).toBe(97010);
+  });
+
+  it("reports malformed payloads as errors and keeps processing messages", async () => {
+    const socket = await connect();
+    client.subscribeTrades("SOL");
+    const error = nextEvent(client, "error");
+
+    // Neither throws out of onmessage
+    expect(() => socket.push({ channel: "l2Book", data: { coin: "BTC" } })).not.toThrow();
+    expect(() => socket.push({ channel: "trades", data: null })).not.toThrow();
+
+    expect(await error).toEqual({
+      code: "MALFORMED_MESSAGE",
+      message: expect.stringMatching(/^Malformed l2Book message: /),
+    });
+
+    const trades = nextEvent(client, "trades");
+    socket.push(tradesMessage);
+    expect((await trades).trades).toHaveLength(2);
+  });
+
+  it("ignores messages that are not JSON", async () => {
+    const socket = await connect();
+    const errors: unknown[] = [];
+    client.on("error", (error) => errors.push(error));
+
+    socket.push("Websocket connection established.");
+
+    expect(errors).toEqual([]);
+  });
+});
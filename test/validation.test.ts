@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { ClientOptions, Logger, ValidationErrorEvent } from "../src/types";
+import { validateServerEvent } from "../src/validation";
+import { book, price, trade } from "./fixtures";
+import { FeedClient } from "./helpers";
+
+describe("validateServerEvent", () => {
+  it("accepts well-formed payloads and events without a schema", () => {
+    expect(validateServerEvent("prices:update", [price("BTC", 97000)])).toBeNull();
+    expect(validateServerEvent("orderbook:update", book("BTC", [[100, 1]], [[101, 1]]))).toBeNull();
+    expect(validateServerEvent("connected", { anything: true })).toBeNull();
+  });
+
+  it("reports the path of the first offending value", () => {
+    const prices = [price("BTC", 1), price("ETH", 2), price("SOL", 3), price("HYPE", 4)];
+    (prices[3] as any).price = "4";
+
+    expect(validateServerEvent("prices:update", prices)).toEqual({
+      path: "[3].price",
+      message: "expected number, got string",
+    });
+    expect(
+      validateServerEvent("trades:update", {
+        asset: "BTC",
+        trades: [{ ...trade("1", "BTC", 1, 1, 0), side: "long" }],
+      })
+    ).toEqual({ path: "trades[0].side", message: 'expected one of buy, sell, got "long"' });
+    expect(validateServerEvent("balance:update", null)).toEqual({
+      path: "",
+      message: "expected object, got null",
+    });
+  });
+});
+
+describe("client validation", () => {
+  let warnings: string[];
+  let received: { messages: string[]; prices: number; invalid: ValidationErrorEvent[] };
+
+  const logger: Logger = {
+    debug: () => {},
+    info: () => {},
+    warn: (message) => warnings.push(message),
+    error: () => {},
+  };
+
+  const create = (validation: ClientOptions["validation"]) => {
+    const client = new FeedClient({ validation, logger });
+    client.on("message", ({ event }) => received.messages.push(event));
+    client.on("prices", () => received.prices++);
+    client.on("validationError", (error) => received.invalid.push(error));
+    return client;
+  };
+
+  const invalid = () => [price("BTC", 97000), { ...price("ETH", 3500), price: null }];
+
+  beforeEach(() => {
+    warnings = [];
+    received = { messages: [], prices: 0, invalid: [] };
+  });
+
+  it("drops invalid payloads in strict mode, before the raw message event", () => {
+    const client = create("strict");
+
+    client.receive("prices:update", invalid());
+    client.receive("prices:update", [price("BTC", 97000)]);
+
+    expect(received.invalid).toEqual([
+      {
+        event: "prices:update",
+        path: "[1].price",
+        message: "expected number, got null",
+        data: invalid(),
+      },
+    ]);
+    expect(received.messages).toEqual(["prices:update"]);
+    expect(received.prices).toBe(1);
+    expect(warnings).toEqual([]);
+  });
+
+  it("passes invalid payloads through with a warning in lenient mode", () => {
+    const client = create("lenient");
+
+    client.receive("prices:update", invalid());
+
+    expect(received.invalid.map(({ path }) => path)).toEqual(["[1].price"]);
+    expect(received.messages).toEqual(["prices:update"]);
+    expect(received.prices).toBe(1);
+    expect(warnings).toEqual(["Invalid payload"]);
+  });
+
+  it("skips validation when off", () => {
+    const client = create("off");
+
+    client.receive("prices:update", invalid());
+
+    expect(received.invalid).toEqual([]);
+    expect(received.prices).toBe(1);
+  });
+});